@@ -1,30 +1,113 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { CanvasGrid, CanvasGridHandle } from './components/CanvasGrid';
 import SummaryPanel from './components/SummaryPanel';
 import BufferGridPanel, { BufferGridPanelHandle } from './components/BufferGridPanel';
 import CellEditor from './components/CellEditor';
 import CellActionMenu from './components/CellActionMenu';
 import { Toolbar } from './components/Toolbar';
+import GridSettingsDialog, { GridSettings } from './components/GridSettingsDialog';
+import LayoutCellEditor, { LayoutCellValues } from './components/LayoutCellEditor';
+import SearchBar from './components/SearchBar';
+import FilterBar from './components/FilterBar';
+import SelectionBar from './components/SelectionBar';
+import FilterDialog from './components/FilterDialog';
+import MaterialCatalogDialog from './components/MaterialCatalogDialog';
+import LedgerDialog from './components/LedgerDialog';
+import SnapshotDialog from './components/SnapshotDialog';
+import DiffDialog from './components/DiffDialog';
+import ImportDialog from './components/ImportDialog';
+import CsvImportDialog from './components/CsvImportDialog';
+import PrintDialog from './components/PrintDialog';
+import DragGhost from './components/DragGhost';
+import DropConflictDialog from './components/DropConflictDialog';
+import PasteDialog from './components/PasteDialog';
+import TransferDialog from './components/TransferDialog';
 import {
     CellData,
     EditorState,
+    GridPosition,
+    MapCell,
     DEFAULT_GRID_CONFIG,
     BUFFER_GRID_CONFIG,
+    DEFAULT_MAP_ID,
+    GridKind,
+    ImageRecord,
+    WarehouseMap,
+    createWarehouseMap,
+    generateId,
     getCellKey,
     cellHasContent,
+    parseCellKey,
+    canHoldInventory,
+    typeBlocksInventory,
+    isDefaultMapCell,
 } from './types';
 import {
     loadAllCells,
     loadAllBufferCells,
-    saveCell,
-    saveBufferCell,
-    deleteCell,
-    deleteBufferCell,
-    clearAllCells,
-    clearAllBufferCells,
+    loadImage,
+    loadMaps,
+    loadLayout,
+    applyLayoutWrites,
+    LayoutWrite,
+    saveMap,
+    duplicateMap,
+    deleteMap,
+    applyCellWrites,
     exportData,
-    importData,
+    resolveImportImages,
+    loadMaterialCatalog,
+    saveMaterialCatalog,
+    loadSnapshotData,
+    takeSnapshot,
+    takeAutoSnapshots,
 } from './storage';
+import {
+    CellChange,
+    HistoryEntry,
+    HistoryState,
+    MapSettings,
+    CommandExtras,
+    EMPTY_HISTORY,
+    normalizeChanges,
+    invertChanges,
+    applyChangesToMap,
+    toCellWrites,
+    findOrphanedImageIds,
+    applyLayoutChanges,
+    toLayoutWrites,
+    getCatalogChanges,
+    applyCatalogChanges,
+    toFamilyWrites,
+    pushHistory,
+} from './history';
+import { TransferStrategy, isInBounds, planGridResize, planTransfer } from './placement';
+import { findLocation, getLocationCode, getBufferLocationCode, parseA1, parseBufferLocation } from './location';
+import { SearchMatch } from './search';
+import { CellFilter, createCellMatcher, filterCells, getFilterKey } from './filter';
+import { DEFAULT_MATERIAL_CATALOG, MaterialCatalog, mergeCatalogs } from './catalog';
+import { LedgerMovement, buildLedgerEntries, getReplayMovement } from './ledger';
+import { AUTO_SNAPSHOT_CHECK_INTERVAL, SnapshotInfo, planSnapshotRestore } from './snapshot';
+import { getIncomingImageIds } from './diff';
+import { IMPORT_MODE_LABELS, ImportPlan } from './importer';
+import { ParsedExport, RejectedRecord, validateExportData, validateExportFile } from './schema';
+import { CsvMapping, buildInventoryCsv, convertCsvRows, createLocationResolver, parseCsv } from './csv';
+import { XLSX_MIME_TYPE, buildInventoryWorkbook } from './xlsx';
+import {
+    CellDragHandlers,
+    CellDragSource,
+    DropConflictMode,
+    DropPreview,
+    DropTarget,
+    MergeImageChoice,
+    MovePlan,
+    PasteConflictMode,
+    buildMoveWrites,
+    buildPasteWrites,
+    getDropPreview,
+    planCellMove,
+    planPaste,
+} from './cellMove';
 
 // ───────────────────────────────────────────────────────────────────────────────
 // Action menu state
@@ -38,12 +121,78 @@ interface ActionMenuState {
     isBuffer: boolean;
 }
 
+// Active map persistence
+const ACTIVE_MAP_KEY = 'active-map-id';
+
+function loadActiveMapId(): string | null {
+    try {
+        return localStorage.getItem(ACTIVE_MAP_KEY);
+    } catch { }
+    return null;
+}
+
+function saveActiveMapId(id: string) {
+    try {
+        localStorage.setItem(ACTIVE_MAP_KEY, id);
+    } catch { }
+}
+
+// Export file name such as "inventory-hall-a-2024-05-01.json"
+function getExportFileName(map: WarehouseMap | undefined, extension: string): string {
+    const mapSlug = (map?.name ?? 'map').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    return `inventory-${mapSlug}-${new Date().toISOString().split('T')[0]}.${extension}`;
+}
+
+// Stored image data for the given ids (missing images are left out)
+async function loadImageRecords(ids: Iterable<string>): Promise<ImageRecord[]> {
+    const images: ImageRecord[] = [];
+    for (const id of ids) {
+        const dataUrl = await loadImage(id);
+        if (dataUrl) images.push({ id, dataUrl });
+    }
+    return images;
+}
+
+// Both grids and the layout of a map
+async function loadMapContents(mapId: string) {
+    const [cells, bufferCells, layout] = await Promise.all([
+        loadAllCells(mapId),
+        loadAllBufferCells(mapId),
+        loadLayout(mapId),
+    ]);
+    return { cells, bufferCells, layout };
+}
+
+// Ids of the images the cells refer to
+function getImageIds(cells: CellData[]): Set<string> {
+    const ids = new Set<string>();
+    cells.forEach(cell => { if (cell.imageId) ids.add(cell.imageId); });
+    return ids;
+}
+
+function downloadFile(content: BlobPart, fileName: string, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
 const App: React.FC = () => {
+    const [maps, setMaps] = useState<WarehouseMap[]>([]);
+    const [activeMapId, setActiveMapId] = useState<string>(DEFAULT_MAP_ID);
     const [cells, setCells] = useState<Map<string, CellData>>(new Map());
     const [bufferCells, setBufferCells] = useState<Map<string, CellData>>(new Map());
+    const [layout, setLayout] = useState<Map<string, MapCell>>(new Map());
+    const [catalog, setCatalog] = useState<MaterialCatalog>(DEFAULT_MATERIAL_CATALOG);
     const [isLoading, setIsLoading] = useState(true);
     const [summaryExpanded, setSummaryExpanded] = useState(false);
     const [isSelectMode, setIsSelectMode] = useState(false);
+    const [isLayoutMode, setIsLayoutMode] = useState(false);
 
     const [highlightedCode, setHighlightedCode] = useState<string | null>(null);
     const [bufferHighlightedCode, setBufferHighlightedCode] = useState<string | null>(null);
@@ -56,27 +205,113 @@ const App: React.FC = () => {
         isBuffer: false,
     });
 
+    const [settingsOpen, setSettingsOpen] = useState(false);
+    const [materialsOpen, setMaterialsOpen] = useState(false);
+    const [ledgerOpen, setLedgerOpen] = useState(false);
+    const [snapshotsOpen, setSnapshotsOpen] = useState(false);
+    const [diffOpen, setDiffOpen] = useState(false);
+    const [printOpen, setPrintOpen] = useState(false);
+    const [pendingImport, setPendingImport] = useState<{
+        fileName: string;
+        file: ParsedExport;
+        rejected: RejectedRecord[];
+    } | null>(null);
+    const [pendingCsv, setPendingCsv] = useState<{ fileName: string; rows: string[][] } | null>(null);
+    const [searchOpen, setSearchOpen] = useState(false);
+    const [filterOpen, setFilterOpen] = useState(false);
+    const [filters, setFilters] = useState<CellFilter[]>([]);
+    const [layoutEditor, setLayoutEditor] = useState<{ isOpen: boolean; positions: GridPosition[] }>({
+        isOpen: false,
+        positions: [],
+    });
+
+    // Keys selected in the main grid, for the selection bar
+    const [mainSelection, setMainSelection] = useState<string[]>([]);
+
     // Action menu state
     const [actionMenu, setActionMenu] = useState<ActionMenuState | null>(null);
 
+    // Cells being dragged after a long press, the pointer and the slot under it
+    const [cellDrag, setCellDrag] = useState<{
+        source: CellDragSource;
+        x: number;
+        y: number;
+        target: DropTarget | null;
+    } | null>(null);
+    // A drop onto stock, waiting for swap / merge / cancel
+    const [pendingDrop, setPendingDrop] = useState<{
+        source: CellDragSource;
+        target: DropTarget;
+        plan: MovePlan;
+    } | null>(null);
+
+    // Undo / redo stacks (of the active map; other maps' stacks are parked by id)
+    const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+    // Mirrors `history` without waiting for a render, so quick repeated undos each take the next entry
+    const historyRef = useRef<HistoryState>(EMPTY_HISTORY);
+    const historyByMapRef = useRef<Map<string, HistoryState>>(new Map());
+    // Map being loaded by the latest switch; an earlier switch still loading gives way to it
+    const switchingToRef = useRef<string | null>(null);
+
     // In-memory clipboard (array for multi-cell copy)
     const clipboardRef = useRef<CellData[]>([]);
     const [hasClipboard, setHasClipboard] = useState(false);
+    // The first paste after a cut moves stock; later pastes (and pastes of copies) add it
+    const clipboardIsCutRef = useRef(false);
+    // Image data of the clipboard cells: a cut deletes the originals' images
+    const clipboardImagesRef = useRef<ImageRecord[]>([]);
+    // A paste that does not fit cleanly, waiting for clip / overwrite / skip / merge
+    const [pendingPaste, setPendingPaste] = useState<{ target: DropTarget; plan: MovePlan; cellCount: number } | null>(null);
+    // Cells on their way to the other grid, waiting for a placement strategy (kept between moves)
+    const [pendingTransfer, setPendingTransfer] = useState<{ source: GridKind; cells: CellData[] } | null>(null);
+    const [transferStrategy, setTransferStrategy] = useState<TransferStrategy>('shape');
+    const [transferTargetCode, setTransferTargetCode] = useState('');
 
     // Refs for hit testing / selection
     const mainGridRef = React.useRef<CanvasGridHandle>(null);
     const bufferGridRef = React.useRef<BufferGridPanelHandle>(null);
 
-    // Load cells from storage on mount
+    const activeMap = maps.find(m => m.id === activeMapId);
+    const gridConfig = activeMap?.config ?? DEFAULT_GRID_CONFIG;
+    const bufferConfig = activeMap?.bufferConfig ?? BUFFER_GRID_CONFIG;
+
+    const getMainLocationCode = useCallback((row: number, col: number) => {
+        return getLocationCode(activeMap, layout, row, col);
+    }, [activeMap, layout]);
+
+    const getGridLocationCode = useCallback((grid: GridKind, row: number, col: number) => {
+        return grid === 'buffer' ? getBufferLocationCode(row, col) : getMainLocationCode(row, col);
+    }, [getMainLocationCode]);
+
+    // Sticky filter: stays until removed and applies to every map
+    const cellFilter = useMemo(() => filters.length > 0 ? createCellMatcher(filters) : undefined, [filters]);
+    const filteredCells = useMemo(() => filterCells(cells, filters), [cells, filters]);
+    const filteredBufferCount = useMemo(() => filterCells(bufferCells, filters).size, [bufferCells, filters]);
+
+    const loadMapCells = useCallback(async (mapId: string) => {
+        const contents = await loadMapContents(mapId);
+        setCells(contents.cells);
+        setBufferCells(contents.bufferCells);
+        setLayout(contents.layout);
+    }, []);
+
+    // Load maps and the active map's cells from storage on mount
     useEffect(() => {
         const loadData = async () => {
             try {
-                const [loadedCells, loadedBufferCells] = await Promise.all([
-                    loadAllCells(),
-                    loadAllBufferCells(),
-                ]);
-                setCells(loadedCells);
-                setBufferCells(loadedBufferCells);
+                let loadedMaps = await loadMaps();
+                if (loadedMaps.length === 0) {
+                    const defaultMap = createWarehouseMap(DEFAULT_MAP_ID, 'Default');
+                    await saveMap(defaultMap);
+                    loadedMaps = [defaultMap];
+                }
+                const savedId = loadActiveMapId();
+                const active = loadedMaps.find(m => m.id === savedId) ?? loadedMaps[0];
+
+                setMaps(loadedMaps);
+                setActiveMapId(active.id);
+                setCatalog(await loadMaterialCatalog());
+                await loadMapCells(active.id);
             } catch (error) {
                 console.error('Failed to load cells:', error);
             } finally {
@@ -84,6 +319,14 @@ const App: React.FC = () => {
             }
         };
         loadData();
+    }, [loadMapCells]);
+
+    // Automatic snapshots: checked on start and then periodically; storage decides which maps are due
+    useEffect(() => {
+        const run = () => takeAutoSnapshots().catch(error => console.error('Failed to take snapshots:', error));
+        run();
+        const timer = setInterval(run, AUTO_SNAPSHOT_CHECK_INTERVAL);
+        return () => clearInterval(timer);
     }, []);
 
     // Auto-clear highlights
@@ -101,22 +344,371 @@ const App: React.FC = () => {
         }
     }, [bufferHighlightedCode]);
 
+    // ── Commands (every grid mutation goes through here) ─────────────────────
+    const makeChange = useCallback((grid: GridKind, row: number, col: number, after: CellData | null): CellChange => {
+        const map = grid === 'buffer' ? bufferCells : cells;
+        return { grid, row, col, before: map.get(getCellKey(row, col)) ?? null, after };
+    }, [cells, bufferCells]);
+
+    const updateHistory = useCallback((update: (prev: HistoryState) => HistoryState) => {
+        historyRef.current = update(historyRef.current);
+        setHistory(historyRef.current);
+    }, []);
+
+    // Stock movements of a command's changes, for the ledger
+    const makeLedgerEntries = useCallback((changes: CellChange[], movement: LedgerMovement, action: string) => {
+        return buildLedgerEntries(changes, movement, {
+            mapId: activeMapId,
+            action,
+            timestamp: Date.now(),
+            getLocation: getGridLocationCode,
+        });
+    }, [activeMapId, getGridLocationCode]);
+
+    // The active map with other grid settings, shown right away; the caller stores it
+    const applyMapSettings = useCallback((settings: MapSettings | undefined) => {
+        if (!settings || !activeMap) return undefined;
+        const updated: WarehouseMap = { ...activeMap, ...settings };
+        setMaps(prev => prev.map(m => m.id === updated.id ? updated : m));
+        return updated;
+    }, [activeMap]);
+
+    // Show one side of what a command changes besides cells; returns the writes that store it
+    const applyCommandExtras = useCallback((extras: CommandExtras, side: 'before' | 'after') => {
+        const layoutChanges = side === 'after' ? extras.layout ?? [] : invertChanges(extras.layout ?? []);
+        const catalogChanges = side === 'after' ? extras.catalog ?? [] : invertChanges(extras.catalog ?? []);
+        if (layoutChanges.length > 0) setLayout(prev => applyLayoutChanges(prev, layoutChanges));
+        if (catalogChanges.length > 0) setCatalog(prev => applyCatalogChanges(prev, catalogChanges));
+        return {
+            map: applyMapSettings(extras.settings?.[side]),
+            layout: toLayoutWrites(layoutChanges),
+            families: toFamilyWrites(catalogChanges),
+        };
+    }, [applyMapSettings]);
+
+    // Apply, record and save a command. Resolves to false when saving failed and the edit was rolled back.
+    const executeCommand = useCallback(async (
+        label: string,
+        rawChanges: CellChange[],
+        movement: LedgerMovement = { reason: 'adjust' },
+        addedImages: ImageRecord[] = [],
+        extras: CommandExtras = {}
+    ): Promise<boolean> => {
+        const changes = normalizeChanges(rawChanges);
+        if (changes.length === 0 && !extras.settings && !extras.layout?.length && !extras.catalog?.length) return true;
+
+        const nextCells = applyChangesToMap(cells, changes, 'main');
+        const nextBufferCells = applyChangesToMap(bufferCells, changes, 'buffer');
+        const orphanedImageIds = findOrphanedImageIds(changes, nextCells, nextBufferCells);
+
+        setCells(nextCells);
+        setBufferCells(nextBufferCells);
+        const extraWrites = applyCommandExtras(extras, 'after');
+
+        let entry: HistoryEntry | null = null;
+        try {
+            // Keep orphaned image data in the history entry so undo can bring it back
+            const removedImages = await loadImageRecords(orphanedImageIds);
+            const pushed: HistoryEntry = { label, changes, removedImages, addedImages, movement, ...extras };
+            entry = pushed;
+            updateHistory(prev => pushHistory(prev, pushed));
+            await applyCellWrites(
+                activeMapId,
+                toCellWrites(changes),
+                { put: addedImages, remove: orphanedImageIds },
+                makeLedgerEntries(changes, movement, label),
+                extraWrites
+            );
+            return true;
+        } catch (error) {
+            // Nothing was saved: take the edit back off the grid and the undo stack
+            console.error(`Failed to apply "${label}":`, error);
+            const inverse = invertChanges(changes);
+            setCells(prev => applyChangesToMap(prev, inverse, 'main'));
+            setBufferCells(prev => applyChangesToMap(prev, inverse, 'buffer'));
+            applyCommandExtras(extras, 'before');
+            const failed = entry;
+            if (failed) {
+                updateHistory(prev => ({
+                    past: prev.past.filter(e => e !== failed),
+                    future: prev.future.filter(e => e !== failed),
+                }));
+            }
+            alert(`Could not save "${label}"; the change was not applied.`);
+            return false;
+        }
+    }, [activeMapId, cells, bufferCells, makeLedgerEntries, updateHistory, applyCommandExtras]);
+
+    const handleUndo = useCallback(async () => {
+        const { past } = historyRef.current;
+        const entry = past[past.length - 1];
+        if (!entry) return;
+
+        const inverse = invertChanges(entry.changes);
+        setCells(prev => applyChangesToMap(prev, inverse, 'main'));
+        setBufferCells(prev => applyChangesToMap(prev, inverse, 'buffer'));
+        const extraWrites = applyCommandExtras(entry, 'before');
+        updateHistory(prev => ({ past: prev.past.slice(0, -1), future: [...prev.future, entry] }));
+
+        try {
+            await applyCellWrites(
+                activeMapId,
+                toCellWrites(inverse),
+                { put: entry.removedImages, remove: entry.addedImages.map(img => img.id) },
+                makeLedgerEntries(inverse, getReplayMovement(entry.movement), `Undo ${entry.label}`),
+                extraWrites
+            );
+        } catch (error) {
+            console.error(`Failed to undo "${entry.label}":`, error);
+            setCells(prev => applyChangesToMap(prev, entry.changes, 'main'));
+            setBufferCells(prev => applyChangesToMap(prev, entry.changes, 'buffer'));
+            applyCommandExtras(entry, 'after');
+            updateHistory(prev => ({ past: [...prev.past, entry], future: prev.future.filter(e => e !== entry) }));
+            alert(`Could not undo "${entry.label}"; nothing was changed.`);
+        }
+    }, [activeMapId, makeLedgerEntries, updateHistory, applyCommandExtras]);
+
+    const handleRedo = useCallback(async () => {
+        const { future } = historyRef.current;
+        const entry = future[future.length - 1];
+        if (!entry) return;
+
+        setCells(prev => applyChangesToMap(prev, entry.changes, 'main'));
+        setBufferCells(prev => applyChangesToMap(prev, entry.changes, 'buffer'));
+        const extraWrites = applyCommandExtras(entry, 'after');
+        updateHistory(prev => ({ past: [...prev.past, entry], future: prev.future.slice(0, -1) }));
+
+        try {
+            await applyCellWrites(
+                activeMapId,
+                toCellWrites(entry.changes),
+                { put: entry.addedImages, remove: entry.removedImages.map(img => img.id) },
+                makeLedgerEntries(entry.changes, getReplayMovement(entry.movement), `Redo ${entry.label}`),
+                extraWrites
+            );
+        } catch (error) {
+            console.error(`Failed to redo "${entry.label}":`, error);
+            const inverse = invertChanges(entry.changes);
+            setCells(prev => applyChangesToMap(prev, inverse, 'main'));
+            setBufferCells(prev => applyChangesToMap(prev, inverse, 'buffer'));
+            applyCommandExtras(entry, 'before');
+            updateHistory(prev => ({ past: prev.past.filter(e => e !== entry), future: [...prev.future, entry] }));
+            alert(`Could not redo "${entry.label}"; nothing was changed.`);
+        }
+    }, [activeMapId, makeLedgerEntries, updateHistory, applyCommandExtras]);
+
+    // Ctrl+Z / Ctrl+Y (and Ctrl+Shift+Z) outside of text inputs and the editor; Ctrl+F opens search
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || editorState.isOpen) return;
+            const key = e.key.toLowerCase();
+            if (key === 'f') {
+                e.preventDefault();
+                setSearchOpen(true);
+                return;
+            }
+
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select')) return;
+
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [editorState.isOpen, handleUndo, handleRedo]);
+
+    // ── Maps ──────────────────────────────────────────────────────────────────
+    // Resolves to whether the map was switched
+    const handleSwitchMap = useCallback(async (mapId: string): Promise<boolean> => {
+        if (mapId === activeMapId) return false;
+
+        // Load first and switch in one go: until then the grids, history and storage
+        // keys all stay with the map on screen, so edits made meanwhile land there
+        switchingToRef.current = mapId;
+        let contents: Awaited<ReturnType<typeof loadMapContents>>;
+        try {
+            contents = await loadMapContents(mapId);
+        } catch (error) {
+            console.error('Failed to load map:', error);
+            alert('Failed to load map');
+            return false;
+        }
+        if (switchingToRef.current !== mapId) return false;
+        switchingToRef.current = null;
+
+        historyByMapRef.current.set(activeMapId, historyRef.current);
+        updateHistory(() => historyByMapRef.current.get(mapId) ?? EMPTY_HISTORY);
+        mainGridRef.current?.clearSelection();
+        bufferGridRef.current?.clearSelection();
+        setActionMenu(null);
+        setHighlightedCode(null);
+        setBufferHighlightedCode(null);
+
+        setCells(contents.cells);
+        setBufferCells(contents.bufferCells);
+        setLayout(contents.layout);
+        setActiveMapId(mapId);
+        saveActiveMapId(mapId);
+        return true;
+    }, [activeMapId, updateHistory]);
+
+    const handleCreateMap = useCallback(async (name: string) => {
+        const map = createWarehouseMap(generateId(), name);
+        try {
+            await saveMap(map);
+            setMaps(prev => [...prev, map]);
+            await handleSwitchMap(map.id);
+        } catch (error) { console.error('Failed to create map:', error); }
+    }, [handleSwitchMap]);
+
+    const handleRenameMap = useCallback(async (name: string) => {
+        if (!activeMap) return;
+        const renamed = { ...activeMap, name };
+        try {
+            await saveMap(renamed);
+            setMaps(prev => prev.map(m => m.id === renamed.id ? renamed : m));
+        } catch (error) { console.error('Failed to rename map:', error); }
+    }, [activeMap]);
+
+    const handleDuplicateMap = useCallback(async (name: string) => {
+        if (!activeMap) return;
+        const copy: WarehouseMap = {
+            ...createWarehouseMap(generateId(), name),
+            config: { ...activeMap.config },
+            bufferConfig: { ...activeMap.bufferConfig },
+        };
+        try {
+            await duplicateMap(activeMap.id, copy);
+            setMaps(prev => [...prev, copy]);
+            await handleSwitchMap(copy.id);
+        } catch (error) { console.error('Failed to duplicate map:', error); }
+    }, [activeMap, handleSwitchMap]);
+
+    const handleDeleteMap = useCallback(async () => {
+        const remaining = maps.filter(m => m.id !== activeMapId);
+        if (remaining.length === 0) return;
+
+        const deletedId = activeMapId;
+        try {
+            if (!await handleSwitchMap(remaining[0].id)) return;
+            await deleteMap(deletedId);
+            historyByMapRef.current.delete(deletedId);
+            setMaps(remaining);
+        } catch (error) { console.error('Failed to delete map:', error); }
+    }, [maps, activeMapId, handleSwitchMap]);
+
+    // Change grid dimensions; cells cut off by shrinking are moved into the buffer
+    const handleApplyGridSettings = useCallback(async (settings: GridSettings) => {
+        if (!activeMap) return;
+        const { config, bufferConfig: newBufferConfig, locationPattern, zone } = settings;
+
+        const plan = planGridResize(cells, bufferCells, config, newBufferConfig);
+        if (!plan.fits) return;
+
+        const overflow: { grid: GridKind; cell: CellData }[] = [
+            ...plan.bufferOverflow.map(cell => ({ grid: 'buffer' as GridKind, cell })),
+            ...plan.mainOverflow.map(cell => ({ grid: 'main' as GridKind, cell })),
+        ];
+        const changes: CellChange[] = [];
+        overflow.forEach(({ grid, cell }, i) => {
+            const target = plan.targets[i];
+            changes.push(makeChange(grid, cell.row, cell.col, null));
+            changes.push(makeChange('buffer', target.row, target.col, { ...cell, ...target }));
+        });
+
+        // One undo step: the new settings and the cells they push into the buffer
+        const before: MapSettings = {
+            config: activeMap.config,
+            bufferConfig: activeMap.bufferConfig,
+            locationPattern: activeMap.locationPattern,
+            zone: activeMap.zone,
+        };
+        const after: MapSettings = {
+            config,
+            bufferConfig: newBufferConfig,
+            locationPattern: locationPattern || undefined,
+            zone: zone || undefined,
+        };
+        if (changes.length === 0 && JSON.stringify(before) === JSON.stringify(after)) return;
+        await executeCommand('Grid settings', changes, { reason: 'transfer' }, [], { settings: { before, after } });
+    }, [activeMap, cells, bufferCells, executeCommand, makeChange]);
+
+    // ── Layout ────────────────────────────────────────────────────────────────
+    const handleLayoutSave = useCallback(async (values: LayoutCellValues) => {
+        const { positions } = layoutEditor;
+        if (positions.length === 0) return;
+
+        if (typeBlocksInventory(values.type)) {
+            const occupied = positions.filter(p => cells.has(getCellKey(p.row, p.col)));
+            if (occupied.length > 0) {
+                alert(`${occupied.length} of these cells still hold inventory. Move or clear them first.`);
+                return;
+            }
+        }
+
+        const writes: LayoutWrite[] = positions.map(({ row, col }) => {
+            const existing = layout.get(getCellKey(row, col));
+            const mapCell: MapCell = {
+                id: getCellKey(row, col),
+                row,
+                col,
+                type: values.type,
+                // Codes are per slot, so multi-cell edits keep each cell's own code
+                locationCode: positions.length === 1 ? values.locationCode : existing?.locationCode ?? '',
+                labelText: values.type === 'label' ? values.labelText : undefined,
+            };
+            return { row, col, cell: isDefaultMapCell(mapCell) ? null : mapCell };
+        });
+
+        setLayout(prev => {
+            const next = new Map(prev);
+            writes.forEach(({ row, col, cell }) => {
+                if (cell) next.set(getCellKey(row, col), cell);
+                else next.delete(getCellKey(row, col));
+            });
+            return next;
+        });
+        mainGridRef.current?.clearSelection();
+
+        try {
+            await applyLayoutWrites(activeMapId, writes);
+        } catch (error) { console.error('Failed to save layout:', error); }
+    }, [layoutEditor, cells, layout, activeMapId]);
+
     // ── Cell tap → Single: Select, Double: Edit ────────────────────────────────
     const handleCellSingleTap = useCallback((row: number, col: number) => {
         if (isSelectMode) {
             mainGridRef.current?.toggleSelection(getCellKey(row, col));
+        } else if (isLayoutMode) {
+            setLayoutEditor({ isOpen: true, positions: [{ row, col }] });
         }
-    }, [isSelectMode]);
+    }, [isSelectMode, isLayoutMode]);
 
     const handleCellDoubleTap = useCallback((row: number, col: number) => {
         const key = getCellKey(row, col);
+
+        if (isLayoutMode) {
+            // Edit the whole selection when the tapped cell is part of it
+            const selected = mainGridRef.current?.getSelectedCells() ?? [];
+            const keys = selected.includes(key) ? selected : [key];
+            setLayoutEditor({ isOpen: true, positions: keys.map(parseCellKey) });
+            return;
+        }
+
+        if (!canHoldInventory(layout.get(key))) return;
         const cell = cells.get(key) || null;
         setEditorState({ isOpen: true, cell, row, col, isBuffer: false });
-    }, [cells]);
+    }, [cells, layout, isLayoutMode]);
 
-    const handleBufferCellSingleTap = useCallback((_row: number, _col: number) => {
-        // Just for consistency, we could support buffer selection later or do nothing now
-    }, []);
+    const handleBufferCellSingleTap = useCallback((row: number, col: number) => {
+        if (isSelectMode) bufferGridRef.current?.toggleSelection(getCellKey(row, col));
+    }, [isSelectMode]);
 
     const handleBufferCellDoubleTap = useCallback((row: number, col: number) => {
         const key = getCellKey(row, col);
@@ -135,49 +727,179 @@ const App: React.FC = () => {
         setActionMenu({ visible: true, x: screenX, y: screenY, row, col, isBuffer });
     }, []);
 
-    // ── Cell save ─────────────────────────────────────────────────────────────
-    const handleCellSave = useCallback(async (cell: CellData) => {
-        const key = getCellKey(cell.row, cell.col);
-        const isBuffer = editorState.isBuffer;
-
-        if (isBuffer) {
-            setBufferCells((prev) => {
-                const next = new Map(prev);
-                if (cellHasContent(cell)) next.set(key, cell);
-                else next.delete(key);
-                return next;
-            });
-            try {
-                if (cellHasContent(cell)) await saveBufferCell(cell);
-                else await deleteBufferCell(cell.row, cell.col);
-            } catch (error) { console.error('Failed to save buffer cell:', error); }
-        } else {
-            setCells((prev) => {
-                const next = new Map(prev);
-                if (cellHasContent(cell)) next.set(key, cell);
-                else next.delete(key);
-                return next;
-            });
-            try {
-                if (cellHasContent(cell)) await saveCell(cell);
-                else await deleteCell(cell.row, cell.col);
-            } catch (error) { console.error('Failed to save cell:', error); }
+    // ── Drag and drop ─────────────────────────────────────────────────────────
+    // A long press picks up the cell (or the selection it belongs to); the
+    // drop keeps each cell's offset from the pressed one. The floating buffer
+    // panel lies above the main grid, so it is hit-tested first.
+
+    const locateDropTarget = useCallback((clientX: number, clientY: number): DropTarget | null => {
+        const buffer = bufferGridRef.current;
+        if (buffer?.containsPoint(clientX, clientY)) {
+            const pos = buffer.getCellAtPoint(clientX, clientY);
+            return pos ? { grid: 'buffer', ...pos } : null;
         }
-    }, [editorState.isBuffer]);
+        const pos = mainGridRef.current?.getCellAtPoint(clientX, clientY);
+        return pos ? { grid: 'main', ...pos } : null;
+    }, []);
 
-    // ── Cell delete ───────────────────────────────────────────────────────────
-    const handleCellDelete = useCallback(async (row: number, col: number) => {
+    const planDrop = useCallback((source: CellDragSource, target: DropTarget) => {
+        return target.grid === 'main'
+            ? planCellMove(source, target, cells, gridConfig, layout)
+            : planCellMove(source, target, bufferCells, bufferConfig);
+    }, [cells, bufferCells, layout, gridConfig, bufferConfig]);
+
+    const stopDragScroll = useCallback(() => {
+        mainGridRef.current?.stopAutoScroll();
+        bufferGridRef.current?.stopAutoScroll();
+    }, []);
+
+    const handleCellDragStart = useCallback((grid: GridKind, row: number, col: number) => {
+        const map = grid === 'buffer' ? bufferCells : cells;
         const key = getCellKey(row, col);
-        const isBuffer = editorState.isBuffer;
+        if (!cellHasContent(map.get(key))) return false;
+
+        const selected = (grid === 'main' ? mainGridRef.current : bufferGridRef.current)?.getSelectedCells() ?? [];
+        const keys = selected.includes(key) ? selected : [key];
+        const dragged: CellData[] = [];
+        keys.forEach(k => {
+            const c = map.get(k);
+            if (c && cellHasContent(c)) dragged.push(c);
+        });
 
-        if (isBuffer) {
-            setBufferCells((prev) => { const n = new Map(prev); n.delete(key); return n; });
-            try { await deleteBufferCell(row, col); } catch (error) { console.error(error); }
+        setActionMenu(null);
+        setCellDrag({ source: { grid, anchor: { row, col }, cells: dragged }, x: 0, y: 0, target: null });
+        return true;
+    }, [cells, bufferCells]);
+
+    const handleCellDragMove = useCallback((clientX: number, clientY: number) => {
+        const update = () => setCellDrag(prev => {
+            if (!prev) return prev;
+            const found = locateDropTarget(clientX, clientY);
+            const same = found && prev.target && found.grid === prev.target.grid
+                && found.row === prev.target.row && found.col === prev.target.col;
+            return { ...prev, x: clientX, y: clientY, target: same ? prev.target : found };
+        });
+        update();
+
+        // Scroll whichever grid is under the pointer while it is near that grid's edge
+        if (bufferGridRef.current?.containsPoint(clientX, clientY)) {
+            mainGridRef.current?.stopAutoScroll();
+            bufferGridRef.current.autoScroll(clientX, clientY, update);
         } else {
-            setCells((prev) => { const n = new Map(prev); n.delete(key); return n; });
-            try { await deleteCell(row, col); } catch (error) { console.error(error); }
+            bufferGridRef.current?.stopAutoScroll();
+            mainGridRef.current?.autoScroll(clientX, clientY, update);
+        }
+    }, [locateDropTarget]);
+
+    const handleCellDragCancel = useCallback(() => {
+        stopDragScroll();
+        setCellDrag(null);
+    }, [stopDragScroll]);
+
+    const applyCellMove = useCallback(async (
+        source: CellDragSource,
+        target: DropTarget,
+        plan: MovePlan,
+        mode: DropConflictMode,
+        keepImage: MergeImageChoice = 'occupant'
+    ) => {
+        const label = plan.collisions === 0 ? 'Move cells' : mode === 'merge' ? 'Merge cells' : 'Swap cells';
+        const writes = buildMoveWrites(source, target.grid, plan, mode, keepImage);
+        await executeCommand(label, writes.map(w => makeChange(w.grid, w.row, w.col, w.after)), { reason: 'transfer' });
+        if (source.grid === 'main') mainGridRef.current?.clearSelection();
+        else bufferGridRef.current?.clearSelection();
+    }, [executeCommand, makeChange]);
+
+    const handleCellDrop = useCallback(async (clientX: number, clientY: number) => {
+        stopDragScroll();
+        setCellDrag(null);
+        if (!cellDrag) return;
+
+        const { source } = cellDrag;
+        const target = locateDropTarget(clientX, clientY);
+        if (!target) return;
+        if (target.grid === source.grid && target.row === source.anchor.row && target.col === source.anchor.col) return;
+
+        // Cells that do not fit are refused as a whole; the ghost has said why
+        const plan = planDrop(source, target);
+        if (plan.blocked > 0) return;
+        if (plan.collisions > 0) {
+            setPendingDrop({ source, target, plan });
+            return;
+        }
+        await applyCellMove(source, target, plan, 'swap');
+    }, [cellDrag, locateDropTarget, planDrop, stopDragScroll, applyCellMove]);
+
+    const handleResolveDrop = useCallback(async (mode: DropConflictMode, keepImage: MergeImageChoice) => {
+        if (!pendingDrop) return;
+        setPendingDrop(null);
+        await applyCellMove(pendingDrop.source, pendingDrop.target, pendingDrop.plan, mode, keepImage);
+    }, [pendingDrop, applyCellMove]);
+
+    const mainCellDrag = useMemo<CellDragHandlers>(() => ({
+        onDragStart: (row, col) => handleCellDragStart('main', row, col),
+        onDragMove: handleCellDragMove,
+        onDrop: handleCellDrop,
+        onDragCancel: handleCellDragCancel,
+    }), [handleCellDragStart, handleCellDragMove, handleCellDrop, handleCellDragCancel]);
+
+    const bufferCellDrag = useMemo<CellDragHandlers>(() => ({
+        onDragStart: (row, col) => handleCellDragStart('buffer', row, col),
+        onDragMove: handleCellDragMove,
+        onDrop: handleCellDrop,
+        onDragCancel: handleCellDragCancel,
+    }), [handleCellDragStart, handleCellDragMove, handleCellDrop, handleCellDragCancel]);
+
+    // Footprint of the drop under the pointer, and why it is refused
+    const dropPlan = useMemo(() => {
+        if (!cellDrag?.target) return null;
+        return planDrop(cellDrag.source, cellDrag.target);
+    }, [cellDrag?.source, cellDrag?.target, planDrop]);
+
+    // Slot typed for the 'target' transfer strategy, on the grid the cells move to
+    const transferTarget = useMemo(() => {
+        if (!pendingTransfer || transferStrategy !== 'target') return null;
+        if (pendingTransfer.source === 'buffer') return findLocation(transferTargetCode, activeMap, layout);
+        const pos = parseBufferLocation(transferTargetCode) ?? parseA1(transferTargetCode);
+        return pos && isInBounds(pos, bufferConfig) ? pos : null;
+    }, [pendingTransfer, transferStrategy, transferTargetCode, activeMap, layout, bufferConfig]);
+
+    const transferPlan = useMemo(() => {
+        if (!pendingTransfer) return null;
+        return pendingTransfer.source === 'main'
+            ? planTransfer(pendingTransfer.cells, transferStrategy, bufferCells, bufferConfig, undefined, transferTarget)
+            : planTransfer(pendingTransfer.cells, transferStrategy, cells, gridConfig, layout, transferTarget);
+    }, [pendingTransfer, transferStrategy, transferTarget, cells, bufferCells, gridConfig, bufferConfig, layout]);
+
+    // Footprint on one of the grids: the drop under the pointer, or a paste or move waiting for a decision
+    const footprint = useMemo(() => {
+        if (cellDrag?.target && dropPlan) return { grid: cellDrag.target.grid, preview: getDropPreview(dropPlan) };
+        if (pendingPaste) return { grid: pendingPaste.target.grid, preview: getDropPreview(pendingPaste.plan) };
+        if (pendingTransfer && transferPlan) {
+            const grid: GridKind = pendingTransfer.source === 'main' ? 'buffer' : 'main';
+            const preview: DropPreview = new Map();
+            transferPlan.placements.forEach(({ target }) => preview.set(getCellKey(target.row, target.col), 'free'));
+            return { grid, preview };
         }
-    }, [editorState.isBuffer]);
+        return null;
+    }, [cellDrag?.target, dropPlan, pendingPaste, pendingTransfer, transferPlan]);
+
+    const dropStatus = dropPlan && dropPlan.blocked > 0
+        ? `${dropPlan.blocked} ${dropPlan.blocked === 1 ? 'cell lands' : 'cells land'} outside the grid or on a wall`
+        : null;
+
+    // ── Cell save ─────────────────────────────────────────────────────────────
+    const handleCellSave = useCallback(async (cell: CellData, movement: LedgerMovement) => {
+        const grid: GridKind = editorState.isBuffer ? 'buffer' : 'main';
+        const after = cellHasContent(cell) ? cell : null;
+        await executeCommand('Edit cell', [makeChange(grid, cell.row, cell.col, after)], movement);
+    }, [editorState.isBuffer, executeCommand, makeChange]);
+
+    // ── Cell delete ───────────────────────────────────────────────────────────
+    const handleCellDelete = useCallback(async (row: number, col: number) => {
+        const grid: GridKind = editorState.isBuffer ? 'buffer' : 'main';
+        await executeCommand('Delete cell', [makeChange(grid, row, col, null)], { reason: 'issue' });
+    }, [editorState.isBuffer, executeCommand, makeChange]);
 
     // ── Summary highlights ────────────────────────────────────────────────────
     const handleSummaryItemClick = useCallback((combinedCode: string) => {
@@ -188,24 +910,37 @@ const App: React.FC = () => {
         setBufferHighlightedCode(combinedCode);
     }, []);
 
+    // Scroll a search match into view and leave it as the only selected cell
+    const handleSelectSearchMatch = useCallback((match: SearchMatch) => {
+        setActionMenu(null);
+        if (match.grid === 'main') {
+            bufferGridRef.current?.clearSelection();
+            mainGridRef.current?.revealCell(match.row, match.col);
+        } else {
+            mainGridRef.current?.clearSelection();
+            bufferGridRef.current?.revealCell(match.row, match.col);
+        }
+    }, []);
+
 
     // ── ACTION MENU CALLBACKS ────────────────────────────────────────────────
 
     // Get cells involved in action (selected cells or the single long-pressed cell)
     const getActionCells = useCallback((isBuffer: boolean): CellData[] => {
-        const selectedKeys = mainGridRef.current?.getSelectedCells() ?? [];
-        if (selectedKeys.length > 0 && !isBuffer) {
+        const selectedKeys = (isBuffer ? bufferGridRef.current : mainGridRef.current)?.getSelectedCells() ?? [];
+        const map = isBuffer ? bufferCells : cells;
+        if (selectedKeys.length > 0) {
             const result: CellData[] = [];
             selectedKeys.forEach(key => {
-                const c = cells.get(key);
+                const c = map.get(key);
                 if (c && cellHasContent(c)) result.push(c);
             });
             if (result.length > 0) return result;
         }
         return [];
-    }, [cells]);
+    }, [cells, bufferCells]);
 
-    const handleActionCopy = useCallback(() => {
+    const handleActionCopy = useCallback(async () => {
         if (!actionMenu) return;
         const { row, col, isBuffer } = actionMenu;
 
@@ -223,8 +958,12 @@ const App: React.FC = () => {
                 clipboardRef.current = [];
             }
         }
+        clipboardIsCutRef.current = false;
         setHasClipboard(clipboardRef.current.length > 0);
-        mainGridRef.current?.clearSelection();
+        if (isBuffer) bufferGridRef.current?.clearSelection();
+        else mainGridRef.current?.clearSelection();
+        clipboardImagesRef.current = [];
+        clipboardImagesRef.current = await loadImageRecords(getImageIds(clipboardRef.current));
     }, [actionMenu, cells, bufferCells, getActionCells]);
 
     const handleActionCut = useCallback(async () => {
@@ -241,28 +980,24 @@ const App: React.FC = () => {
         if (cellsToCut.length === 0) return;
 
         clipboardRef.current = cellsToCut.map(c => ({ ...c }));
+        clipboardIsCutRef.current = true;
         setHasClipboard(true);
+        // Taken before the cut orphans them
+        clipboardImagesRef.current = await loadImageRecords(getImageIds(cellsToCut));
 
         // Remove from source
-        for (const srcCell of cellsToCut) {
-            const srcKey = getCellKey(srcCell.row, srcCell.col);
-            if (isBuffer) {
-                setBufferCells(prev => { const n = new Map(prev); n.delete(srcKey); return n; });
-                try { await deleteBufferCell(srcCell.row, srcCell.col); } catch { /* silent */ }
-            } else {
-                setCells(prev => { const n = new Map(prev); n.delete(srcKey); return n; });
-                try { await deleteCell(srcCell.row, srcCell.col); } catch { /* silent */ }
-            }
-        }
+        const grid: GridKind = isBuffer ? 'buffer' : 'main';
+        await executeCommand('Cut', cellsToCut.map(c => makeChange(grid, c.row, c.col, null)), { reason: 'transfer' });
 
         if (isBuffer) bufferGridRef.current?.clearSelection();
         else mainGridRef.current?.clearSelection();
-    }, [actionMenu, cells, bufferCells, getActionCells]);
+    }, [actionMenu, cells, bufferCells, getActionCells, executeCommand, makeChange]);
 
-    const handleActionMoveToBuffer = useCallback(async () => {
+    // "Move to Buffer" on the main grid, "Move to Main Grid" on the buffer: pick a placement first
+    const handleActionMoveToBuffer = useCallback(() => {
         if (!actionMenu) return;
         const { row, col, isBuffer } = actionMenu;
-        
+
         const multiCells = getActionCells(isBuffer);
         const cellsToMove = multiCells.length > 0 ? multiCells : (() => {
             const map = isBuffer ? bufferCells : cells;
@@ -271,109 +1006,67 @@ const App: React.FC = () => {
         })();
 
         if (cellsToMove.length === 0) return;
+        setTransferTargetCode('');
+        setPendingTransfer({ source: isBuffer ? 'buffer' : 'main', cells: cellsToMove });
+    }, [actionMenu, cells, bufferCells, getActionCells]);
 
-        if (isBuffer) {
-            // Find empty slots in main grid (Move to Buffer from Buffer = Move to Main Grid)
-            const mainConfig = DEFAULT_GRID_CONFIG;
-            const usedSlots = new Set(Array.from(cells.keys()));
-
-            for (const srcCell of cellsToMove) {
-                // Find first empty main slot
-                let placed = false;
-                outer: for (let r = 0; r < mainConfig.rows; r++) {
-                    for (let c = 0; c < mainConfig.cols; c++) {
-                        const mKey = getCellKey(r, c);
-                        if (!usedSlots.has(mKey)) {
-                            const newCell: CellData = { ...srcCell, row: r, col: c };
-                            setCells(prev => { const n = new Map(prev); n.set(mKey, newCell); return n; });
-                            try { await saveCell(newCell); } catch { /* silent */ }
-                            usedSlots.add(mKey);
-                            placed = true;
-                            break outer;
-                        }
-                    }
-                }
-                if (!placed) break; // main grid full
-
-                // Remove from buffer
-                const srcKey = getCellKey(srcCell.row, srcCell.col);
-                setBufferCells(prev => { const n = new Map(prev); n.delete(srcKey); return n; });
-                try { await deleteBufferCell(srcCell.row, srcCell.col); } catch { /* silent */ }
-            }
+    // The whole plan is worked out before anything is written, then applied as one command
+    // (one undo step, one storage transaction). Cells without room stay selected.
+    const handleConfirmTransfer = useCallback(async () => {
+        if (!pendingTransfer || !transferPlan) return;
+        const { source } = pendingTransfer;
+        const target: GridKind = source === 'main' ? 'buffer' : 'main';
+        setPendingTransfer(null);
 
-            bufferGridRef.current?.clearSelection();
-            return;
-        }
+        const changes: CellChange[] = [];
+        transferPlan.placements.forEach(({ cell, target: pos }) => {
+            changes.push(makeChange(source, cell.row, cell.col, null));
+            changes.push(makeChange(target, pos.row, pos.col, { ...cell, row: pos.row, col: pos.col }));
+        });
+        await executeCommand(target === 'buffer' ? 'Move to buffer' : 'Move to main grid', changes, { reason: 'transfer' });
 
-        // Find empty buffer slots (Move to Buffer from Main)
-        const bufferConfig = BUFFER_GRID_CONFIG;
-        const usedSlots = new Set(Array.from(bufferCells.keys()));
-
-        for (const srcCell of cellsToMove) {
-            // Find first empty buffer slot
-            let placed = false;
-            outer: for (let r = 0; r < bufferConfig.rows; r++) {
-                for (let c = 0; c < bufferConfig.cols; c++) {
-                    const bKey = getCellKey(r, c);
-                    if (!usedSlots.has(bKey)) {
-                        const bufCell: CellData = { ...srcCell, row: r, col: c };
-                        setBufferCells(prev => { const n = new Map(prev); n.set(bKey, bufCell); return n; });
-                        try { await saveBufferCell(bufCell); } catch { /* silent */ }
-                        usedSlots.add(bKey);
-                        placed = true;
-                        break outer;
-                    }
-                }
-            }
-            if (!placed) break; // buffer full
+        const sourceGrid = source === 'main' ? mainGridRef.current : bufferGridRef.current;
+        sourceGrid?.clearSelection();
+        transferPlan.unplaced.forEach(c => sourceGrid?.toggleSelection(getCellKey(c.row, c.col)));
+    }, [pendingTransfer, transferPlan, executeCommand, makeChange]);
 
-            // Remove from main grid
-            const srcKey = getCellKey(srcCell.row, srcCell.col);
-            setCells(prev => { const n = new Map(prev); n.delete(srcKey); return n; });
-            try { await deleteCell(srcCell.row, srcCell.col); } catch { /* silent */ }
-        }
+    const applyPaste = useCallback(async (
+        grid: GridKind,
+        plan: MovePlan,
+        mode: PasteConflictMode,
+        keepImage: MergeImageChoice = 'occupant'
+    ) => {
+        const writes = buildPasteWrites(grid, plan, mode, keepImage);
+        const pastedImageIds = new Set(writes.map(w => w.after?.imageId));
+        const images = clipboardImagesRef.current.filter(img => pastedImageIds.has(img.id));
 
-        mainGridRef.current?.clearSelection();
-    }, [actionMenu, cells, bufferCells, getActionCells]);
+        const movement: LedgerMovement = { reason: clipboardIsCutRef.current ? 'transfer' : 'adjust' };
+        clipboardIsCutRef.current = false;
+        await executeCommand('Paste', writes.map(w => makeChange(w.grid, w.row, w.col, w.after)), movement, images);
+    }, [executeCommand, makeChange]);
 
+    // Cells keep their offsets from the first clipboard cell, which lands on the pressed cell.
+    // Pastes that reach off the grid, onto walls or onto stock ask first.
     const handleActionPaste = useCallback(async () => {
         if (!actionMenu || clipboardRef.current.length === 0) return;
         const { row, col, isBuffer } = actionMenu;
 
-        const clipboard = clipboardRef.current;
-
-        if (clipboard.length === 1) {
-            // Single paste at target position
-            const src = clipboard[0];
-            const targetCell: CellData = { ...src, row, col };
-            if (isBuffer) {
-                const key = getCellKey(row, col);
-                setBufferCells(prev => { const n = new Map(prev); n.set(key, targetCell); return n; });
-                try { await saveBufferCell(targetCell); } catch { /* silent */ }
-            } else {
-                const key = getCellKey(row, col);
-                setCells(prev => { const n = new Map(prev); n.set(key, targetCell); return n; });
-                try { await saveCell(targetCell); } catch { /* silent */ }
-            }
-        } else {
-            // Multi-paste: place cells relative to first cell's origin, offset to target
-            const originRow = clipboard[0].row;
-            const originCol = clipboard[0].col;
-            for (const src of clipboard) {
-                const dr = src.row - originRow;
-                const dc = src.col - originCol;
-                const targetCell: CellData = { ...src, row: row + dr, col: col + dc };
-                const key = getCellKey(targetCell.row, targetCell.col);
-                if (isBuffer) {
-                    setBufferCells(prev => { const n = new Map(prev); n.set(key, targetCell); return n; });
-                    try { await saveBufferCell(targetCell); } catch { /* silent */ }
-                } else {
-                    setCells(prev => { const n = new Map(prev); n.set(key, targetCell); return n; });
-                    try { await saveCell(targetCell); } catch { /* silent */ }
-                }
-            }
+        const target: DropTarget = { grid: isBuffer ? 'buffer' : 'main', row, col };
+        const plan = isBuffer
+            ? planPaste(clipboardRef.current, target, bufferCells, bufferConfig)
+            : planPaste(clipboardRef.current, target, cells, gridConfig, layout);
+        if (plan.blocked > 0 || plan.collisions > 0) {
+            setPendingPaste({ target, plan, cellCount: clipboardRef.current.length });
+            return;
         }
-    }, [actionMenu]);
+        await applyPaste(target.grid, plan, 'overwrite');
+    }, [actionMenu, cells, bufferCells, layout, gridConfig, bufferConfig, applyPaste]);
+
+    const handleConfirmPaste = useCallback(async (mode: PasteConflictMode, keepImage: MergeImageChoice) => {
+        if (!pendingPaste) return;
+        setPendingPaste(null);
+        await applyPaste(pendingPaste.target.grid, pendingPaste.plan, mode, keepImage);
+    }, [pendingPaste, applyPaste]);
 
     // ── Editor close ──────────────────────────────────────────────────────────
     const handleEditorClose = useCallback(() => {
@@ -382,49 +1075,196 @@ const App: React.FC = () => {
 
     // ── Clear all ─────────────────────────────────────────────────────────────
     const handleClearAll = useCallback(async () => {
+        await takeSnapshot(activeMapId, 'before-clear')
+            .catch(error => console.error('Failed to take snapshot before Clear All:', error));
+        const changes: CellChange[] = [
+            ...Array.from(cells.values()).map(c => makeChange('main', c.row, c.col, null)),
+            ...Array.from(bufferCells.values()).map(c => makeChange('buffer', c.row, c.col, null)),
+        ];
+        await executeCommand('Clear all', changes);
+    }, [activeMapId, cells, bufferCells, executeCommand, makeChange]);
+
+    // ── Snapshot restore ──────────────────────────────────────────────────────
+    // Restoring is an ordinary command, so it can be undone like any edit
+    const handleRestoreSnapshot = useCallback(async (snapshot: SnapshotInfo) => {
+        const taken = new Date(snapshot.timestamp).toLocaleString();
         try {
-            await Promise.all([clearAllCells(), clearAllBufferCells()]);
-            setCells(new Map());
-            setBufferCells(new Map());
-        } catch (error) { console.error('Failed to clear cells:', error); }
-    }, []);
+            const data = await loadSnapshotData(snapshot.id);
+            if (!data) {
+                alert('This snapshot could not be found');
+                return;
+            }
+
+            const { changes, outOfBounds, blocked } = planSnapshotRestore(
+                { cells, bufferCells },
+                data,
+                { main: gridConfig, buffer: bufferConfig },
+                layout
+            );
+            if (changes.length === 0) {
+                alert('The map already matches this snapshot');
+                return;
+            }
+
+            const skipped = [
+                outOfBounds > 0 ? `\n${outOfBounds} cell${outOfBounds === 1 ? '' : 's'} outside the current grid size will be left out.` : '',
+                blocked > 0 ? `\n${blocked} cell${blocked === 1 ? '' : 's'} on a wall or text label will be left out.` : '',
+            ].join('');
+            if (!confirm(`Restore the snapshot from ${taken}? ${changes.length} cell${changes.length === 1 ? '' : 's'} will change.${skipped}\nYou can undo this.`)) {
+                return;
+            }
+
+            await takeSnapshot(activeMapId, 'before-restore')
+                .catch(error => console.error('Failed to take snapshot before restore:', error));
+            // The snapshot's images are stored with the cells, and removed again on undo
+            const imageIds = getIncomingImageIds(changes);
+            const saved = await executeCommand(
+                'Restore snapshot',
+                changes,
+                { reason: 'adjust', reference: `Snapshot ${taken}` },
+                data.images.filter(img => imageIds.has(img.id))
+            );
+            if (saved) setSnapshotsOpen(false);
+        } catch (error) {
+            console.error('Failed to restore snapshot:', error);
+            alert('Failed to restore snapshot');
+        }
+    }, [activeMapId, cells, bufferCells, layout, gridConfig, bufferConfig, executeCommand]);
+
+    // ── Compare ───────────────────────────────────────────────────────────────
+    // Accepted differences are applied as one undoable command and recorded as a stock count
+    const handleApplyDiff = useCallback(async (changes: CellChange[], images: ImageRecord[], source: string) => {
+        try {
+            // Left open on failure so the accepted and rejected items are not lost
+            const saved = await executeCommand('Apply differences', changes, { reason: 'count', reference: source }, images);
+            if (saved) setDiffOpen(false);
+        } catch (error) {
+            console.error('Failed to apply differences:', error);
+            alert('Failed to apply differences');
+        }
+    }, [executeCommand]);
+
+    // ── Material catalog ──────────────────────────────────────────────────────
+    const handleSaveCatalog = useCallback(async (next: MaterialCatalog, renames: Record<string, string>) => {
+        try {
+            await saveMaterialCatalog(next, renames);
+            setCatalog(next);
+            if (Object.keys(renames).length > 0) {
+                await loadMapCells(activeMapId);
+                // Recorded commands still carry the old codes and would bring them back
+                historyByMapRef.current.clear();
+                updateHistory(() => EMPTY_HISTORY);
+            }
+        } catch (error) {
+            console.error('Failed to save materials:', error);
+            alert('Failed to save materials');
+        }
+    }, [activeMapId, loadMapCells, updateHistory]);
 
     // ── Export ────────────────────────────────────────────────────────────────
     const handleExport = useCallback(async () => {
         try {
-            const data = await exportData();
-            const blob = new Blob([data], { type: 'application/json' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `inventory-${new Date().toISOString().split('T')[0]}.json`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            const data = await exportData(activeMapId);
+            downloadFile(data, getExportFileName(activeMap, 'json'), 'application/json');
         } catch (error) {
             console.error('Failed to export:', error);
             alert('Failed to export data');
         }
-    }, []);
+    }, [activeMapId, activeMap]);
+
+    const handleExportCsv = useCallback(() => {
+        const csv = buildInventoryCsv(cells, bufferCells, getGridLocationCode);
+        downloadFile(csv, getExportFileName(activeMap, 'csv'), 'text/csv;charset=utf-8');
+    }, [cells, bufferCells, getGridLocationCode, activeMap]);
+
+    const handleExportXlsx = useCallback(() => {
+        try {
+            const workbook = buildInventoryWorkbook({
+                cells,
+                bufferCells,
+                layout,
+                gridConfig,
+                bufferConfig,
+                catalog,
+                getLocation: getGridLocationCode,
+            });
+            downloadFile(workbook, getExportFileName(activeMap, 'xlsx'), XLSX_MIME_TYPE);
+        } catch (error) {
+            console.error('Failed to export workbook:', error);
+            alert('Failed to export workbook');
+        }
+    }, [cells, bufferCells, layout, gridConfig, bufferConfig, catalog, getGridLocationCode, activeMap]);
 
     // ── Import ────────────────────────────────────────────────────────────────
-    const handleImport = useCallback(async (jsonData: string) => {
+    // Reading the file only validates it and opens the preview; nothing is written until the user confirms
+    const handleImport = useCallback(async (jsonData: string, fileName: string) => {
+        const validation = validateExportFile(jsonData, { gridConfig, bufferConfig, catalog });
+        if (!validation.ok) {
+            alert(`Cannot import ${fileName}: ${validation.error}`);
+            return;
+        }
         try {
-            await importData(jsonData);
-            const [loadedCells, loadedBufferCells] = await Promise.all([
-                loadAllCells(),
-                loadAllBufferCells(),
-            ]);
-            setCells(loadedCells);
-            setBufferCells(loadedBufferCells);
-            alert('Data imported successfully');
+            const file = await resolveImportImages(validation.file);
+            setPendingImport({ fileName, file, rejected: validation.rejected });
         } catch (error) {
             console.error('Failed to import:', error);
-            alert('Failed to import data. Make sure the file is valid JSON.');
+            alert('Failed to import data');
+        }
+    }, [gridConfig, bufferConfig, catalog]);
+
+    // A CSV file first needs its columns mapped; the records then get the same preview as a JSON file
+    const handleImportCsv = useCallback((text: string, fileName: string) => {
+        const rows = parseCsv(text);
+        if (rows.length < 2) {
+            alert(`Cannot import ${fileName}: the file has no rows below the header`);
+            return;
         }
+        setPendingCsv({ fileName, rows });
     }, []);
 
+    const handleCsvMapped = useCallback(async (mapping: CsvMapping) => {
+        if (!pendingCsv) return;
+        const { fileName, rows } = pendingCsv;
+        setPendingCsv(null);
+
+        const conversion = convertCsvRows(rows, mapping, createLocationResolver(activeMap, layout));
+        const validation = validateExportData(conversion.data, { gridConfig, bufferConfig, catalog });
+        if (!validation.ok) {
+            alert(`Cannot import ${fileName}: ${validation.error}`);
+            return;
+        }
+        try {
+            const file = await resolveImportImages(validation.file);
+            setPendingImport({ fileName, file, rejected: [...conversion.rejected, ...validation.rejected] });
+        } catch (error) {
+            console.error('Failed to import:', error);
+            alert('Failed to import data');
+        }
+    }, [pendingCsv, activeMap, layout, gridConfig, bufferConfig, catalog]);
+
+    const handleConfirmImport = useCallback(async (plan: ImportPlan) => {
+        if (!pendingImport) return;
+        const { fileName, file } = pendingImport;
+        setPendingImport(null);
+
+        try {
+            await takeSnapshot(activeMapId, 'before-import')
+                .catch(error => console.error('Failed to take snapshot before import:', error));
+            const imageIds = getIncomingImageIds(plan.changes);
+            // Layout and catalog changes go in the same step, so one undo takes back the whole import
+            await executeCommand(
+                `Import (${IMPORT_MODE_LABELS[plan.mode]})`,
+                plan.changes,
+                { reason: 'adjust', reference: fileName },
+                file.images.filter(img => imageIds.has(img.id)),
+                { layout: plan.layoutChanges, catalog: getCatalogChanges(catalog, mergeCatalogs(catalog, file.catalog)) }
+            );
+        } catch (error) {
+            console.error('Failed to import:', error);
+            alert('Failed to import data');
+        }
+    }, [activeMapId, pendingImport, catalog, executeCommand]);
+
     if (isLoading) {
         return (
             <div className="loading-screen">
@@ -435,8 +1275,8 @@ const App: React.FC = () => {
     }
 
     // Count selected cells for action menu label
-    const selectedCount = actionMenu && !actionMenu.isBuffer
-        ? (mainGridRef.current?.getSelectedCells().length ?? 1)
+    const selectedCount = actionMenu
+        ? ((actionMenu.isBuffer ? bufferGridRef.current : mainGridRef.current)?.getSelectedCells().length ?? 1)
         : 1;
 
     // Check if action menu source cell has content
@@ -450,40 +1290,111 @@ const App: React.FC = () => {
     return (
         <div className="app-container">
             <Toolbar
+                maps={maps}
+                activeMapId={activeMapId}
+                onSwitchMap={handleSwitchMap}
+                onCreateMap={handleCreateMap}
+                onRenameMap={handleRenameMap}
+                onDuplicateMap={handleDuplicateMap}
+                onDeleteMap={handleDeleteMap}
+                onOpenGridSettings={() => setSettingsOpen(true)}
+                onOpenMaterials={() => setMaterialsOpen(true)}
+                onOpenLedger={() => setLedgerOpen(true)}
+                onOpenSnapshots={() => setSnapshotsOpen(true)}
+                onOpenCompare={() => setDiffOpen(true)}
                 onClearAll={handleClearAll}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                canUndo={history.past.length > 0}
+                canRedo={history.future.length > 0}
                 onExport={handleExport}
                 onImport={handleImport}
+                onExportCsv={handleExportCsv}
+                onExportXlsx={handleExportXlsx}
+                onOpenPrint={() => setPrintOpen(true)}
+                onImportCsv={handleImportCsv}
                 isSelectMode={isSelectMode}
                 onToggleSelectMode={() => setIsSelectMode(!isSelectMode)}
+                isLayoutMode={isLayoutMode}
+                onToggleLayoutMode={() => setIsLayoutMode(!isLayoutMode)}
+                onOpenSearch={() => setSearchOpen(true)}
+                onOpenFilter={() => setFilterOpen(true)}
+                isFilterActive={filters.length > 0}
+            />
+
+            <SearchBar
+                isOpen={searchOpen}
+                catalog={catalog}
+                cells={cells}
+                bufferCells={bufferCells}
+                map={activeMap}
+                layout={layout}
+                bufferConfig={bufferConfig}
+                getLocationCode={getMainLocationCode}
+                onSelectMatch={handleSelectSearchMatch}
+                onClose={() => setSearchOpen(false)}
+            />
+
+            <FilterBar
+                filters={filters}
+                matchCount={filteredCells.size + filteredBufferCount}
+                onRemove={(filter) => setFilters(prev => prev.filter(f => getFilterKey(f) !== getFilterKey(filter)))}
+                onEdit={() => setFilterOpen(true)}
+                onClear={() => setFilters([])}
+            />
+
+            <SelectionBar
+                selectedKeys={mainSelection}
+                cells={cells}
+                onClear={() => mainGridRef.current?.clearSelection()}
             />
 
             <div className="main-content">
                 <CanvasGrid
                     ref={mainGridRef}
-                    config={DEFAULT_GRID_CONFIG}
+                    config={gridConfig}
                     cells={cells}
+                    layout={layout}
+                    catalog={catalog}
+                    isLayoutMode={isLayoutMode}
+                    isSelectMode={isSelectMode}
+                    viewKey={activeMapId}
                     onCellSingleTap={handleCellSingleTap}
                     onCellDoubleTap={handleCellDoubleTap}
                     highlightedCode={highlightedCode}
+                    cellFilter={cellFilter}
                     onLongPress={(row, col, x, y) => handleLongPress(row, col, x, y, false)}
+                    cellDrag={isLayoutMode ? undefined : mainCellDrag}
+                    dropPreview={footprint?.grid === 'main' ? footprint.preview : null}
+                    onSelectionChange={setMainSelection}
                 />
 
                 <SummaryPanel
-                    cells={cells}
+                    cells={filteredCells}
+                    catalog={catalog}
                     isExpanded={summaryExpanded}
                     onToggle={() => setSummaryExpanded(!summaryExpanded)}
                     onItemClick={handleSummaryItemClick}
+                    getLocationCode={getMainLocationCode}
+                    isFiltered={filters.length > 0}
+                    includeStockHold={filters.some(f => f.kind === 'stockHold')}
                 />
             </div>
 
             <BufferGridPanel
                 ref={bufferGridRef}
+                config={bufferConfig}
                 bufferCells={bufferCells}
+                catalog={catalog}
                 highlightedCode={bufferHighlightedCode}
+                cellFilter={cellFilter}
+                isSelectMode={isSelectMode}
                 onCellSingleTap={handleBufferCellSingleTap}
                 onCellDoubleTap={handleBufferCellDoubleTap}
                 onSummaryItemClick={handleBufferSummaryItemClick}
                 onLongPress={(row, col, x, y, isBuffer) => handleLongPress(row, col, x, y, isBuffer)}
+                cellDrag={bufferCellDrag}
+                dropPreview={footprint?.grid === 'buffer' ? footprint.preview : null}
             />
 
             <CellEditor
@@ -491,11 +1402,152 @@ const App: React.FC = () => {
                 row={editorState.row}
                 col={editorState.col}
                 cell={editorState.cell}
+                locationCode={editorState.isBuffer
+                    ? getBufferLocationCode(editorState.row, editorState.col)
+                    : getMainLocationCode(editorState.row, editorState.col)}
+                catalog={catalog}
                 onSave={handleCellSave}
                 onDelete={handleCellDelete}
                 onClose={handleEditorClose}
             />
 
+            {activeMap && (
+                <GridSettingsDialog
+                    isOpen={settingsOpen}
+                    map={activeMap}
+                    cells={cells}
+                    bufferCells={bufferCells}
+                    onApply={handleApplyGridSettings}
+                    onClose={() => setSettingsOpen(false)}
+                />
+            )}
+
+            <FilterDialog
+                isOpen={filterOpen}
+                filters={filters}
+                cells={cells}
+                bufferCells={bufferCells}
+                catalog={catalog}
+                onApply={setFilters}
+                onClose={() => setFilterOpen(false)}
+            />
+
+            <MaterialCatalogDialog
+                isOpen={materialsOpen}
+                catalog={catalog}
+                onSave={handleSaveCatalog}
+                onClose={() => setMaterialsOpen(false)}
+            />
+
+            <LedgerDialog
+                isOpen={ledgerOpen}
+                mapId={activeMapId}
+                mapName={activeMap?.name ?? ''}
+                catalog={catalog}
+                onClose={() => setLedgerOpen(false)}
+            />
+
+            <SnapshotDialog
+                isOpen={snapshotsOpen}
+                mapId={activeMapId}
+                mapName={activeMap?.name ?? ''}
+                onRestore={handleRestoreSnapshot}
+                onClose={() => setSnapshotsOpen(false)}
+            />
+
+            <DiffDialog
+                isOpen={diffOpen}
+                mapId={activeMapId}
+                cells={cells}
+                bufferCells={bufferCells}
+                layout={layout}
+                gridConfig={gridConfig}
+                bufferConfig={bufferConfig}
+                catalog={catalog}
+                getLocation={getGridLocationCode}
+                onApply={handleApplyDiff}
+                onClose={() => setDiffOpen(false)}
+            />
+
+            <PrintDialog
+                isOpen={printOpen}
+                mapName={activeMap?.name ?? ''}
+                cells={cells}
+                bufferCells={bufferCells}
+                layout={layout}
+                gridConfig={gridConfig}
+                bufferConfig={bufferConfig}
+                catalog={catalog}
+                getLocation={getGridLocationCode}
+                onClose={() => setPrintOpen(false)}
+            />
+
+            <CsvImportDialog
+                isOpen={pendingCsv !== null}
+                fileName={pendingCsv?.fileName ?? ''}
+                rows={pendingCsv?.rows ?? []}
+                onContinue={handleCsvMapped}
+                onClose={() => setPendingCsv(null)}
+            />
+
+            <ImportDialog
+                isOpen={pendingImport !== null}
+                fileName={pendingImport?.fileName ?? ''}
+                file={pendingImport?.file ?? null}
+                rejected={pendingImport?.rejected ?? []}
+                cells={cells}
+                bufferCells={bufferCells}
+                layout={layout}
+                gridConfig={gridConfig}
+                bufferConfig={bufferConfig}
+                catalog={catalog}
+                getLocation={getGridLocationCode}
+                onImport={handleConfirmImport}
+                onClose={() => setPendingImport(null)}
+            />
+
+            <DropConflictDialog
+                isOpen={pendingDrop !== null}
+                cellCount={pendingDrop?.plan.placements.length ?? 0}
+                collisions={pendingDrop?.plan.collisions ?? 0}
+                canMerge={pendingDrop?.plan.canMerge ?? false}
+                imageConflicts={pendingDrop?.plan.imageConflicts ?? 0}
+                onResolve={handleResolveDrop}
+                onClose={() => setPendingDrop(null)}
+            />
+
+            <TransferDialog
+                isOpen={pendingTransfer !== null}
+                targetGrid={pendingTransfer?.source === 'buffer' ? 'main' : 'buffer'}
+                cellCount={pendingTransfer?.cells.length ?? 0}
+                strategy={transferStrategy}
+                targetCode={transferTargetCode}
+                targetFound={transferTarget !== null}
+                plan={transferPlan}
+                onStrategyChange={setTransferStrategy}
+                onTargetCodeChange={setTransferTargetCode}
+                onMove={handleConfirmTransfer}
+                onClose={() => setPendingTransfer(null)}
+            />
+
+            <PasteDialog
+                isOpen={pendingPaste !== null}
+                cellCount={pendingPaste?.cellCount ?? 0}
+                plan={pendingPaste?.plan ?? null}
+                onPaste={handleConfirmPaste}
+                onClose={() => setPendingPaste(null)}
+            />
+
+            <LayoutCellEditor
+                isOpen={layoutEditor.isOpen}
+                positions={layoutEditor.positions}
+                mapCell={layoutEditor.positions.length > 0
+                    ? layout.get(getCellKey(layoutEditor.positions[0].row, layoutEditor.positions[0].col)) ?? null
+                    : null}
+                onSave={handleLayoutSave}
+                onClose={() => setLayoutEditor({ isOpen: false, positions: [] })}
+            />
+
             {actionMenu?.visible && (
                 <CellActionMenu
                     x={actionMenu.x}
@@ -511,6 +1563,16 @@ const App: React.FC = () => {
                     isBuffer={actionMenu.isBuffer}
                 />
             )}
+
+            {cellDrag && (
+                <DragGhost
+                    source={cellDrag.source}
+                    x={cellDrag.x}
+                    y={cellDrag.y}
+                    catalog={catalog}
+                    status={dropStatus}
+                />
+            )}
         </div>
     );
 };
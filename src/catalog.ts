@@ -0,0 +1,205 @@
+import { CellData, MaterialSummary, cellHasContent, getCombinedCode } from './types';
+
+// A material family (code1) with its allowed sizes (code2)
+export interface MaterialFamily {
+    code1: string;
+    description: string;
+    unit: string;              // Unit of the quantity, e.g. "bags"
+    primary: string;           // Text and accent colour
+    background: string;        // Cell fill colour
+    code2Options: string[];    // Allowed sizes, in dropdown order
+    order: number;             // Position in dropdowns and summaries
+    retired?: boolean;         // Still shown on existing cells but not offered for new ones
+}
+
+// All families, sorted by `order`
+export type MaterialCatalog = MaterialFamily[];
+
+export interface MaterialColor {
+    primary: string;
+    background: string;
+}
+
+// Colour of codes that are not in the catalog
+const UNKNOWN_MATERIAL_COLOR: MaterialColor = { primary: '#888888', background: '#2E2E2E' };
+
+const DEFAULT_UNIT = 'pcs';
+const DEFAULT_CODE2_OPTIONS = ['1', '2.5', '5', '10', '18', '20', '25', '50'];
+
+// Families the catalog starts with
+const DEFAULT_FAMILIES: [string, string, string][] = [
+    ['S', '#00FF66', '#0B3A2E'],
+    ['F', '#FF3B3B', '#3A0B0B'],
+    ['SI', '#FFD600', '#3A330B'],
+    ['V', '#FF66CC', '#3A0B2A'],
+    ['SH', '#0B7A3B', '#062F1A'],
+    ['SP', '#FFC700', '#3A2F00'],
+    ['SJ', '#FF8C00', '#3A1F00'],
+    ['SW', '#2EE6C5', '#0B3A33'],
+    ['SK', '#2EE6C5', '#0B3A33'],
+    ['B', '#4DA6FF', '#0B1F3A'],
+    ['TR', '#CFCFCF', '#2E2E2E'],
+    ['P', '#CFCFCF', '#2E2E2E'],
+];
+
+export const DEFAULT_MATERIAL_CATALOG: MaterialCatalog = DEFAULT_FAMILIES.map(([code1, primary, background], order) => ({
+    code1,
+    description: '',
+    unit: DEFAULT_UNIT,
+    primary,
+    background,
+    code2Options: [...DEFAULT_CODE2_OPTIONS],
+    order,
+}));
+
+// A new family with default sizes, placed after the existing ones
+export function createMaterialFamily(code1: string, catalog: MaterialCatalog): MaterialFamily {
+    return {
+        code1,
+        description: '',
+        unit: DEFAULT_UNIT,
+        primary: '#9E9E9E',
+        background: '#2E2E2E',
+        code2Options: [...DEFAULT_CODE2_OPTIONS],
+        order: catalog.reduce((max, f) => Math.max(max, f.order + 1), 0),
+    };
+}
+
+export function sortCatalog(catalog: MaterialCatalog): MaterialCatalog {
+    return [...catalog].sort((a, b) => a.order - b.order || a.code1.localeCompare(b.code1));
+}
+
+export function findMaterialFamily(catalog: MaterialCatalog, code1: string): MaterialFamily | undefined {
+    return catalog.find(f => f.code1 === code1);
+}
+
+// Get material color from Code1
+export function getMaterialColor(code1: string, catalog: MaterialCatalog): MaterialColor {
+    return findMaterialFamily(catalog, code1) ?? UNKNOWN_MATERIAL_COLOR;
+}
+
+// Unit of a family's quantity ('' for unknown codes)
+export function getMaterialUnit(code1: string, catalog: MaterialCatalog): string {
+    return findMaterialFamily(catalog, code1)?.unit ?? '';
+}
+
+// Position of a family for sorting; unknown codes go last
+export function getMaterialOrder(code1: string, catalog: MaterialCatalog): number {
+    const index = catalog.findIndex(f => f.code1 === code1);
+    return index === -1 ? catalog.length : index;
+}
+
+// Summary order: catalog position of the family, then the combined code
+export function compareSummaries(catalog: MaterialCatalog, a: MaterialSummary, b: MaterialSummary): number {
+    return getMaterialOrder(a.code1, catalog) - getMaterialOrder(b.code1, catalog)
+        || a.combinedCode.localeCompare(b.combinedCode);
+}
+
+// Cells counted in the material summary: boundary markers and empty cells never are,
+// stock-hold cells only when asked for
+export function isSummarizedCell(cell: CellData, includeStockHold = false): boolean {
+    return !cell.isBoundary && (!cell.isStockHold || includeStockHold) && cellHasContent(cell) && !!cell.code1;
+}
+
+// Total quantity and cell count per combined code, in summary order
+export function summarizeMaterials(
+    cells: Iterable<CellData>,
+    catalog: MaterialCatalog,
+    includeStockHold = false
+): MaterialSummary[] {
+    const materialMap = new Map<string, MaterialSummary>();
+
+    for (const cell of cells) {
+        if (!isSummarizedCell(cell, includeStockHold)) continue;
+
+        const combinedCode = getCombinedCode(cell);
+        const existing = materialMap.get(combinedCode);
+
+        if (existing) {
+            existing.totalQuantity += cell.quantity;
+            existing.cellCount += 1;
+        } else {
+            materialMap.set(combinedCode, {
+                code1: cell.code1,
+                code2: cell.code2,
+                code3: cell.code3,
+                combinedCode,
+                totalQuantity: cell.quantity,
+                cellCount: 1,
+            });
+        }
+    }
+
+    return Array.from(materialMap.values()).sort((a, b) => compareSummaries(catalog, a, b));
+}
+
+// Families offered for new entries. The current value stays listed even when retired.
+export function getSelectableFamilies(catalog: MaterialCatalog, current = ''): MaterialFamily[] {
+    return catalog.filter(f => !f.retired || f.code1 === current);
+}
+
+// Sizes offered for a family (the current value stays listed even when not allowed any more)
+export function getCode2Options(catalog: MaterialCatalog, code1: string, current = ''): string[] {
+    const options = findMaterialFamily(catalog, code1)?.code2Options ?? [];
+    return current && !options.includes(current) ? [...options, current] : options;
+}
+
+// Codes are stored upper case without spaces, like parsed legacy codes
+export function normalizeCode1(text: string): string {
+    return text.replace(/\s+/g, '').toUpperCase();
+}
+
+// Why a code cannot be used for a family, or null when it can
+export function validateCode1(code1: string, catalog: MaterialCatalog, ignore?: string): string | null {
+    if (!code1) return 'Enter a code.';
+    if (!/^[A-Z]+$/.test(code1)) return 'Codes may only contain letters.';
+    if (code1 !== ignore && findMaterialFamily(catalog, code1)) return `${code1} already exists.`;
+    return null;
+}
+
+// Split "1, 2.5, 5" into distinct sizes, keeping their order
+export function parseCode2Options(text: string): string[] {
+    const sizes = text.split(/[,\s]+/).map(s => s.trim()).filter(Boolean);
+    return Array.from(new Set(sizes));
+}
+
+// Coerce an imported entry into a family; null when it has no usable code
+export function toMaterialFamily(value: unknown, order: number): MaterialFamily | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+    const raw = value as Record<string, unknown>;
+    const code1 = typeof raw.code1 === 'string' ? normalizeCode1(raw.code1) : '';
+    if (!/^[A-Z]+$/.test(code1)) return null;
+    const color = (value: unknown, fallback: string) =>
+        typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+
+    return {
+        code1,
+        description: typeof raw.description === 'string' ? raw.description : '',
+        unit: typeof raw.unit === 'string' ? raw.unit : DEFAULT_UNIT,
+        primary: color(raw.primary, UNKNOWN_MATERIAL_COLOR.primary),
+        background: color(raw.background, UNKNOWN_MATERIAL_COLOR.background),
+        code2Options: Array.isArray(raw.code2Options) ? raw.code2Options.map(String) : [],
+        order: typeof raw.order === 'number' ? raw.order : order,
+        retired: raw.retired === true || undefined,
+    };
+}
+
+// Merge an imported catalog into the local one. Local families keep their settings
+// and gain any sizes they lack; unknown families are appended in their imported order.
+export function mergeCatalogs(local: MaterialCatalog, imported: MaterialCatalog): MaterialCatalog {
+    const merged = local.map(f => ({ ...f, code2Options: [...f.code2Options] }));
+    let nextOrder = merged.reduce((max, f) => Math.max(max, f.order + 1), 0);
+
+    for (const family of sortCatalog(imported)) {
+        const existing = merged.find(f => f.code1 === family.code1);
+        if (existing) {
+            family.code2Options.forEach(size => {
+                if (!existing.code2Options.includes(size)) existing.code2Options.push(size);
+            });
+        } else {
+            merged.push({ ...family, order: nextOrder++ });
+        }
+    }
+
+    return sortCatalog(merged);
+}
@@ -0,0 +1,251 @@
+import {
+    CellData,
+    GridConfig,
+    GridKind,
+    GridPosition,
+    MapCell,
+    canHoldInventory,
+    cellHasContent,
+    getCellKey,
+    getCombinedCode,
+} from './types';
+import { isInBounds } from './placement';
+
+// ========== DRAG STATE ==========
+
+// Cells picked up by a long press; `anchor` is the cell under the pointer
+export interface CellDragSource {
+    grid: GridKind;
+    anchor: GridPosition;
+    cells: CellData[];
+}
+
+// The slot the anchor cell would be dropped on
+export interface DropTarget {
+    grid: GridKind;
+    row: number;
+    col: number;
+}
+
+// How a slot of a drop or paste footprint is drawn
+export type DropSlotState = 'free' | 'occupied' | 'blocked';
+
+// Footprint of a drop or paste on the target grid, by cell key
+export type DropPreview = Map<string, DropSlotState>;
+
+// A long-press drag as the grids report it, in screen coordinates
+export interface CellDragHandlers {
+    onDragStart: (row: number, col: number) => boolean;  // False when there is nothing to pick up
+    onDragMove: (clientX: number, clientY: number) => void;
+    onDrop: (clientX: number, clientY: number) => void;
+    onDragCancel: () => void;
+}
+
+// ========== PLANNING ==========
+
+// What happens to a dropped cell that lands on another cell's stock
+export type DropConflictMode = 'swap' | 'merge';
+
+export const DROP_CONFLICT_MODE_LABELS: Record<DropConflictMode, string> = {
+    swap: 'Swap',
+    merge: 'Merge quantities',
+};
+
+export const DROP_CONFLICT_MODE_HINTS: Record<DropConflictMode, string> = {
+    swap: 'The stock already there moves to the slots the dragged cells leave.',
+    merge: 'The dragged quantities are added to the stock already there.',
+};
+
+// Which photo a merged cell keeps when both cells have one
+export type MergeImageChoice = 'occupant' | 'moved';
+
+export const MERGE_IMAGE_CHOICE_LABELS: Record<MergeImageChoice, string> = {
+    occupant: 'Stock already there',
+    moved: 'Dragged cell',
+};
+
+export interface MovePlacement {
+    cell: CellData;
+    target: GridPosition;
+    occupant: CellData | null;  // Stock already in the target slot (not itself being moved)
+    blocked: boolean;           // The slot is a wall or label
+}
+
+export interface MovePlan {
+    placements: MovePlacement[];  // Every in-bounds target, in source order
+    blocked: number;              // Cells that would land outside the grid or on a wall or label
+    collisions: number;           // Placements onto an occupied slot
+    canMerge: boolean;            // Every occupant holds the same material as the cell dropped on it
+    imageConflicts: number;       // Collisions where both cells have a different photo
+}
+
+// Place cells at their offset from the anchor. Slots in `movingKeys` are being
+// vacated, so stock in them is no obstacle.
+function planPlacement(
+    cells: CellData[],
+    anchor: GridPosition,
+    target: DropTarget,
+    targetCells: Map<string, CellData>,
+    targetConfig: GridConfig,
+    layout: Map<string, MapCell> | undefined,
+    movingKeys: Set<string>
+): MovePlan {
+    const placements: MovePlacement[] = [];
+    let blocked = 0;
+    let collisions = 0;
+    let canMerge = true;
+    let imageConflicts = 0;
+
+    for (const cell of cells) {
+        const pos = {
+            row: target.row + cell.row - anchor.row,
+            col: target.col + cell.col - anchor.col,
+        };
+        if (!isInBounds(pos, targetConfig)) {
+            blocked++;
+            continue;
+        }
+        const key = getCellKey(pos.row, pos.col);
+        const isBlocked = !!layout && !canHoldInventory(layout.get(key));
+        const existing = targetCells.get(key);
+        const occupant = !isBlocked && existing && cellHasContent(existing) && !movingKeys.has(key) ? existing : null;
+        if (isBlocked) blocked++;
+        if (occupant) {
+            collisions++;
+            if (getCombinedCode(occupant) !== getCombinedCode(cell)) canMerge = false;
+            if (occupant.imageId && cell.imageId && occupant.imageId !== cell.imageId) imageConflicts++;
+        }
+        placements.push({ cell, target: pos, occupant, blocked: isBlocked });
+    }
+
+    return { placements, blocked, collisions, canMerge, imageConflicts };
+}
+
+// Where a dropped selection lands: each cell keeps its offset from the anchor
+export function planCellMove(
+    source: CellDragSource,
+    target: DropTarget,
+    targetCells: Map<string, CellData>,
+    targetConfig: GridConfig,
+    layout?: Map<string, MapCell>  // Main grid only: walls and labels take no inventory
+): MovePlan {
+    const movingKeys = source.grid === target.grid
+        ? new Set(source.cells.map(c => getCellKey(c.row, c.col)))
+        : new Set<string>();
+    return planPlacement(source.cells, source.anchor, target, targetCells, targetConfig, layout, movingKeys);
+}
+
+// Where pasted cells land: each keeps its offset from the first clipboard cell
+export function planPaste(
+    clipboard: CellData[],
+    target: DropTarget,
+    targetCells: Map<string, CellData>,
+    targetConfig: GridConfig,
+    layout?: Map<string, MapCell>
+): MovePlan {
+    return planPlacement(clipboard, clipboard[0], target, targetCells, targetConfig, layout, new Set());
+}
+
+export function getDropPreview(plan: MovePlan): DropPreview {
+    const preview: DropPreview = new Map();
+    plan.placements.forEach(({ target, occupant, blocked }) => {
+        preview.set(getCellKey(target.row, target.col), blocked ? 'blocked' : occupant ? 'occupied' : 'free');
+    });
+    return preview;
+}
+
+// A cell added onto stock of the same material. The occupant keeps its details;
+// its calculation no longer adds up, so it is dropped. A cell holds one photo:
+// when both have one, `keepImage` says which.
+function mergeCells(occupant: CellData, cell: CellData, keepImage: MergeImageChoice = 'occupant'): CellData {
+    const { calcHistory: _calcHistory, ...rest } = occupant;
+    return {
+        ...rest,
+        quantity: occupant.quantity + cell.quantity,
+        note: occupant.note || cell.note,
+        imageId: keepImage === 'moved' ? cell.imageId ?? occupant.imageId : occupant.imageId ?? cell.imageId,
+    };
+}
+
+// New content of one slot
+export interface MoveWrite {
+    grid: GridKind;
+    row: number;
+    col: number;
+    after: CellData | null;
+}
+
+// Slot writes for a planned move. Later writes to a slot win, so sources are
+// cleared first. Swapped occupants go back along the moved cells to a slot
+// the selection left empty.
+export function buildMoveWrites(
+    source: CellDragSource,
+    targetGrid: GridKind,
+    plan: MovePlan,
+    mode: DropConflictMode,
+    keepImage: MergeImageChoice = 'occupant'
+): MoveWrite[] {
+    const writes: MoveWrite[] = source.cells.map(c => ({ grid: source.grid, row: c.row, col: c.col, after: null }));
+
+    const byTarget = new Map<string, MovePlacement>();
+    plan.placements.forEach(p => byTarget.set(getCellKey(p.target.row, p.target.col), p));
+
+    for (const { cell, target, occupant } of plan.placements) {
+        const after = occupant && mode === 'merge'
+            ? mergeCells(occupant, cell, keepImage)
+            : { ...cell, row: target.row, col: target.col };
+        writes.push({ grid: targetGrid, row: target.row, col: target.col, after });
+
+        if (occupant && mode === 'swap') {
+            let slot: GridPosition = cell;
+            let next = source.grid === targetGrid ? byTarget.get(getCellKey(slot.row, slot.col)) : undefined;
+            while (next) {
+                slot = next.cell;
+                next = byTarget.get(getCellKey(slot.row, slot.col));
+            }
+            writes.push({ grid: source.grid, row: slot.row, col: slot.col, after: { ...occupant, row: slot.row, col: slot.col } });
+        }
+    }
+
+    return writes;
+}
+
+// ========== PASTE ==========
+
+// What a paste does with a cell that lands on existing stock
+export type PasteConflictMode = 'overwrite' | 'skip' | 'merge';
+
+export const PASTE_CONFLICT_MODE_LABELS: Record<PasteConflictMode, string> = {
+    overwrite: 'Overwrite',
+    skip: 'Skip',
+    merge: 'Merge quantities',
+};
+
+export const PASTE_CONFLICT_MODE_HINTS: Record<PasteConflictMode, string> = {
+    overwrite: 'The pasted cells replace the stock already there.',
+    skip: 'Occupied slots keep their stock; only empty slots are pasted into.',
+    merge: 'The pasted quantities are added to the stock already there.',
+};
+
+export const PASTE_IMAGE_CHOICE_LABELS: Record<MergeImageChoice, string> = {
+    occupant: 'Stock already there',
+    moved: 'Pasted cell',
+};
+
+// Slot writes for a planned paste; walls and labels are left out
+export function buildPasteWrites(
+    grid: GridKind,
+    plan: MovePlan,
+    mode: PasteConflictMode,
+    keepImage: MergeImageChoice = 'occupant'
+): MoveWrite[] {
+    const writes: MoveWrite[] = [];
+    for (const { cell, target, occupant, blocked } of plan.placements) {
+        if (blocked || (occupant && mode === 'skip')) continue;
+        const after = occupant && mode === 'merge'
+            ? mergeCells(occupant, cell, keepImage)
+            : { ...cell, row: target.row, col: target.col };
+        writes.push({ grid, row: target.row, col: target.col, after });
+    }
+    return writes;
+}
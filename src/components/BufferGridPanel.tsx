@@ -1,29 +1,55 @@
 import React, { useRef, useEffect, useCallback, useState, forwardRef, memo } from 'react';
 import {
     CellData,
-    BUFFER_GRID_CONFIG,
+    GridConfig,
     getCellKey,
+    parseCellKey,
     cellHasContent,
-    getMaterialColor,
     getCombinedCode,
+    getGridRange,
+    getRangeKeys,
+    GridPosition,
     MaterialSummary,
 } from '../types';
+import { MaterialCatalog, MaterialColor, compareSummaries, getMaterialColor, getMaterialUnit } from '../catalog';
+import { CellDragHandlers, DropPreview, DropSlotState } from '../cellMove';
 
 interface BufferGridPanelProps {
+    config: GridConfig;
     bufferCells: Map<string, CellData>;
+    catalog: MaterialCatalog;
     highlightedCode: string | null;
+    cellFilter?: (cell: CellData | undefined) => boolean;  // While set, non-matching cells are dimmed
     onCellSingleTap: (row: number, col: number) => void;
     onCellDoubleTap: (row: number, col: number) => void;
     onSummaryItemClick: (combinedCode: string) => void;
     onLongPress?: (row: number, col: number, screenX: number, screenY: number, isBuffer: boolean) => void;
+    isSelectMode?: boolean;  // Dragging selects a rectangle instead of scrolling
+    cellDrag?: CellDragHandlers;  // Long press and then drag moves the pressed cell or selection
+    dropPreview?: DropPreview | null;
 }
 
 export interface BufferGridPanelHandle {
+    getSelectedCells: () => string[];
     clearSelection: () => void;
+    toggleSelection: (key: string) => void;
+    revealCell: (row: number, col: number) => void;  // Expand, select a cell and scroll it into view
+    containsPoint: (clientX: number, clientY: number) => boolean;
+    getCellAtPoint: (clientX: number, clientY: number) => GridPosition | null;
+    autoScroll: (clientX: number, clientY: number, onScroll: () => void) => void;  // Scroll while a drag is near an edge
+    stopAutoScroll: () => void;
 }
 
 const TAP_THRESHOLD = 10;
 const LONG_PRESS_DURATION = 500;
+const EDGE_SCROLL_ZONE = 24; // px
+const EDGE_SCROLL_SPEED = 8; // px per frame
+
+// A tap on the column letters or row numbers
+interface HeaderHit {
+    kind: 'row' | 'col';
+    index: number;
+}
 
 // Panel position persistence
 const PANEL_POSITION_KEY = 'buffer-panel-position';
@@ -43,18 +69,38 @@ function savePanelPosition(pos: { x: number; y: number }) {
     } catch { }
 }
 
+// Row or column of a header element
+function getHeaderFromNode(node: Element): HeaderHit | null {
+    const header = node.closest('[data-header]');
+    if (!header) return null;
+    const index = parseInt(header.getAttribute('data-index') ?? '', 10);
+    if (isNaN(index)) return null;
+    return { kind: header.getAttribute('data-header') === 'row' ? 'row' : 'col', index };
+}
+
+// Grid position of a cell element (or of an element inside one)
+function getCellPosFromNode(node: Element): GridPosition | null {
+    const cellNode = node.closest('.grid-cell');
+    if (!cellNode) return null;
+
+    const row = parseInt(cellNode.getAttribute('data-row') ?? '', 10);
+    const col = parseInt(cellNode.getAttribute('data-col') ?? '', 10);
+
+    if (isNaN(row) || isNaN(col)) return null;
+    return { row, col };
+}
+
 const GridCell = memo(({ 
-    row, col, cell, isHighlighted 
+    row, col, cell, materialColor, isSelected, isDimmed, isHighlighted, dropState 
 }: { 
-    row: number, col: number, cell?: CellData, isHighlighted: boolean 
+    row: number, col: number, cell?: CellData, materialColor: MaterialColor | null, isSelected: boolean, isDimmed: boolean, isHighlighted: boolean, dropState: DropSlotState | null 
 }) => {
     const hasContent = cell && cellHasContent(cell);
-    const materialColor = hasContent ? getMaterialColor(cell.code1) : null;
     const isBoundary = cell?.isBoundary;
     
     return (
         <div 
-            className={`grid-cell ${hasContent ? 'has-content' : ''} ${isHighlighted ? 'highlighted' : ''} ${isBoundary ? 'boundary-cell' : ''} ${cell?.isStockHold ? 'stock-hold-cell' : ''}`}
+            className={`grid-cell ${hasContent ? 'has-content' : ''} ${isSelected ? 'selected' : ''} ${isDimmed ? 'dimmed' : ''} ${isHighlighted ? 'highlighted' : ''} ${isBoundary ? 'boundary-cell' : ''} ${cell?.isStockHold ? 'stock-hold-cell' : ''} ${dropState ? `drop-${dropState}` : ''}`}
             data-row={row} 
             data-col={col}
             style={{ 
@@ -75,7 +121,11 @@ const GridCell = memo(({
         </div>
     );
 }, (prev, next) => {
+    if (prev.isSelected !== next.isSelected) return false;
+    if (prev.isDimmed !== next.isDimmed) return false;
     if (prev.isHighlighted !== next.isHighlighted) return false;
+    if (prev.dropState !== next.dropState) return false;
+    if (prev.materialColor !== next.materialColor) return false;
     const p = prev.cell;
     const n = next.cell;
     if (!!p !== !!n) return false;
@@ -91,23 +141,135 @@ const GridCell = memo(({
 });
 
 export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanelProps>(({
+    config,
     bufferCells,
+    catalog,
     highlightedCode,
+    cellFilter,
     onCellSingleTap,
     onCellDoubleTap,
     onSummaryItemClick,
     onLongPress,
+    isSelectMode = false,
+    cellDrag,
+    dropPreview,
 }, ref) => {
-    const config = BUFFER_GRID_CONFIG;
     const panelRef = useRef<HTMLDivElement>(null);
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const gridRef = useRef<HTMLDivElement>(null);
+    const [isCollapsed, setIsCollapsed] = useState(false);
+
+    // Selection, as in the main grid
+    const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+    const selectedKeysRef = useRef(selectedKeys);
+    selectedKeysRef.current = selectedKeys;
+    const revealKeyRef = useRef<string | null>(null);
+    // Corner that shift+click and drags extend the selection from
+    const anchorRef = useRef<GridPosition | null>(null);
+
+    const toggleSelection = useCallback((key: string) => {
+        setSelectedKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+        anchorRef.current = parseCellKey(key);
+    }, []);
+
+    // Select the rectangle from anchor to end besides the base cells
+    const extendSelection = useCallback((anchor: GridPosition, end: GridPosition, base: Set<string>) => {
+        const next = new Set(base);
+        getRangeKeys(getGridRange(anchor, end)).forEach(key => next.add(key));
+        setSelectedKeys(next);
+    }, []);
+
+    const selectHeader = useCallback((header: HeaderHit, additive: boolean) => {
+        const anchor = header.kind === 'row' ? { row: header.index, col: 0 } : { row: 0, col: header.index };
+        const end = header.kind === 'row'
+            ? { row: header.index, col: config.cols - 1 }
+            : { row: config.rows - 1, col: header.index };
+        extendSelection(anchor, end, additive ? selectedKeysRef.current : new Set());
+        anchorRef.current = anchor;
+    }, [config, extendSelection]);
+
+    // While a drag is near an edge of the grid, scroll towards that edge every frame
+    const edgeScrollRef = useRef<{ frame: number | null; dx: number; dy: number; onScroll: () => void }>({
+        frame: null, dx: 0, dy: 0, onScroll: () => { }
+    });
+
+    const stopEdgeScroll = useCallback(() => {
+        const edge = edgeScrollRef.current;
+        if (edge.frame !== null) cancelAnimationFrame(edge.frame);
+        edge.frame = null;
+    }, []);
+
+    useEffect(() => stopEdgeScroll, [stopEdgeScroll]);
+
+    const updateEdgeScroll = useCallback((clientX: number, clientY: number, onScroll: () => void) => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper) return;
+        const rect = wrapper.getBoundingClientRect();
+        const speed = (distance: number) => distance < EDGE_SCROLL_ZONE
+            ? EDGE_SCROLL_SPEED * (1 - Math.max(0, distance) / EDGE_SCROLL_ZONE)
+            : 0;
+
+        const edge = edgeScrollRef.current;
+        edge.dx = speed(rect.right - clientX) - speed(clientX - rect.left - config.rowHeaderWidth);
+        edge.dy = speed(rect.bottom - clientY) - speed(clientY - rect.top - config.headerHeight);
+        edge.onScroll = onScroll;
+        if (edge.dx === 0 && edge.dy === 0) {
+            stopEdgeScroll();
+            return;
+        }
+        if (edge.frame !== null) return;
+
+        const step = () => {
+            wrapper.scrollLeft += edge.dx;
+            wrapper.scrollTop += edge.dy;
+            edge.onScroll();
+            edge.frame = requestAnimationFrame(step);
+        };
+        edge.frame = requestAnimationFrame(step);
+    }, [config, stopEdgeScroll]);
 
     React.useImperativeHandle(ref, () => ({
+        getSelectedCells: () => Array.from(selectedKeys),
         clearSelection: () => {
-            // Buffer grid currently relies on global single tap selection for actions
-        }
-    }), []);
+            setSelectedKeys(new Set());
+            anchorRef.current = null;
+        },
+        toggleSelection,
+        revealCell: (row: number, col: number) => {
+            const key = getCellKey(row, col);
+            revealKeyRef.current = key;
+            anchorRef.current = { row, col };
+            setIsCollapsed(false);
+            setSelectedKeys(new Set([key]));
+        },
+        containsPoint: (clientX: number, clientY: number) => {
+            const rect = panelRef.current?.getBoundingClientRect();
+            return !!rect && clientX >= rect.left && clientX < rect.right && clientY >= rect.top && clientY < rect.bottom;
+        },
+        getCellAtPoint: (clientX: number, clientY: number) => {
+            const node = document.elementFromPoint(clientX, clientY);
+            if (!node || !gridRef.current?.contains(node)) return null;
+            return getCellPosFromNode(node);
+        },
+        autoScroll: updateEdgeScroll,
+        stopAutoScroll: stopEdgeScroll,
+    }), [selectedKeys, toggleSelection, updateEdgeScroll, stopEdgeScroll]);
+
+    // Scroll a revealed cell into view once the (possibly just expanded) grid has rendered
+    useEffect(() => {
+        const key = revealKeyRef.current;
+        if (!key || isCollapsed) return;
+        revealKeyRef.current = null;
+        const { row, col } = parseCellKey(key);
+        const node = panelRef.current?.querySelector(`.grid-cell[data-row="${row}"][data-col="${col}"]`);
+        node?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }, [selectedKeys, isCollapsed]);
 
-    const [isCollapsed, setIsCollapsed] = useState(false);
     const [panelPosition, setPanelPosition] = useState(loadPanelPosition);
     const [isDraggingPanel, setIsDraggingPanel] = useState(false);
     const dragOffsetRef = useRef({ x: 0, y: 0 });
@@ -118,6 +280,7 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
 
         bufferCells.forEach((cell) => {
             if (!cellHasContent(cell) || !cell.code1) return;
+            if (cellFilter && !cellFilter(cell)) return;
 
             const combinedCode = getCombinedCode(cell);
             const existing = materialMap.get(combinedCode);
@@ -137,10 +300,8 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
             }
         });
 
-        return Array.from(materialMap.values()).sort((a, b) =>
-            a.combinedCode.localeCompare(b.combinedCode)
-        );
-    }, [bufferCells]);
+        return Array.from(materialMap.values()).sort((a, b) => compareSummaries(catalog, a, b));
+    }, [bufferCells, catalog, cellFilter]);
 
     const totalQuantity = React.useMemo(() => {
         return summaries.reduce((sum, s) => sum + s.totalQuantity, 0);
@@ -192,48 +353,133 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
     }, [isDraggingPanel, panelPosition]);
 
     // Pointer event tracking logic for cells
-    const pointerDataRef = useRef<{ id: number; startX: number; startY: number; startTime: number; timer: number | null }>({
-        id: -1, startX: 0, startY: 0, startTime: 0, timer: null
+    const pointerDataRef = useRef<{
+        id: number;
+        startX: number;
+        startY: number;
+        startTime: number;
+        timer: number | null;
+        header: HeaderHit | null;
+    }>({
+        id: -1, startX: 0, startY: 0, startTime: 0, timer: null, header: null
     });
     const lastTapRef = useRef<{ row: number; col: number; time: number }>({ row: -1, col: -1, time: 0 });
+    // Rectangle drag in select mode; `base` is the selection kept alongside the rectangle
+    const dragSelectRef = useRef<{
+        id: number;
+        anchor: GridPosition;
+        base: Set<string>;
+        end: string;
+        active: boolean;
+    } | null>(null);
 
     const getCellPosFromEvent = (e: React.PointerEvent | MouseEvent | TouchEvent): { row: number, col: number } | null => {
-        const target = e.target as HTMLElement;
-        const cellNode = target.closest('.grid-cell') as HTMLElement;
-        if (!cellNode) return null;
-        
-        const row = parseInt(cellNode.getAttribute('data-row') ?? '', 10);
-        const col = parseInt(cellNode.getAttribute('data-col') ?? '', 10);
-        
-        if (isNaN(row) || isNaN(col)) return null;
-        return { row, col };
+        return getCellPosFromNode(e.target as Element);
     };
 
+    // The cell nearest to a pointer position, for selection drags that leave the grid
+    const getClampedCellFromPoint = useCallback((clientX: number, clientY: number): GridPosition | null => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper) return null;
+        const rect = wrapper.getBoundingClientRect();
+        const x = Math.max(rect.left + config.rowHeaderWidth + 1, Math.min(rect.left + wrapper.clientWidth - 2, clientX));
+        const y = Math.max(rect.top + config.headerHeight + 1, Math.min(rect.top + wrapper.clientHeight - 2, clientY));
+        const node = document.elementFromPoint(x, y);
+        return node && gridRef.current?.contains(node) ? getCellPosFromNode(node) : null;
+    }, [config]);
+
+    const updateDragSelection = useCallback((clientX: number, clientY: number) => {
+        const drag = dragSelectRef.current;
+        const end = getClampedCellFromPoint(clientX, clientY);
+        if (!drag || !end) return;
+        const endKey = getCellKey(end.row, end.col);
+        if (endKey === drag.end) return;
+        drag.end = endKey;
+        extendSelection(drag.anchor, end, drag.base);
+    }, [getClampedCellFromPoint, extendSelection]);
+
+    // Cell drag armed by a long press; it starts once the pointer moves away
+    const cellDragRef = useRef<{ id: number; pos: GridPosition; startX: number; startY: number; active: boolean } | null>(null);
+
+    // Touch would scroll the grid instead of moving the dragged cell or selection
+    useEffect(() => {
+        const grid = gridRef.current;
+        if (!grid) return;
+        const handleTouchMove = (e: TouchEvent) => {
+            if (cellDragRef.current || dragSelectRef.current) e.preventDefault();
+        };
+        grid.addEventListener('touchmove', handleTouchMove, { passive: false });
+        return () => grid.removeEventListener('touchmove', handleTouchMove);
+    }, [isCollapsed]);
+
     const handlePointerDown = useCallback((e: React.PointerEvent) => {
         if (pointerDataRef.current.id !== -1) return;
         
         const pos = getCellPosFromEvent(e);
-        if (!pos) return;
+        const header = pos ? null : getHeaderFromNode(e.target as Element);
+        if (!pos && !header) return;
+
+        // In select mode a drag from a cell selects a rectangle
+        if (isSelectMode && pos) {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const extend = e.shiftKey && anchorRef.current;
+            dragSelectRef.current = {
+                id: e.pointerId,
+                anchor: extend || pos,
+                base: e.ctrlKey || e.metaKey ? new Set(selectedKeysRef.current) : new Set(),
+                end: '',
+                active: false,
+            };
+        }
 
+        const pointerId = e.pointerId;
         pointerDataRef.current = {
             id: e.pointerId,
             startX: e.clientX,
             startY: e.clientY,
             startTime: Date.now(),
-            timer: window.setTimeout(() => {
+            header,
+            // Headers only take taps, which select their row or column
+            timer: !pos ? null : window.setTimeout(() => {
                 const state = pointerDataRef.current;
                 state.timer = null;
                 if (state.id !== -1) {
                     if (navigator.vibrate) navigator.vibrate(40);
+
+                    // Keep the selection when the cell is part of it, so actions apply to all of it;
+                    // otherwise select just this cell (or add it, with shift)
+                    const key = getCellKey(pos.row, pos.col);
+                    setSelectedKeys(prev => {
+                        if (prev.has(key)) return prev;
+                        return e.shiftKey ? new Set([...prev, key]) : new Set([key]);
+                    });
+
                     onLongPress?.(pos.row, pos.col, e.clientX, e.clientY, true);
                     state.id = -1; // reset tracking
+                    dragSelectRef.current = null;
+
+                    // Keep the pointer while the cell may be dragged out of the panel
+                    if (cellDrag) {
+                        gridRef.current?.setPointerCapture(pointerId);
+                        cellDragRef.current = { id: pointerId, pos, startX: state.startX, startY: state.startY, active: false };
+                    }
                 }
             }, LONG_PRESS_DURATION)
         };
         e.preventDefault();
-    }, [onLongPress]);
+    }, [isSelectMode, onLongPress, cellDrag]);
 
     const handlePointerMove = useCallback((e: React.PointerEvent) => {
+        const drag = cellDragRef.current;
+        if (drag && drag.id === e.pointerId) {
+            if (!drag.active && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) > TAP_THRESHOLD) {
+                drag.active = !!cellDrag?.onDragStart(drag.pos.row, drag.pos.col);
+                if (!drag.active) cellDragRef.current = null;
+            }
+            if (drag.active) cellDrag?.onDragMove(e.clientX, e.clientY);
+            return;
+        }
+
         const state = pointerDataRef.current;
         if (state.id !== e.pointerId) return;
 
@@ -247,9 +493,24 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
                 state.timer = null;
             }
         }
-    }, []);
+
+        const selectDrag = dragSelectRef.current;
+        if (selectDrag && selectDrag.id === e.pointerId && (selectDrag.active || distance > TAP_THRESHOLD)) {
+            selectDrag.active = true;
+            const { clientX, clientY } = e;
+            updateDragSelection(clientX, clientY);
+            updateEdgeScroll(clientX, clientY, () => updateDragSelection(clientX, clientY));
+        }
+    }, [cellDrag, updateDragSelection, updateEdgeScroll]);
 
     const handlePointerUp = useCallback((e: React.PointerEvent) => {
+        const drag = cellDragRef.current;
+        if (drag && drag.id === e.pointerId) {
+            cellDragRef.current = null;
+            if (drag.active) cellDrag?.onDrop(e.clientX, e.clientY);
+            return;
+        }
+
         const state = pointerDataRef.current;
         if (state.id !== e.pointerId) return;
 
@@ -258,35 +519,66 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
             state.timer = null;
         }
 
+        const selectDrag = dragSelectRef.current;
+        if (selectDrag && selectDrag.id === e.pointerId) {
+            dragSelectRef.current = null;
+            stopEdgeScroll();
+            if (selectDrag.active) {
+                anchorRef.current = selectDrag.anchor;
+                state.id = -1;
+                return;
+            }
+        }
+
         const dx = e.clientX - state.startX;
         const dy = e.clientY - state.startY;
         const distance = Math.sqrt(dx * dx + dy * dy);
         const duration = Date.now() - state.startTime;
 
-        if (distance < TAP_THRESHOLD && duration < LONG_PRESS_DURATION) {
-            const pos = getCellPosFromEvent(e);
+        const additive = e.ctrlKey || e.metaKey;
+        if (distance < TAP_THRESHOLD && duration < LONG_PRESS_DURATION && state.header) {
+            selectHeader(state.header, e.shiftKey || additive);
+        } else if (distance < TAP_THRESHOLD && duration < LONG_PRESS_DURATION) {
+            const pos = getCellPosFromNode(document.elementFromPoint(e.clientX, e.clientY) ?? (e.target as Element));
             if (pos) {
-                const now = Date.now();
-                const lastTap = lastTapRef.current;
-                if (lastTap.row === pos.row && lastTap.col === pos.col && now - lastTap.time < 300) {
-                    onCellDoubleTap(pos.row, pos.col);
-                    lastTapRef.current = { row: -1, col: -1, time: 0 };
+                if (e.shiftKey && anchorRef.current) {
+                    // Shift+click: the rectangle from the anchor to here (Ctrl adds it to the selection)
+                    extendSelection(anchorRef.current, pos, additive ? selectedKeysRef.current : new Set());
+                } else if (e.shiftKey || additive) {
+                    // Toggle the cell; it becomes the anchor of the next shift+click
+                    toggleSelection(getCellKey(pos.row, pos.col));
                 } else {
-                    onCellSingleTap(pos.row, pos.col);
-                    lastTapRef.current = { row: pos.row, col: pos.col, time: now };
+                    const now = Date.now();
+                    const lastTap = lastTapRef.current;
+                    if (lastTap.row === pos.row && lastTap.col === pos.col && now - lastTap.time < 300) {
+                        onCellDoubleTap(pos.row, pos.col);
+                        lastTapRef.current = { row: -1, col: -1, time: 0 };
+                    } else {
+                        onCellSingleTap(pos.row, pos.col);
+                        lastTapRef.current = { row: pos.row, col: pos.col, time: now };
+                    }
                 }
             }
         }
 
         state.id = -1;
-    }, [onCellSingleTap, onCellDoubleTap]);
+    }, [onCellSingleTap, onCellDoubleTap, cellDrag, stopEdgeScroll, selectHeader, extendSelection, toggleSelection]);
 
     const handlePointerCancel = useCallback(() => {
         const state = pointerDataRef.current;
         if (state.timer !== null) window.clearTimeout(state.timer);
         state.id = -1;
         state.timer = null;
-    }, []);
+
+        if (dragSelectRef.current) {
+            dragSelectRef.current = null;
+            stopEdgeScroll();
+        }
+
+        const drag = cellDragRef.current;
+        cellDragRef.current = null;
+        if (drag?.active) cellDrag?.onDragCancel();
+    }, [cellDrag, stopEdgeScroll]);
 
     const gridWidth = config.cols * config.cellWidth + config.rowHeaderWidth;
     const gridHeight = config.rows * config.cellHeight + config.headerHeight;
@@ -311,7 +603,7 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
         }
 
         gridElements.push(
-            <div key={`header-col-${c}`} style={{ 
+            <div key={`header-col-${c}`} data-header="col" data-index={c} style={{ 
                 gridRow: 1, gridColumn: c + 2, 
                 backgroundColor: '#1a2235', color: '#6b7280', 
                 fontSize: 10, display: 'flex', alignItems: 'center', justifyContent: 'center',
@@ -325,7 +617,7 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
     // Row headers
     for (let r = 0; r < config.rows; r++) {
         gridElements.push(
-            <div key={`header-row-${r}`} style={{ 
+            <div key={`header-row-${r}`} data-header="row" data-index={r} style={{ 
                 gridRow: r + 2, gridColumn: 1, 
                 backgroundColor: '#1a2235', color: '#6b7280', 
                 fontSize: 10, display: 'flex', alignItems: 'center', justifyContent: 'center',
@@ -349,7 +641,11 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
                     row={r} 
                     col={c} 
                     cell={cell} 
+                    materialColor={cell && cellHasContent(cell) ? getMaterialColor(cell.code1, catalog) : null}
+                    isSelected={selectedKeys.has(key)}
+                    isDimmed={!!cellFilter && !cellFilter(cell)}
                     isHighlighted={isHighlighted || false} 
+                    dropState={dropPreview?.get(key) ?? null}
                 />
             );
         }
@@ -372,6 +668,7 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
                 <span className="buffer-panel-title">📦 Buffer</span>
                 <div className="buffer-panel-stats">
                     {summaries.length} types • {totalQuantity} total
+                    {selectedKeys.size > 1 && ` • ${selectedKeys.size} selected`}
                 </div>
                 <button
                     className="buffer-panel-toggle"
@@ -387,6 +684,7 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
             {!isCollapsed && (
                 <div className="buffer-panel-content">
                     <div
+                        ref={wrapperRef}
                         className="buffer-grid-wrapper"
                         style={{
                             width: Math.min(gridWidth + 20, 350),
@@ -394,7 +692,8 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
                         }}
                     >
                         <div 
-                            className="buffer-grid-container"
+                            ref={gridRef}
+                            className={`buffer-grid-container ${isSelectMode ? 'select-mode' : ''}`}
                             style={{
                                 gridTemplateColumns: `${config.rowHeaderWidth}px repeat(${config.cols}, ${config.cellWidth}px)`,
                                 gridTemplateRows: `${config.headerHeight}px repeat(${config.rows}, ${config.cellHeight}px)`
@@ -412,7 +711,7 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
                     {summaries.length > 0 && (
                         <div className="buffer-summary">
                             {summaries.map((summary) => {
-                                const color = getMaterialColor(summary.code1);
+                                const color = getMaterialColor(summary.code1, catalog);
                                 return (
                                     <div
                                         key={summary.combinedCode}
@@ -430,7 +729,7 @@ export const BufferGridPanel = forwardRef<BufferGridPanelHandle, BufferGridPanel
                                             {summary.combinedCode}
                                         </span>
                                         <span className="buffer-summary-qty">
-                                            {summary.totalQuantity}
+                                            {summary.totalQuantity} {getMaterialUnit(summary.code1, catalog)}
                                         </span>
                                     </div>
                                 );
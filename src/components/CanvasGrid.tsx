@@ -1,175 +1,713 @@
-import React, { useRef, useCallback, memo, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import { CellData, GridConfig, getCellKey, cellHasContent, getMaterialColor, getCombinedCode } from '../types';
+import React, { useRef, useCallback, useEffect, useLayoutEffect, useMemo, useState, forwardRef, useImperativeHandle } from 'react';
+import {
+    CellData,
+    GridConfig,
+    GridPosition,
+    GridRange,
+    MapCell,
+    getBoundingRange,
+    getCellKey,
+    getGridRange,
+    getRangeKeys,
+    parseCellKey,
+} from '../types';
+import { clampZoom, drawGrid, getGridGeometry, getHighlightAlpha, hitTestCell } from '../gridRenderer';
+import { MaterialCatalog } from '../catalog';
+import { CellDragHandlers, DropPreview } from '../cellMove';
+import { Minimap, MinimapViewport } from './Minimap';
 
 interface CanvasGridProps {
     config: GridConfig;
     cells: Map<string, CellData>;
+    layout?: Map<string, MapCell>;
+    catalog: MaterialCatalog;
+    isLayoutMode?: boolean;
+    isSelectMode?: boolean;  // Dragging selects a rectangle instead of panning
+    viewKey?: string;  // Zoom and scroll position are remembered per key (one per map)
     onCellSingleTap: (row: number, col: number) => void;
     onCellDoubleTap: (row: number, col: number) => void;
     highlightedCode?: string | null;
+    cellFilter?: (cell: CellData | undefined) => boolean;  // While set, non-matching cells are dimmed
     onLongPress?: (row: number, col: number, screenX: number, screenY: number) => void;
     onSelectionChange?: (keys: string[]) => void;
+    cellDrag?: CellDragHandlers;  // Long press and then drag moves the pressed cell or selection
+    dropPreview?: DropPreview | null;
 }
 
 export interface CanvasGridHandle {
     getSelectedCells: () => string[];
     clearSelection: () => void;
     toggleSelection: (key: string) => void;
+    getSelectedRange: () => GridRange | null;  // Bounding rectangle of the selection
+    selectRange: (range: GridRange, additive?: boolean) => void;
+    revealCell: (row: number, col: number) => void;  // Select a cell and scroll it into view
+    getCellAtPoint: (clientX: number, clientY: number) => GridPosition | null;
+    autoScroll: (clientX: number, clientY: number, onScroll: () => void) => void;  // Scroll while a drag is near an edge
+    stopAutoScroll: () => void;
 }
 
 const TAP_THRESHOLD = 10; // pixels
 const LONG_PRESS_DURATION = 500; // ms
+const WHEEL_ZOOM_SPEED = 0.002;
+const INERTIA_FRICTION = 0.95; // Velocity kept per 16 ms frame
+const INERTIA_MIN_SPEED = 0.02; // px/ms
+const EDGE_SCROLL_ZONE = 32; // px from the viewport edge where a drag scrolls the grid
+const EDGE_SCROLL_SPEED = 12; // px per frame at the edge
 
-// Memoized single cell component
-const GridCell = memo(({ 
-    row, col, cell, isSelected, isHighlighted 
-}: { 
-    row: number, col: number, cell?: CellData, isSelected: boolean, isHighlighted: boolean 
-}) => {
-    const hasContent = cell && cellHasContent(cell);
-    const materialColor = hasContent ? getMaterialColor(cell.code1) : null;
-    const isBoundary = cell?.isBoundary;
-    
-    return (
-        <div 
-            className={`grid-cell ${hasContent ? 'has-content' : ''} ${isSelected ? 'selected' : ''} ${isHighlighted ? 'highlighted' : ''} ${isBoundary ? 'boundary-cell' : ''} ${cell?.isStockHold ? 'stock-hold-cell' : ''}`}
-            data-row={row} 
-            data-col={col}
-            style={{ 
-                gridRow: row + 2, // +2 because 1 is header
-                gridColumn: col + 2, // +2 because 1 is header
-                backgroundColor: materialColor ? materialColor.background : undefined 
-            }}
-        >
-            {hasContent && materialColor && (
-                <>
-                    <div className="cell-indicator" style={{ backgroundColor: materialColor.primary }} />
-                    <div className="cell-code" style={{ color: materialColor.primary }}>
-                        {cell.code1}{cell.code2}
-                    </div>
-                    {cell.code3 && <div className="cell-code3">{cell.code3}</div>}
-                    {cell.quantity > 0 && <div className="cell-quantity">{cell.quantity}</div>}
-                    {cell.note && <div className="cell-note-indicator" />}
-                    {cell.imageId && <div className="cell-image-indicator" />}
-                </>
-            )}
-        </div>
-    );
-}, (prev, next) => {
-    // Fast comparison for React.memo
-    if (prev.isSelected !== next.isSelected) return false;
-    if (prev.isHighlighted !== next.isHighlighted) return false;
-    
-    // Quick checks
-    const p = prev.cell;
-    const n = next.cell;
-    
-    if (!!p !== !!n) return false;
-    if (!p && !n) return true; // both undefined
-    
-    // Deepish compare data props
-    if (p!.code1 !== n!.code1) return false;
-    if (p!.code2 !== n!.code2) return false;
-    if (p!.code3 !== n!.code3) return false;
-    if (p!.quantity !== n!.quantity) return false;
-    if (p!.note !== n!.note) return false;
-    if (p!.imageId !== n!.imageId) return false;
-    if (p!.isBoundary !== n!.isBoundary) return false;
-    if (p!.isStockHold !== n!.isStockHold) return false;
-    
-    return true;
-});
+// A tap on the column letters or row numbers
+interface HeaderHit {
+    kind: 'row' | 'col';
+    index: number;
+}
+
+// Zoom and scroll persistence
+interface GridView {
+    scale: number;
+    scrollX: number;
+    scrollY: number;
+}
+
+const VIEW_KEY_PREFIX = 'grid-view:';
+const VIEW_SAVE_DELAY = 300; // ms
+
+function loadGridView(key: string): GridView | null {
+    try {
+        const saved = localStorage.getItem(VIEW_KEY_PREFIX + key);
+        if (saved) return JSON.parse(saved);
+    } catch { }
+    return null;
+}
+
+function saveGridView(key: string, view: GridView) {
+    try {
+        localStorage.setItem(VIEW_KEY_PREFIX + key, JSON.stringify(view));
+    } catch { }
+}
 
 export const CanvasGrid = forwardRef<CanvasGridHandle, CanvasGridProps>(({
     config,
     cells,
+    layout,
+    catalog,
+    isLayoutMode = false,
+    isSelectMode = false,
+    viewKey,
     onCellSingleTap,
     onCellDoubleTap,
     highlightedCode,
+    cellFilter,
     onLongPress,
     onSelectionChange,
+    cellDrag,
+    dropPreview,
 }, ref) => {
     // Selection state
     const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
 
-    useImperativeHandle(ref, () => ({
-        getSelectedCells: () => Array.from(selectedKeys),
-        clearSelection: () => setSelectedKeys(new Set()),
-        toggleSelection: (key: string) => {
-            setSelectedKeys(prev => {
-                const newSet = new Set(prev);
-                if (newSet.has(key)) newSet.delete(key);
-                else newSet.add(key);
-                return newSet;
-            });
-        }
-    }), [selectedKeys]);
-
     useEffect(() => {
         onSelectionChange?.(Array.from(selectedKeys));
     }, [selectedKeys, onSelectionChange]);
 
+    // ── Rendering ────────────────────────────────────────────────────────────
+    // Only the cells inside the scroll viewport are drawn. A spacer sized to the
+    // full grid provides native scrolling; the canvas is sticky within it.
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+    const [scale, setScale] = useState(1);
+    const geometry = useMemo(() => getGridGeometry(config, scale), [config, scale]);
+    const [minimapViewport, setMinimapViewport] = useState<MinimapViewport>({ row: 0, col: 0, rows: 0, cols: 0 });
+
+    // Latest draw inputs, read by the animation frame callback
+    const drawInputsRef = useRef({ geometry, cells, layout, catalog, selectedKeys, highlightedCode, isLayoutMode, cellFilter, dropPreview });
+    drawInputsRef.current = { geometry, cells, layout, catalog, selectedKeys, highlightedCode, isLayoutMode, cellFilter, dropPreview };
+    const frameRef = useRef<number | null>(null);
+
+    const draw = useCallback(() => {
+        frameRef.current = null;
+        const canvas = canvasRef.current;
+        const container = containerRef.current;
+        if (!canvas || !container) return;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const inputs = drawInputsRef.current;
+        const dpr = window.devicePixelRatio || 1;
+        const width = container.clientWidth;
+        const height = container.clientHeight;
+        if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+            canvas.width = Math.round(width * dpr);
+            canvas.height = Math.round(height * dpr);
+        }
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+        drawGrid(ctx, inputs.geometry, {
+            scrollX: container.scrollLeft,
+            scrollY: container.scrollTop,
+            width,
+            height,
+        }, {
+            cells: inputs.cells,
+            layout: inputs.layout,
+            catalog: inputs.catalog,
+            selectedKeys: inputs.selectedKeys,
+            highlightedCode: inputs.highlightedCode,
+            highlightAlpha: getHighlightAlpha(performance.now()),
+            isLayoutMode: inputs.isLayoutMode,
+            matchesFilter: inputs.cellFilter,
+            dropPreview: inputs.dropPreview,
+        });
+
+        // Keep the minimap's viewport rectangle in step (no update while nothing moved)
+        const { pitchX, pitchY, originX, originY } = inputs.geometry;
+        const visible = {
+            row: container.scrollTop / pitchY,
+            col: container.scrollLeft / pitchX,
+            rows: (height - originY) / pitchY,
+            cols: (width - originX) / pitchX,
+        };
+        setMinimapViewport(prev =>
+            prev.row === visible.row && prev.col === visible.col && prev.rows === visible.rows && prev.cols === visible.cols
+                ? prev
+                : visible
+        );
+    }, []);
+
+    // Coalesce redraw requests into one per frame
+    const requestDraw = useCallback(() => {
+        if (frameRef.current === null) {
+            frameRef.current = requestAnimationFrame(draw);
+        }
+    }, [draw]);
+
+    useEffect(() => {
+        requestDraw();
+    }, [requestDraw, geometry, cells, layout, catalog, selectedKeys, highlightedCode, isLayoutMode, cellFilter, dropPreview, viewportSize]);
+
+    // Track the viewport size
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => {
+            setViewportSize({ width: container.clientWidth, height: container.clientHeight });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    // Animate the highlight pulse while a code is highlighted
+    useEffect(() => {
+        if (!highlightedCode) return;
+        let frame = requestAnimationFrame(function tick() {
+            requestDraw();
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [highlightedCode, requestDraw]);
+
+    useEffect(() => () => {
+        if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    }, []);
+
+    // ── Zoom & view persistence ──────────────────────────────────────────────
+    // A zoom changes the spacer size, so the matching scroll position is kept
+    // pending until the re-rendered spacer can take it.
+
+    const scaleRef = useRef(scale);
+    const pendingViewRef = useRef<GridView | null>(null);
+    const saveTimerRef = useRef<number | null>(null);
+
+    // Restore the saved view when the key (map) changes
+    useLayoutEffect(() => {
+        if (!viewKey) return;
+        const saved = loadGridView(viewKey);
+        const view = saved ? { ...saved, scale: clampZoom(saved.scale) } : { scale: 1, scrollX: 0, scrollY: 0 };
+        pendingViewRef.current = view;
+        scaleRef.current = view.scale;
+        setScale(view.scale);
+    }, [viewKey]);
+
+    // Apply a pending scroll position once the spacer matches its scale
+    useLayoutEffect(() => {
+        const pending = pendingViewRef.current;
+        const container = containerRef.current;
+        if (!pending || !container || pending.scale !== scale) return;
+        pendingViewRef.current = null;
+        container.scrollLeft = pending.scrollX;
+        container.scrollTop = pending.scrollY;
+        requestDraw();
+    });
+
+    const scheduleViewSave = useCallback((view?: GridView) => {
+        const container = containerRef.current;
+        if (!viewKey || !container) return;
+        const next = view ?? { scale: scaleRef.current, scrollX: container.scrollLeft, scrollY: container.scrollTop };
+        if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = window.setTimeout(() => {
+            saveTimerRef.current = null;
+            saveGridView(viewKey, next);
+        }, VIEW_SAVE_DELAY);
+    }, [viewKey]);
+
+    useEffect(() => () => {
+        if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    }, []);
+
+    const handleScroll = useCallback(() => {
+        requestDraw();
+        // Scroll events fired while a zoom is settling carry stale offsets
+        if (!pendingViewRef.current) scheduleViewSave();
+    }, [requestDraw, scheduleViewSave]);
+
+    // Zoom to a new scale, keeping the content under viewport point (vx, vy) in place
+    const zoomAt = useCallback((requested: number, vx: number, vy: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const from = pendingViewRef.current ?? {
+            scale: scaleRef.current,
+            scrollX: container.scrollLeft,
+            scrollY: container.scrollTop,
+        };
+        const next = clampZoom(requested);
+        if (next === from.scale) return;
+
+        const before = getGridGeometry(config, from.scale);
+        const after = getGridGeometry(config, next);
+        const contentX = (from.scrollX + vx - before.originX) / before.pitchX;
+        const contentY = (from.scrollY + vy - before.originY) / before.pitchY;
+        const view = {
+            scale: next,
+            scrollX: Math.max(0, contentX * after.pitchX + after.originX - vx),
+            scrollY: Math.max(0, contentY * after.pitchY + after.originY - vy),
+        };
+
+        pendingViewRef.current = view;
+        scaleRef.current = next;
+        setScale(next);
+        scheduleViewSave(view);
+    }, [config, scheduleViewSave]);
+
+    // Ctrl/Cmd + wheel zooms (needs a non-passive listener to stop page zoom)
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const handleWheel = (e: WheelEvent) => {
+            if (!e.ctrlKey && !e.metaKey) return;
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            zoomAt(scaleRef.current * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), e.clientX - rect.left, e.clientY - rect.top);
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [zoomAt]);
+
+    // ── Pointer handling ─────────────────────────────────────────────────────
+    // One pointer: tap / double-tap / long press, and touch drags pan the grid.
+    // Two pointers: pinch zoom around their midpoint.
+
     // Pointer event tracking logic
-    const pointerDataRef = useRef<{ id: number; startX: number; startY: number; startTime: number; timer: number | null }>({
-        id: -1, startX: 0, startY: 0, startTime: 0, timer: null
+    const pointerDataRef = useRef<{
+        id: number;
+        startX: number;
+        startY: number;
+        startTime: number;
+        timer: number | null;
+        header: HeaderHit | null;
+    }>({
+        id: -1, startX: 0, startY: 0, startTime: 0, timer: null, header: null
     });
     const lastTapRef = useRef<{ row: number; col: number; time: number }>({ row: -1, col: -1, time: 0 });
+    const activePointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+    const pinchRef = useRef<{ startDistance: number; startScale: number } | null>(null);
+    const panRef = useRef<{
+        id: number;
+        scrollX: number;
+        scrollY: number;
+        startX: number;
+        startY: number;
+        lastX: number;
+        lastY: number;
+        lastTime: number;
+        vx: number;
+        vy: number;
+    } | null>(null);
+    const inertiaRef = useRef<number | null>(null);
+    // Corner that shift+click and drags extend the selection from
+    const anchorRef = useRef<GridPosition | null>(null);
+    // Rectangle drag in select mode; `base` is the selection kept alongside the rectangle
+    const dragSelectRef = useRef<{
+        id: number;
+        anchor: GridPosition;
+        base: Set<string>;
+        end: string;
+        active: boolean;
+    } | null>(null);
+    const edgeScrollRef = useRef<{ frame: number | null; dx: number; dy: number; onScroll: () => void }>({
+        frame: null, dx: 0, dy: 0, onScroll: () => { }
+    });
+    // Cell drag armed by a long press; it starts once the pointer moves away
+    const cellDragRef = useRef<{ id: number; pos: GridPosition; startX: number; startY: number; active: boolean } | null>(null);
+
+    const stopInertia = useCallback(() => {
+        if (inertiaRef.current !== null) {
+            cancelAnimationFrame(inertiaRef.current);
+            inertiaRef.current = null;
+        }
+    }, []);
 
-    const getCellPosFromEvent = (e: React.PointerEvent | MouseEvent | TouchEvent): { row: number, col: number } | null => {
-        const target = e.target as HTMLElement;
-        const cellNode = target.closest('.grid-cell') as HTMLElement;
-        if (!cellNode) return null;
-        
-        const row = parseInt(cellNode.getAttribute('data-row') ?? '', 10);
-        const col = parseInt(cellNode.getAttribute('data-col') ?? '', 10);
-        
-        if (isNaN(row) || isNaN(col)) return null;
-        return { row, col };
+    useEffect(() => stopInertia, [stopInertia]);
+
+    // Keep scrolling after a fling, slowing down each frame
+    const startInertia = useCallback((vx: number, vy: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        let last = performance.now();
+        const step = (now: number) => {
+            const dt = now - last;
+            last = now;
+            container.scrollLeft -= vx * dt;
+            container.scrollTop -= vy * dt;
+            const decay = Math.pow(INERTIA_FRICTION, dt / 16);
+            vx *= decay;
+            vy *= decay;
+            inertiaRef.current = Math.hypot(vx, vy) > INERTIA_MIN_SPEED ? requestAnimationFrame(step) : null;
+        };
+        inertiaRef.current = requestAnimationFrame(step);
+    }, []);
+
+    // Scroll so that a (fractional) cell position is in the middle of the viewport
+    const centerOn = useCallback((row: number, col: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        stopInertia();
+        container.scrollLeft = geometry.originX + col * geometry.pitchX - (geometry.originX + container.clientWidth) / 2;
+        container.scrollTop = geometry.originY + row * geometry.pitchY - (geometry.originY + container.clientHeight) / 2;
+    }, [geometry, stopInertia]);
+
+    // Centre a cell unless it is already fully visible
+    const scrollCellIntoView = useCallback((row: number, col: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const x = geometry.originX + col * geometry.pitchX;
+        const y = geometry.originY + row * geometry.pitchY;
+        const visible = x >= container.scrollLeft + geometry.originX
+            && y >= container.scrollTop + geometry.originY
+            && x + geometry.cellWidth <= container.scrollLeft + container.clientWidth
+            && y + geometry.cellHeight <= container.scrollTop + container.clientHeight;
+        if (!visible) centerOn(row + 0.5, col + 0.5);
+    }, [geometry, centerOn]);
+
+    // ── Selection ────────────────────────────────────────────────────────────
+
+    const toggleSelection = useCallback((key: string) => {
+        setSelectedKeys(prev => {
+            const newSet = new Set(prev);
+            if (newSet.has(key)) newSet.delete(key);
+            else newSet.add(key);
+            return newSet;
+        });
+        anchorRef.current = parseCellKey(key);
+    }, []);
+
+    // Select the rectangle from anchor to end besides the base cells (the anchor is kept)
+    const extendSelection = useCallback((anchor: GridPosition, end: GridPosition, base: Set<string>) => {
+        const next = new Set(base);
+        getRangeKeys(getGridRange(anchor, end)).forEach(key => next.add(key));
+        setSelectedKeys(next);
+    }, []);
+
+    const selectRange = useCallback((range: GridRange, additive = false) => {
+        const base = additive ? drawInputsRef.current.selectedKeys : new Set<string>();
+        const anchor = { row: range.startRow, col: range.startCol };
+        extendSelection(anchor, { row: range.endRow, col: range.endCol }, base);
+        anchorRef.current = anchor;
+    }, [extendSelection]);
+
+    const selectHeader = useCallback((header: HeaderHit, additive: boolean) => {
+        selectRange(header.kind === 'row'
+            ? { startRow: header.index, startCol: 0, endRow: header.index, endCol: config.cols - 1 }
+            : { startRow: 0, startCol: header.index, endRow: config.rows - 1, endCol: header.index },
+        additive);
+    }, [config, selectRange]);
+
+    // While a drag is near a viewport edge, scroll towards that edge every frame
+    const stopEdgeScroll = useCallback(() => {
+        const edge = edgeScrollRef.current;
+        if (edge.frame !== null) cancelAnimationFrame(edge.frame);
+        edge.frame = null;
+    }, []);
+
+    useEffect(() => stopEdgeScroll, [stopEdgeScroll]);
+
+    const updateEdgeScroll = useCallback((clientX: number, clientY: number, onScroll: () => void) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const rect = container.getBoundingClientRect();
+        const speed = (distance: number) => distance < EDGE_SCROLL_ZONE
+            ? EDGE_SCROLL_SPEED * (1 - Math.max(0, distance) / EDGE_SCROLL_ZONE)
+            : 0;
+
+        const edge = edgeScrollRef.current;
+        edge.dx = speed(rect.right - clientX) - speed(clientX - rect.left - geometry.originX);
+        edge.dy = speed(rect.bottom - clientY) - speed(clientY - rect.top - geometry.originY);
+        edge.onScroll = onScroll;
+        if (edge.dx === 0 && edge.dy === 0) {
+            stopEdgeScroll();
+            return;
+        }
+        if (edge.frame !== null) return;
+
+        const step = () => {
+            container.scrollLeft += edge.dx;
+            container.scrollTop += edge.dy;
+            edge.onScroll();
+            edge.frame = requestAnimationFrame(step);
+        };
+        edge.frame = requestAnimationFrame(step);
+    }, [geometry, stopEdgeScroll]);
+
+    const cancelTapTracking = () => {
+        const state = pointerDataRef.current;
+        if (state.timer !== null) window.clearTimeout(state.timer);
+        state.id = -1;
+        state.timer = null;
     };
 
+    const cancelCellDrag = () => {
+        const drag = cellDragRef.current;
+        cellDragRef.current = null;
+        if (drag?.active) cellDrag?.onDragCancel();
+    };
+
+    const getPinchDistance = () => {
+        const [a, b] = Array.from(activePointersRef.current.values());
+        return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    // Map a screen position to a cell; the sticky headers are not cells
+    const getCellFromPoint = useCallback((clientX: number, clientY: number): GridPosition | null => {
+        const container = containerRef.current;
+        if (!container) return null;
+        const rect = container.getBoundingClientRect();
+        const x = clientX - rect.left;
+        const y = clientY - rect.top;
+        if (x < geometry.originX || y < geometry.originY) return null;
+        if (x >= container.clientWidth || y >= container.clientHeight) return null;
+        return hitTestCell(geometry, x + container.scrollLeft, y + container.scrollTop);
+    }, [geometry]);
+
+    // The cell nearest to a pointer position, for drags that leave the grid
+    const getClampedCellFromPoint = useCallback((clientX: number, clientY: number): GridPosition | null => {
+        const container = containerRef.current;
+        if (!container) return null;
+        const rect = container.getBoundingClientRect();
+        const x = clientX - rect.left + container.scrollLeft - geometry.originX;
+        const y = clientY - rect.top + container.scrollTop - geometry.originY;
+        return {
+            row: Math.max(0, Math.min(config.rows - 1, Math.floor(y / geometry.pitchY))),
+            col: Math.max(0, Math.min(config.cols - 1, Math.floor(x / geometry.pitchX))),
+        };
+    }, [config, geometry]);
+
+    // Map a pointer position to a column letter or row number
+    const getHeaderFromEvent = useCallback((e: React.PointerEvent): HeaderHit | null => {
+        const container = containerRef.current;
+        if (!container) return null;
+        const rect = container.getBoundingClientRect();
+        const x = e.clientX - rect.left;
+        const y = e.clientY - rect.top;
+        if (y < geometry.originY && x >= geometry.originX) {
+            const col = Math.floor((x + container.scrollLeft - geometry.originX) / geometry.pitchX);
+            return col < config.cols ? { kind: 'col', index: col } : null;
+        }
+        if (x < geometry.originX && y >= geometry.originY) {
+            const row = Math.floor((y + container.scrollTop - geometry.originY) / geometry.pitchY);
+            return row < config.rows ? { kind: 'row', index: row } : null;
+        }
+        return null;
+    }, [config, geometry]);
+
+    const updateDragSelection = useCallback((clientX: number, clientY: number) => {
+        const drag = dragSelectRef.current;
+        const end = getClampedCellFromPoint(clientX, clientY);
+        if (!drag || !end) return;
+        const endKey = getCellKey(end.row, end.col);
+        if (endKey === drag.end) return;
+        drag.end = endKey;
+        extendSelection(drag.anchor, end, drag.base);
+    }, [getClampedCellFromPoint, extendSelection]);
+
+    useImperativeHandle(ref, () => ({
+        getSelectedCells: () => Array.from(selectedKeys),
+        clearSelection: () => {
+            setSelectedKeys(new Set());
+            anchorRef.current = null;
+        },
+        toggleSelection,
+        getSelectedRange: () => getBoundingRange(selectedKeys),
+        selectRange,
+        revealCell: (row: number, col: number) => {
+            setSelectedKeys(new Set([getCellKey(row, col)]));
+            anchorRef.current = { row, col };
+            scrollCellIntoView(row, col);
+        },
+        getCellAtPoint: getCellFromPoint,
+        autoScroll: updateEdgeScroll,
+        stopAutoScroll: stopEdgeScroll,
+    }), [selectedKeys, toggleSelection, selectRange, scrollCellIntoView, getCellFromPoint, updateEdgeScroll, stopEdgeScroll]);
+
     const handlePointerDown = useCallback((e: React.PointerEvent) => {
+        stopInertia();
+        activePointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+        // Second finger: switch from tap/pan to pinch
+        if (activePointersRef.current.size === 2) {
+            cancelTapTracking();
+            cancelCellDrag();
+            panRef.current = null;
+            dragSelectRef.current = null;
+            stopEdgeScroll();
+            pinchRef.current = { startDistance: getPinchDistance(), startScale: scaleRef.current };
+            return;
+        }
+
         // Only track primary pointer for gestures
-        if (pointerDataRef.current.id !== -1) return;
-        
-        const pos = getCellPosFromEvent(e);
-        if (!pos) return;
+        if (pointerDataRef.current.id !== -1 || activePointersRef.current.size > 1) return;
+
+        const container = containerRef.current;
+        const pos = getCellFromPoint(e.clientX, e.clientY);
+
+        // In select mode a drag from a cell selects a rectangle; anywhere else a touch drag pans
+        if (isSelectMode && pos) {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const extend = e.shiftKey && anchorRef.current;
+            dragSelectRef.current = {
+                id: e.pointerId,
+                anchor: extend || pos,
+                base: e.ctrlKey || e.metaKey ? new Set(drawInputsRef.current.selectedKeys) : new Set(),
+                end: '',
+                active: false,
+            };
+        } else if (e.pointerType === 'touch' && container) {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            panRef.current = {
+                id: e.pointerId,
+                scrollX: container.scrollLeft,
+                scrollY: container.scrollTop,
+                startX: e.clientX,
+                startY: e.clientY,
+                lastX: e.clientX,
+                lastY: e.clientY,
+                lastTime: performance.now(),
+                vx: 0,
+                vy: 0,
+            };
+        }
+
+        if (!pos) {
+            // Headers only take taps, which select their row or column
+            const header = getHeaderFromEvent(e);
+            if (header) {
+                pointerDataRef.current = {
+                    id: e.pointerId,
+                    startX: e.clientX,
+                    startY: e.clientY,
+                    startTime: Date.now(),
+                    timer: null,
+                    header,
+                };
+            }
+            return;
+        }
 
         // Save position directly for easy calculation
+        const pointerId = e.pointerId;
         pointerDataRef.current = {
             id: e.pointerId,
             startX: e.clientX,
             startY: e.clientY,
             startTime: Date.now(),
+            header: null,
             timer: window.setTimeout(() => {
                 // Long press detected
                 const state = pointerDataRef.current;
                 state.timer = null;
                 if (state.id !== -1) {
                     if (navigator.vibrate) navigator.vibrate(40);
-                    
-                    // Add this cell to selection if it wasn't already selected
+
+                    // Keep the selection when the cell is part of it, so actions apply to all of it;
+                    // otherwise select just this cell (or add it, with shift)
                     const key = getCellKey(pos.row, pos.col);
-                    if (!e.shiftKey) {
-                        setSelectedKeys(new Set([key]));
-                    } else {
-                        setSelectedKeys(prev => {
-                            const newSet = new Set(prev);
-                            newSet.add(key);
-                            return newSet;
-                        });
-                    }
-                    
+                    setSelectedKeys(prev => {
+                        if (prev.has(key)) return prev;
+                        return e.shiftKey ? new Set([...prev, key]) : new Set([key]);
+                    });
+
                     onLongPress?.(pos.row, pos.col, e.clientX, e.clientY);
                     state.id = -1; // reset tracking to ignore upcoming pointerup
+                    panRef.current = null;
+                    dragSelectRef.current = null;
+
+                    // Keep the pointer while the cell may be dragged off the grid
+                    if (cellDrag) {
+                        canvasRef.current?.setPointerCapture(pointerId);
+                        cellDragRef.current = { id: pointerId, pos, startX: state.startX, startY: state.startY, active: false };
+                    }
                 }
             }, LONG_PRESS_DURATION)
         };
-        
+
         // Prevent default browser behaviors like text selection on long press
         e.preventDefault();
-    }, [onLongPress]);
+    }, [getCellFromPoint, getHeaderFromEvent, isSelectMode, onLongPress, cellDrag, stopInertia, stopEdgeScroll]);
 
     const handlePointerMove = useCallback((e: React.PointerEvent) => {
+        if (!activePointersRef.current.has(e.pointerId)) return;
+        activePointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+        const pinch = pinchRef.current;
+        if (pinch && activePointersRef.current.size >= 2) {
+            const container = containerRef.current;
+            if (!container || pinch.startDistance === 0) return;
+            const [a, b] = Array.from(activePointersRef.current.values());
+            const rect = container.getBoundingClientRect();
+            zoomAt(
+                pinch.startScale * (getPinchDistance() / pinch.startDistance),
+                (a.x + b.x) / 2 - rect.left,
+                (a.y + b.y) / 2 - rect.top
+            );
+            return;
+        }
+
+        const pan = panRef.current;
+        if (pan && pan.id === e.pointerId) {
+            const container = containerRef.current;
+            const panDistance = Math.hypot(e.clientX - pan.startX, e.clientY - pan.startY);
+            if (container && panDistance > TAP_THRESHOLD) {
+                container.scrollLeft = pan.scrollX - (e.clientX - pan.startX);
+                container.scrollTop = pan.scrollY - (e.clientY - pan.startY);
+            }
+            const now = performance.now();
+            const dt = Math.max(1, now - pan.lastTime);
+            pan.vx = (e.clientX - pan.lastX) / dt;
+            pan.vy = (e.clientY - pan.lastY) / dt;
+            pan.lastX = e.clientX;
+            pan.lastY = e.clientY;
+            pan.lastTime = now;
+        }
+
+        const cellDragState = cellDragRef.current;
+        if (cellDragState && cellDragState.id === e.pointerId) {
+            const moved = Math.hypot(e.clientX - cellDragState.startX, e.clientY - cellDragState.startY);
+            if (!cellDragState.active && moved > TAP_THRESHOLD) {
+                cellDragState.active = !!cellDrag?.onDragStart(cellDragState.pos.row, cellDragState.pos.col);
+                if (!cellDragState.active) cellDragRef.current = null;
+            }
+            if (cellDragState.active) cellDrag?.onDragMove(e.clientX, e.clientY);
+            return;
+        }
+
         const state = pointerDataRef.current;
         if (state.id !== e.pointerId) return;
 
@@ -184,9 +722,52 @@ export const CanvasGrid = forwardRef<CanvasGridHandle, CanvasGridProps>(({
                 state.timer = null;
             }
         }
-    }, []);
+
+        const drag = dragSelectRef.current;
+        if (drag && drag.id === e.pointerId && (drag.active || distance > TAP_THRESHOLD)) {
+            drag.active = true;
+            const { clientX, clientY } = e;
+            updateDragSelection(clientX, clientY);
+            updateEdgeScroll(clientX, clientY, () => updateDragSelection(clientX, clientY));
+        }
+    }, [zoomAt, updateDragSelection, updateEdgeScroll, cellDrag]);
 
     const handlePointerUp = useCallback((e: React.PointerEvent) => {
+        activePointersRef.current.delete(e.pointerId);
+
+        if (pinchRef.current) {
+            // The pinch ends with its first lifted finger; the other one is ignored
+            if (activePointersRef.current.size < 2) pinchRef.current = null;
+            return;
+        }
+
+        const pan = panRef.current;
+        if (pan && pan.id === e.pointerId) {
+            panRef.current = null;
+            // Only fling if the finger was still moving when lifted
+            if (performance.now() - pan.lastTime < 50 && Math.hypot(pan.vx, pan.vy) > INERTIA_MIN_SPEED) {
+                startInertia(pan.vx, pan.vy);
+            }
+        }
+
+        const cellDragState = cellDragRef.current;
+        if (cellDragState && cellDragState.id === e.pointerId) {
+            cellDragRef.current = null;
+            if (cellDragState.active) cellDrag?.onDrop(e.clientX, e.clientY);
+            return;
+        }
+
+        const drag = dragSelectRef.current;
+        if (drag && drag.id === e.pointerId) {
+            dragSelectRef.current = null;
+            stopEdgeScroll();
+            if (drag.active) {
+                anchorRef.current = drag.anchor;
+                cancelTapTracking();
+                return;
+            }
+        }
+
         const state = pointerDataRef.current;
         if (state.id !== e.pointerId) return; // May have been reset by long press
 
@@ -200,18 +781,18 @@ export const CanvasGrid = forwardRef<CanvasGridHandle, CanvasGridProps>(({
         const distance = Math.sqrt(dx * dx + dy * dy);
         const duration = Date.now() - state.startTime;
 
-        if (distance < TAP_THRESHOLD && duration < LONG_PRESS_DURATION) {
-            const pos = getCellPosFromEvent(e);
+        const additive = e.ctrlKey || e.metaKey;
+        if (distance < TAP_THRESHOLD && duration < LONG_PRESS_DURATION && state.header) {
+            selectHeader(state.header, e.shiftKey || additive);
+        } else if (distance < TAP_THRESHOLD && duration < LONG_PRESS_DURATION) {
+            const pos = getCellFromPoint(e.clientX, e.clientY);
             if (pos) {
-                if (e.shiftKey) {
-                    // Toggle selection
-                    setSelectedKeys(prev => {
-                        const newSet = new Set(prev);
-                        const key = getCellKey(pos.row, pos.col);
-                        if (newSet.has(key)) newSet.delete(key);
-                        else newSet.add(key);
-                        return newSet;
-                    });
+                if (e.shiftKey && anchorRef.current) {
+                    // Shift+click: the rectangle from the anchor to here (Ctrl adds it to the selection)
+                    extendSelection(anchorRef.current, pos, additive ? drawInputsRef.current.selectedKeys : new Set());
+                } else if (e.shiftKey || additive) {
+                    // Toggle the cell; it becomes the anchor of the next shift+click
+                    toggleSelection(getCellKey(pos.row, pos.col));
                 } else {
                     const now = Date.now();
                     const lastTap = lastTapRef.current;
@@ -227,98 +808,56 @@ export const CanvasGrid = forwardRef<CanvasGridHandle, CanvasGridProps>(({
         }
 
         state.id = -1;
-    }, [onCellSingleTap, onCellDoubleTap]);
-
-    const handlePointerCancel = useCallback(() => {
-        const state = pointerDataRef.current;
-        if (state.timer !== null) window.clearTimeout(state.timer);
-        state.id = -1;
-        state.timer = null;
-    }, []);
+    }, [
+        getCellFromPoint, onCellSingleTap, onCellDoubleTap, startInertia, stopEdgeScroll,
+        selectHeader, extendSelection, toggleSelection, cellDrag,
+    ]);
 
-    // Generate cell array - separate loops for headers vs active cells
-    const gridElements = [];
-    
-    // Top-left corner
-    gridElements.push(
-        <div key="header-corner" style={{ 
-            gridRow: 1, gridColumn: 1, backgroundColor: '#1a1a2e', 
-            position: 'sticky', top: 0, left: 0, zIndex: 10 
-        }} />
-    );
-
-    // Column headers
-    for (let c = 0; c < config.cols; c++) {
-        let colLabel = '';
-        let n = c;
-        while (n >= 0) {
-            colLabel = String.fromCharCode(65 + (n % 26)) + colLabel;
-            n = Math.floor(n / 26) - 1;
+    const handlePointerCancel = useCallback((e: React.PointerEvent) => {
+        activePointersRef.current.delete(e.pointerId);
+        if (activePointersRef.current.size < 2) pinchRef.current = null;
+        if (panRef.current?.id === e.pointerId) panRef.current = null;
+        if (dragSelectRef.current?.id === e.pointerId) {
+            dragSelectRef.current = null;
+            stopEdgeScroll();
         }
-
-        gridElements.push(
-            <div key={`header-col-${c}`} style={{ 
-                gridRow: 1, gridColumn: c + 2, 
-                backgroundColor: '#2d3561', color: '#a0a0a0', 
-                fontSize: 12, display: 'flex', alignItems: 'center', justifyContent: 'center',
-                position: 'sticky', top: 0, zIndex: 5
-            }}>
-                {colLabel}
-            </div>
-        );
-    }
-
-    // Row headers
-    for (let r = 0; r < config.rows; r++) {
-        gridElements.push(
-            <div key={`header-row-${r}`} style={{ 
-                gridRow: r + 2, gridColumn: 1, 
-                backgroundColor: '#2d3561', color: '#a0a0a0', 
-                fontSize: 12, display: 'flex', alignItems: 'center', justifyContent: 'center',
-                position: 'sticky', left: 0, zIndex: 5
-            }}>
-                {r + 1}
-            </div>
-        );
-    }
-
-    // Active Cells Data Loop
-    for (let r = 0; r < config.rows; r++) {
-        for (let c = 0; c < config.cols; c++) {
-            const key = getCellKey(r, c);
-            const cell = cells.get(key);
-            const isSelected = selectedKeys.has(key);
-            const isHighlighted = highlightedCode ? (cell && getCombinedCode(cell) === highlightedCode) : false;
-
-            gridElements.push(
-                <GridCell 
-                    key={key} 
-                    row={r} 
-                    col={c} 
-                    cell={cell} 
-                    isSelected={isSelected} 
-                    isHighlighted={isHighlighted || false} 
-                />
-            );
-        }
-    }
+        if (cellDragRef.current?.id === e.pointerId) cancelCellDrag();
+        cancelTapTracking();
+    }, [stopEdgeScroll, cellDrag]);
 
     return (
-        <div className="grid-scroll-container">
-            <div 
-                className="grid-container"
-                style={{
-                    gridTemplateColumns: `${config.rowHeaderWidth}px repeat(${config.cols}, ${config.cellWidth}px)`,
-                    gridTemplateRows: `${config.headerHeight}px repeat(${config.rows}, ${config.cellHeight}px)`
-                }}
-                onPointerDown={handlePointerDown}
-                onPointerMove={handlePointerMove}
-                onPointerUp={handlePointerUp}
-                onPointerCancel={handlePointerCancel}
-                onContextMenu={(e) => e.preventDefault()}
-            >
-                {gridElements}
+        <div className="grid-viewport">
+            <div className="grid-scroll-container" ref={containerRef} onScroll={handleScroll}>
+                <div
+                    className="grid-canvas-spacer"
+                    style={{
+                        width: Math.max(geometry.width, viewportSize.width),
+                        height: Math.max(geometry.height, viewportSize.height),
+                    }}
+                >
+                    <canvas
+                        ref={canvasRef}
+                        className={`grid-canvas ${isSelectMode ? 'select-mode' : ''}`}
+                        style={{ width: viewportSize.width, height: viewportSize.height }}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerCancel}
+                        onContextMenu={(e) => e.preventDefault()}
+                    />
+                </div>
             </div>
+
+            <Minimap
+                config={config}
+                cells={cells}
+                layout={layout}
+                catalog={catalog}
+                viewport={minimapViewport}
+                highlightedCode={highlightedCode}
+                cellFilter={cellFilter}
+                onNavigate={centerOn}
+            />
         </div>
     );
 });
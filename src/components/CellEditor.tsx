@@ -1,35 +1,45 @@
 import React, { useState, useEffect, useRef } from 'react';
 import {
     CellData,
-    CODE1_OPTIONS,
-    CODE2_OPTIONS,
-    MATERIAL_COLOR_MAP,
-    getMaterialColor,
     getColumnLabel,
+    generateId,
 } from '../types';
+import {
+    MaterialCatalog,
+    findMaterialFamily,
+    getCode2Options,
+    getMaterialColor,
+    getSelectableFamilies,
+} from '../catalog';
 import { saveImage, loadImage, deleteImage } from '../storage';
+import { evaluateQuantity } from '../expression';
+import { LEDGER_REASONS, LEDGER_REASON_LABELS, LedgerMovement, LedgerReason, inferReason } from '../ledger';
+
+type CalcOperator = '+' | '−' | '×' | '÷';
+
+// Keys typed in the quantity field that insert an operator
+const OPERATOR_KEYS: Record<string, CalcOperator> = { '+': '+', '-': '−', '*': '×', '/': '÷' };
 
 interface CellEditorProps {
     isOpen: boolean;
     row: number;
     col: number;
     cell: CellData | null;
-    onSave: (cell: CellData) => void;
+    locationCode: string;
+    catalog: MaterialCatalog;
+    onSave: (cell: CellData, movement: LedgerMovement) => void;
     onDelete: (row: number, col: number) => void;
     onClose: () => void;
 }
 
 
-
-function generateId(): string {
-    return Math.random().toString(36).slice(2) + Date.now().toString(36);
-}
-
 export const CellEditor: React.FC<CellEditorProps> = ({
     isOpen,
     row,
     col,
     cell,
+    locationCode,
+    catalog,
     onSave,
     onDelete,
     onClose,
@@ -46,6 +56,11 @@ export const CellEditor: React.FC<CellEditorProps> = ({
     const [expression, setExpression] = useState('');
     const [currentValue, setCurrentValue] = useState('0');
     const [lastInputType, setLastInputType] = useState<'number' | 'operator'>('number');
+    const [calcError, setCalcError] = useState<string | null>(null);
+
+    // Ledger details of the save ('' picks receive or issue from the quantity change)
+    const [reason, setReason] = useState<LedgerReason | ''>('');
+    const [reference, setReference] = useState('');
 
     // Calculation history: array of step strings like ["4000", "+2000", "+500", "=6500"]
     const [calcHistory, setCalcHistory] = useState<string[]>([]);
@@ -59,10 +74,17 @@ export const CellEditor: React.FC<CellEditorProps> = ({
     const quantityInputRef = useRef<HTMLInputElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // Images uploaded during this editing session. Replaced or removed images are
+    // not deleted here: the saved command orphans them so undo can restore them.
+    const sessionImageIdsRef = useRef<string[]>([]);
+
     // Initialize form when cell changes
     useEffect(() => {
         if (isOpen) {
             const timer = setTimeout(() => setIsReady(true), 250);
+            sessionImageIdsRef.current = [];
+            setReason('');
+            setReference('');
             if (cell) {
                 setCode1(cell.code1);
                 setCode2(cell.code2);
@@ -75,6 +97,7 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                 setExpression('');
                 setCurrentValue(cell.quantity > 0 ? String(cell.quantity) : '0');
                 setLastInputType('number');
+                setCalcError(null);
             } else {
                 setCode1('');
                 setCode2('');
@@ -88,6 +111,7 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                 setExpression('');
                 setCurrentValue('0');
                 setLastInputType('number');
+                setCalcError(null);
             }
             return () => clearTimeout(timer);
         } else {
@@ -111,24 +135,29 @@ export const CellEditor: React.FC<CellEditorProps> = ({
         });
     }, [imageId]);
 
-    function evaluateExpression(expr: string): number {
-        try {
-            const sanitized = expr.replace(/[^0-9+\-.]/g, '');
-            if (!sanitized) return 0;
-            return new Function('return ' + sanitized)() || 0;
-        } catch {
-            return 0;
+    // Delete images uploaded in this session that the saved cell does not keep
+    const discardSessionImages = (keepId?: string) => {
+        for (const id of sessionImageIdsRef.current) {
+            if (id !== keepId) deleteImage(id).catch(() => { /* silent */ });
         }
-    }
+        sessionImageIdsRef.current = [];
+    };
+
+    const handleCancel = () => {
+        discardSessionImages(cell?.imageId);
+        onClose();
+    };
 
     const handleSave = () => {
-        const fullExpr = expression + (currentValue || '0');
-        const finalQuantity = evaluateExpression(fullExpr);
-        let finalHistory = [...calcHistory];
-        
-        if (expression) {
-            finalHistory = [...finalHistory, fullExpr.trim(), `=${finalQuantity}`];
+        const result = evaluateQuantity(expression + (currentValue || '0'));
+        if (!result.ok) {
+            setCalcError(result.error);
+            quantityInputRef.current?.focus();
+            return;
         }
+        const finalQuantity = result.value;
+        // A plain number is not a calculation, so it adds no history steps
+        const finalHistory = result.operatorCount > 0 ? [...calcHistory, ...result.steps] : calcHistory;
 
         const newCell: CellData = {
             row,
@@ -144,23 +173,26 @@ export const CellEditor: React.FC<CellEditorProps> = ({
             isStockHold,
         };
 
-        onSave(newCell);
+        discardSessionImages(imageId);
+        onSave(newCell, {
+            reason: reason || inferReason(cell, newCell),
+            reference: reference.trim() || undefined,
+        });
         onClose();
     };
 
-    const handleDelete = async () => {
-        // Delete image too if exists
-        if (imageId) {
-            try { await deleteImage(imageId); } catch { /* silent */ }
-        }
+    const handleDelete = () => {
+        discardSessionImages(cell?.imageId);
         onDelete(row, col);
         onClose();
     };
 
+    // Typed text is kept as is; evaluateQuantity explains anything it cannot read
     const handleQuantityInput = (e: React.ChangeEvent<HTMLInputElement>) => {
         const val = e.target.value;
+        setCalcError(null);
         if (val.startsWith(expression)) {
-            const remainder = val.slice(expression.length).replace(/[^0-9.]/g, '');
+            const remainder = val.slice(expression.length);
             setCurrentValue(remainder);
             if (remainder === '' && expression !== '') {
                 setLastInputType('operator');
@@ -168,15 +200,16 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                 setLastInputType('number');
             }
         } else {
-            setCurrentValue(val.replace(/[^0-9.]/g, ''));
+            setCurrentValue(val);
             setExpression('');
             setLastInputType('number');
         }
     };
 
-    const handleOperator = (op: '+' | '-') => {
+    const handleOperator = (op: CalcOperator) => {
         if (lastInputType === 'operator') return;
 
+        setCalcError(null);
         setExpression(prev => prev + (currentValue || '0') + ` ${op} `);
         setCurrentValue('');
         setLastInputType('operator');
@@ -186,15 +219,20 @@ export const CellEditor: React.FC<CellEditorProps> = ({
     const handleEquals = () => {
         if (lastInputType === 'operator') return;
 
-        const fullExpr = expression + (currentValue || '0');
-        const result = evaluateExpression(fullExpr);
-        
-        if (expression) {
-            setCalcHistory(prev => [...prev, fullExpr.trim(), `=${result}`]);
+        const result = evaluateQuantity(expression + (currentValue || '0'));
+        if (!result.ok) {
+            setCalcError(result.error);
+            quantityInputRef.current?.focus();
+            return;
+        }
+
+        if (result.operatorCount > 0) {
+            setCalcHistory(prev => [...prev, ...result.steps]);
         }
-        
+
+        setCalcError(null);
         setExpression('');
-        setCurrentValue(String(result));
+        setCurrentValue(String(result.value));
         setLastInputType('number');
         quantityInputRef.current?.focus();
     };
@@ -219,9 +257,9 @@ export const CellEditor: React.FC<CellEditorProps> = ({
         if (e.key === 'Enter' || e.key === '=') {
             e.preventDefault();
             handleEquals();
-        } else if (e.key === '+' || e.key === '-') {
+        } else if (e.key in OPERATOR_KEYS) {
             e.preventDefault();
-            handleOperator(e.key as '+' | '-');
+            handleOperator(OPERATOR_KEYS[e.key]);
         } else if (e.key === 'Backspace') {
             if (currentValue === '' && expression !== '') {
                 e.preventDefault();
@@ -250,12 +288,9 @@ export const CellEditor: React.FC<CellEditorProps> = ({
         const reader = new FileReader();
         reader.onload = async (ev) => {
             const dataUrl = ev.target?.result as string;
-            // Delete old image if replacing
-            if (imageId) {
-                try { await deleteImage(imageId); } catch { /* silent */ }
-            }
             const newId = generateId();
             await saveImage(newId, dataUrl);
+            sessionImageIdsRef.current.push(newId);
             setImageId(newId);
             setImagePreviewUrl(dataUrl);
         };
@@ -265,25 +300,36 @@ export const CellEditor: React.FC<CellEditorProps> = ({
         e.target.value = '';
     };
 
-    const handleRemoveImage = async () => {
-        if (imageId) {
-            try { await deleteImage(imageId); } catch { /* silent */ }
-        }
+    const handleRemoveImage = () => {
         setImageId(undefined);
         setImagePreviewUrl(null);
     };
 
-    const previewColor = getMaterialColor(code1);
+    // Changing the family drops a size it does not allow
+    const handleCode1Change = (value: string) => {
+        setCode1(value);
+        if (code2 && !getCode2Options(catalog, value).includes(code2)) setCode2('');
+    };
+
+    const previewColor = getMaterialColor(code1, catalog);
+    const family = findMaterialFamily(catalog, code1);
+    // A code missing from the catalog (old or imported data) stays selectable on its own cell
+    const unknownCode1 = code1 && !family ? code1 : null;
 
     if (!isOpen) return null;
 
     return (
-        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && handleCancel()}>
             <div className="cell-editor">
                 <div className="editor-header">
-                    <h2>Cell {getColumnLabel(col)}{row + 1}</h2>
+                    <h2>
+                        Cell {locationCode}
+                        {locationCode !== `${getColumnLabel(col)}${row + 1}` && (
+                            <span className="editor-subtitle">{getColumnLabel(col)}{row + 1}</span>
+                        )}
+                    </h2>
                     <div className="editor-header-actions">
-                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="cancel-btn" onClick={handleCancel}>Cancel</button>
                         <button className="save-btn" onClick={handleSave}>Save</button>
                     </div>
                 </div>
@@ -296,7 +342,7 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                             <div className="code-input-wrapper code1-wrapper">
                                 <select
                                     value={code1}
-                                    onChange={(e) => setCode1(e.target.value)}
+                                    onChange={(e) => handleCode1Change(e.target.value)}
                                     className="code1-select"
                                     style={{
                                         backgroundColor: code1 ? previewColor.primary : undefined,
@@ -304,21 +350,20 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                                     }}
                                 >
                                     <option value="">—</option>
-                                    {CODE1_OPTIONS.map((opt) => {
-                                        const optColor = MATERIAL_COLOR_MAP[opt];
-                                        return (
-                                            <option
-                                                key={opt}
-                                                value={opt}
-                                                style={{
-                                                    backgroundColor: optColor?.primary,
-                                                    color: '#000',
-                                                }}
-                                            >
-                                                {opt}
-                                            </option>
-                                        );
-                                    })}
+                                    {getSelectableFamilies(catalog, cell?.code1).map((opt) => (
+                                        <option
+                                            key={opt.code1}
+                                            value={opt.code1}
+                                            title={opt.description}
+                                            style={{
+                                                backgroundColor: opt.primary,
+                                                color: '#000',
+                                            }}
+                                        >
+                                            {opt.code1}{opt.retired ? ' (retired)' : ''}
+                                        </option>
+                                    ))}
+                                    {unknownCode1 && <option value={unknownCode1}>{unknownCode1}</option>}
                                 </select>
                             </div>
 
@@ -329,7 +374,7 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                                     className="code2-select"
                                 >
                                     <option value="">—</option>
-                                    {CODE2_OPTIONS.map((opt) => (
+                                    {getCode2Options(catalog, code1, code2).map((opt) => (
                                         <option key={opt} value={opt}>{opt}</option>
                                     ))}
                                 </select>
@@ -347,28 +392,33 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                                 />
                             </div>
                         </div>
+                        {family?.description && <div className="settings-hint">{family.description}</div>}
                     </div>
 
                     {/* Quantity Section with Calculator */}
                     <div className="form-group">
-                        <label>QUANTITY</label>
+                        <label>QUANTITY{family?.unit && ` (${family.unit.toUpperCase()})`}</label>
                         <div className="quantity-input">
                             <input
                                 ref={quantityInputRef}
                                 type="text"
-                                inputMode="numeric"
+                                inputMode="decimal"
                                 enterKeyHint="done"
                                 value={expression + currentValue}
                                 onChange={handleQuantityInput}
                                 onKeyDown={handleKeyDown}
                                 placeholder="0"
-                                className="quantity-display"
+                                className={`quantity-display ${calcError ? 'invalid' : ''}`}
                             />
                             <button className="quantity-btn" onClick={() => handleOperator('+')} type="button">+</button>
-                            <button className="quantity-btn" onClick={() => handleOperator('-')} type="button">−</button>
+                            <button className="quantity-btn" onClick={() => handleOperator('−')} type="button">−</button>
+                            <button className="quantity-btn" onClick={() => handleOperator('×')} type="button">×</button>
+                            <button className="quantity-btn" onClick={() => handleOperator('÷')} type="button">÷</button>
                             <button className="quantity-btn" onClick={handleEquals} type="button">=</button>
                         </div>
 
+                        {calcError && <div className="dialog-notice error calc-error">{calcError}</div>}
+
                         {/* Quick Number Buttons */}
                         <div className="quick-number-row">
                             <button type="button" className="quantity-btn quick-num-btn" onClick={() => handleQuickNumber('500')}>500</button>
@@ -383,7 +433,7 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                                     {calcHistory.map((step, i) => (
                                         <span
                                             key={i}
-                                            className={`calc-history-step ${step.startsWith('=') ? 'calc-result' : step.startsWith('+') || step.startsWith('-') ? 'calc-op' : 'calc-base'}`}
+                                            className={`calc-history-step ${step.startsWith('=') ? 'calc-result' : /^[+−-]/.test(step) ? 'calc-op' : 'calc-base'}`}
                                         >
                                             {step}
                                         </span>
@@ -405,6 +455,26 @@ export const CellEditor: React.FC<CellEditorProps> = ({
                         )}
                     </div>
 
+                    {/* Ledger Section */}
+                    <div className="form-group">
+                        <label>MOVEMENT</label>
+                        <div className="filter-add-row">
+                            <select value={reason} onChange={(e) => setReason(e.target.value as LedgerReason | '')}>
+                                <option value="">Receive / issue (automatic)</option>
+                                {LEDGER_REASONS.map(r => (
+                                    <option key={r} value={r}>{LEDGER_REASON_LABELS[r]}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                value={reference}
+                                onChange={(e) => setReference(e.target.value)}
+                                placeholder="Reference no."
+                                maxLength={40}
+                            />
+                        </div>
+                    </div>
+
                     {/* Note Section */}
                     <div className="form-group">
                         <label>NOTE</label>
@@ -0,0 +1,118 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CSV_FIELDS, CSV_FIELD_LABELS, CsvField, CsvMapping, guessCsvMapping, validateCsvMapping } from '../csv';
+
+interface CsvImportDialogProps {
+    isOpen: boolean;
+    fileName: string;
+    rows: string[][];  // Parsed CSV, header first
+    onContinue: (mapping: CsvMapping) => void;
+    onClose: () => void;
+}
+
+// How many data rows the preview shows
+const PREVIEW_ROWS = 5;
+
+// Step one of a CSV import: choose which column holds which field. The converted
+// records then go through the same preview as a JSON import.
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({
+    isOpen,
+    fileName,
+    rows,
+    onContinue,
+    onClose,
+}) => {
+    const header = rows[0] ?? [];
+    const [mapping, setMapping] = useState<CsvMapping>({});
+
+    useEffect(() => {
+        if (isOpen) setMapping(guessCsvMapping(rows[0] ?? []));
+    }, [isOpen, rows]);
+
+    const error = useMemo(() => validateCsvMapping(mapping), [mapping]);
+
+    if (!isOpen) return null;
+
+    const setColumn = (field: CsvField, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === '') delete next[field];
+            else next[field] = Number(value);
+            return next;
+        });
+    };
+
+    const dataRows = rows.length - 1;
+    const mappedColumns = CSV_FIELDS
+        .filter(field => mapping[field] !== undefined)
+        .map(field => ({ field, index: mapping[field] as number }));
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Import {fileName}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={() => onContinue(mapping)} disabled={error !== null}>
+                            Next
+                        </button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>COLUMNS</label>
+                        <div className="settings-hint">
+                            {dataRows} row{dataRows === 1 ? '' : 's'} found. Choose the column for each field; either the
+                            three code columns or one Material column is enough.
+                        </div>
+                        <div className="csv-mapping">
+                            {CSV_FIELDS.map(field => (
+                                <label key={field} className="csv-mapping-field">
+                                    <span>{CSV_FIELD_LABELS[field]}</span>
+                                    <select
+                                        value={mapping[field] ?? ''}
+                                        onChange={(e) => setColumn(field, e.target.value)}
+                                    >
+                                        <option value="">— not used —</option>
+                                        {header.map((name, index) => (
+                                            <option key={index} value={index}>{name || `Column ${index + 1}`}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                        {mapping.code1 !== undefined && mapping.material !== undefined && (
+                            <div className="settings-hint">The code columns are used; Material is ignored.</div>
+                        )}
+                        {error && <div className="dialog-notice warning">{error}</div>}
+                    </div>
+
+                    {mappedColumns.length > 0 && (
+                        <div className="form-group">
+                            <label>PREVIEW</label>
+                            <div className="csv-preview">
+                                <table>
+                                    <thead>
+                                        <tr>
+                                            {mappedColumns.map(({ field }) => <th key={field}>{CSV_FIELD_LABELS[field]}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {rows.slice(1, PREVIEW_ROWS + 1).map((row, i) => (
+                                            <tr key={i}>
+                                                {mappedColumns.map(({ field, index }) => <td key={field}>{row[index] ?? ''}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CsvImportDialog;
@@ -0,0 +1,323 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CellData, GridConfig, GridKind, ImageRecord, MapCell } from '../types';
+import { MaterialCatalog, getMaterialColor } from '../catalog';
+import { CellChange } from '../history';
+import { DIFF_KIND_LABELS, DiffItem, DiffKind, DiffSlot, diffInventories, getIncomingImageIds } from '../diff';
+import { SnapshotInfo } from '../snapshot';
+import { loadSnapshotData, loadSnapshots, resolveImportImages } from '../storage';
+import { validateExportFile } from '../schema';
+
+interface DiffDialogProps {
+    isOpen: boolean;
+    mapId: string;
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    layout: Map<string, MapCell>;
+    gridConfig: GridConfig;
+    bufferConfig: GridConfig;
+    catalog: MaterialCatalog;
+    getLocation: (grid: GridKind, row: number, col: number) => string;
+    onApply: (changes: CellChange[], images: ImageRecord[], source: string) => void;
+    onClose: () => void;
+}
+
+// The state being compared against the current map
+interface DiffSource {
+    label: string;
+    cells: CellData[];
+    bufferCells: CellData[];
+    images: ImageRecord[];
+    rejectedCount: number;  // Invalid records of an imported file, left out of the comparison
+}
+
+type GroupBy = 'grid' | 'code';
+
+const GRID_LABELS: Record<GridKind, string> = { main: 'Main grid', buffer: 'Buffer' };
+
+const KIND_ORDER: DiffKind[] = ['added', 'removed', 'moved', 'quantity', 'flags', 'changed'];
+
+export const DiffDialog: React.FC<DiffDialogProps> = ({
+    isOpen,
+    mapId,
+    cells,
+    bufferCells,
+    layout,
+    gridConfig,
+    bufferConfig,
+    catalog,
+    getLocation,
+    onApply,
+    onClose,
+}) => {
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [source, setSource] = useState<DiffSource | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [groupBy, setGroupBy] = useState<GroupBy>('grid');
+    const [rejected, setRejected] = useState<Set<string>>(new Set());
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Start over with the source picker each time the dialog opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setSource(null);
+        setError(null);
+        setRejected(new Set());
+        loadSnapshots(mapId)
+            .then(setSnapshots)
+            .catch(err => console.error('Failed to load snapshots:', err));
+    }, [isOpen, mapId]);
+
+    const diff = useMemo(() => source
+        ? diffInventories({ cells, bufferCells }, source, { main: gridConfig, buffer: bufferConfig }, layout)
+        : null,
+    [source, cells, bufferCells, layout, gridConfig, bufferConfig]);
+
+    const groups = useMemo(() => {
+        const byGroup = new Map<string, DiffItem[]>();
+        for (const item of diff?.items ?? []) {
+            const group = groupBy === 'grid' ? GRID_LABELS[item.grid] : item.code;
+            byGroup.set(group, [...(byGroup.get(group) ?? []), item]);
+        }
+        byGroup.forEach(items => items.sort((a, b) =>
+            KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.code.localeCompare(b.code)
+        ));
+        return Array.from(byGroup.entries()).sort(([a], [b]) => a.localeCompare(b));
+    }, [diff, groupBy]);
+
+    if (!isOpen) return null;
+
+    const items = diff?.items ?? [];
+    const accepted = items.filter(item => !rejected.has(item.id));
+    const counts = KIND_ORDER
+        .map(kind => ({ kind, count: items.filter(item => item.kind === kind).length }))
+        .filter(({ count }) => count > 0);
+
+    const chooseSource = (next: DiffSource) => {
+        setSource(next);
+        setRejected(new Set());
+        setError(null);
+    };
+
+    const handleChooseSnapshot = async (snapshot: SnapshotInfo) => {
+        try {
+            const data = await loadSnapshotData(snapshot.id);
+            if (!data) {
+                setError('This snapshot could not be found');
+                return;
+            }
+            chooseSource({ label: `Snapshot ${new Date(snapshot.timestamp).toLocaleString()}`, ...data, rejectedCount: 0 });
+        } catch (err) {
+            console.error('Failed to load snapshot:', err);
+            setError('Failed to load snapshot');
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        if (!file) return;
+
+        try {
+            const validation = validateExportFile(await file.text(), { gridConfig, bufferConfig, catalog });
+            if (!validation.ok) {
+                setError(`${file.name}: ${validation.error}`);
+                return;
+            }
+            // Like an import: a file image whose id belongs to a different local picture gets its own id
+            const { cells: fileCells, bufferCells: fileBufferCells, images } = await resolveImportImages(validation.file);
+            chooseSource({
+                label: file.name,
+                cells: fileCells,
+                bufferCells: fileBufferCells,
+                images,
+                rejectedCount: validation.rejected.length,
+            });
+        } catch (err) {
+            console.error('Failed to read file:', err);
+            setError(`Failed to read ${file.name}`);
+        }
+    };
+
+    const toggle = (id: string) => {
+        setRejected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleApply = () => {
+        if (!source || accepted.length === 0) return;
+        const changes = accepted.flatMap(item => item.changes);
+        const imageIds = getIncomingImageIds(changes);
+        onApply(changes, source.images.filter(img => imageIds.has(img.id)), source.label);
+    };
+
+    const describeSlot = (slot: DiffSlot) =>
+        `${slot.grid === 'buffer' ? '📦 ' : ''}${getLocation(slot.grid, slot.row, slot.col)}`;
+
+    const describePlace = (item: DiffItem) => {
+        if (item.from && item.to && item.kind === 'moved') return `${describeSlot(item.from)} → ${describeSlot(item.to)}`;
+        return describeSlot((item.to ?? item.from)!);
+    };
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog diff-dialog">
+                <div className="editor-header">
+                    <h2>Compare</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        {source && (
+                            <button className="save-btn" onClick={handleApply} disabled={accepted.length === 0}>
+                                Apply {accepted.length}
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    {error && <div className="dialog-notice error">{error}</div>}
+
+                    {!source ? (
+                        <>
+                            <div className="form-group">
+                                <label>COMPARE WITH A FILE</label>
+                                <button type="button" className="filter-add-btn" onClick={() => fileInputRef.current?.click()}>
+                                    Choose exported JSON file…
+                                </button>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".json"
+                                    onChange={handleFileChange}
+                                    style={{ display: 'none' }}
+                                />
+                            </div>
+
+                            <div className="form-group">
+                                <label>OR A SNAPSHOT</label>
+                                <div className="snapshot-list">
+                                    {snapshots.length === 0 ? (
+                                        <div className="empty-summary">No snapshots yet</div>
+                                    ) : snapshots.map(snapshot => (
+                                        <div key={snapshot.id} className="snapshot-row">
+                                            <div className="snapshot-info">
+                                                <span className="snapshot-date">{new Date(snapshot.timestamp).toLocaleString()}</span>
+                                                <span className="snapshot-meta">
+                                                    {snapshot.cellCount} cells · qty {snapshot.totalQuantity.toLocaleString()}
+                                                </span>
+                                            </div>
+                                            <button className="snapshot-restore-btn" onClick={() => handleChooseSnapshot(snapshot)}>
+                                                Compare
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div className="diff-source">
+                                <span>Current map ↔ <strong>{source.label}</strong></span>
+                                <button type="button" className="filter-add-btn" onClick={() => setSource(null)}>Change</button>
+                            </div>
+
+                            {source.rejectedCount > 0 && (
+                                <div className="dialog-notice warning">
+                                    {source.rejectedCount} invalid record{source.rejectedCount === 1 ? '' : 's'} in the file {source.rejectedCount === 1 ? 'is' : 'are'} left out; import the file to see why.
+                                </div>
+                            )}
+
+                            {diff && diff.outOfBounds > 0 && (
+                                <div className="dialog-notice warning">
+                                    {diff.outOfBounds} cell{diff.outOfBounds === 1 ? '' : 's'} outside the current grid size {diff.outOfBounds === 1 ? 'is' : 'are'} ignored.
+                                </div>
+                            )}
+                            {diff && diff.blocked > 0 && (
+                                <div className="dialog-notice warning">
+                                    {diff.blocked} cell{diff.blocked === 1 ? '' : 's'} on a wall or text label {diff.blocked === 1 ? 'is' : 'are'} ignored.
+                                </div>
+                            )}
+
+                            {items.length === 0 ? (
+                                <div className="empty-summary">No differences</div>
+                            ) : (
+                                <>
+                                    <div className="diff-counts">
+                                        {counts.map(({ kind, count }) => (
+                                            <span key={kind} className={`diff-kind diff-kind-${kind}`}>
+                                                {DIFF_KIND_LABELS[kind]} {count}
+                                            </span>
+                                        ))}
+                                    </div>
+
+                                    <div className="diff-controls">
+                                        <div className="filter-options">
+                                            <button
+                                                type="button"
+                                                className={`filter-option ${groupBy === 'grid' ? 'active' : ''}`}
+                                                onClick={() => setGroupBy('grid')}
+                                            >
+                                                By grid
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className={`filter-option ${groupBy === 'code' ? 'active' : ''}`}
+                                                onClick={() => setGroupBy('code')}
+                                            >
+                                                By code
+                                            </button>
+                                        </div>
+                                        <div className="filter-options">
+                                            <button type="button" className="filter-option" onClick={() => setRejected(new Set())}>
+                                                Accept all
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className="filter-option"
+                                                onClick={() => setRejected(new Set(items.map(item => item.id)))}
+                                            >
+                                                Reject all
+                                            </button>
+                                        </div>
+                                    </div>
+
+                                    <div className="diff-list">
+                                        {groups.map(([group, groupItems]) => (
+                                            <div key={group} className="diff-group">
+                                                <div className="diff-group-header">
+                                                    {group} <span className="diff-group-count">{groupItems.length}</span>
+                                                </div>
+                                                {groupItems.map(item => (
+                                                    <label key={item.id} className={`diff-row ${rejected.has(item.id) ? 'rejected' : ''}`}>
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!rejected.has(item.id)}
+                                                            onChange={() => toggle(item.id)}
+                                                        />
+                                                        <span className={`diff-kind diff-kind-${item.kind}`}>{DIFF_KIND_LABELS[item.kind]}</span>
+                                                        <span className="diff-code" style={{ color: getMaterialColor(item.code1, catalog).primary }}>
+                                                            {item.code}
+                                                        </span>
+                                                        <span className="diff-place">{describePlace(item)}</span>
+                                                        {item.details.length > 0 && (
+                                                            <span className="diff-details">{item.details.join(' · ')}</span>
+                                                        )}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DiffDialog;
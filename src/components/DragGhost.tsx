@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import ReactDOM from 'react-dom';
+import { getBoundingRange, getCellKey } from '../types';
+import { MaterialCatalog, getMaterialColor } from '../catalog';
+import { CellDragSource } from '../cellMove';
+
+interface DragGhostProps {
+    source: CellDragSource;
+    x: number;
+    y: number;
+    catalog: MaterialCatalog;
+    status: string | null;  // Why the cells cannot be dropped here
+}
+
+// Largest side of the ghost's miniature, in px
+const GHOST_SIZE = 140;
+const GHOST_CELL_MAX = 28;
+const GHOST_OFFSET = 16;
+
+// Miniature of the dragged cells that follows the pointer
+export const DragGhost: React.FC<DragGhostProps> = ({ source, x, y, catalog, status }) => {
+    const shape = useMemo(() => {
+        const range = getBoundingRange(source.cells.map(c => getCellKey(c.row, c.col)));
+        if (!range) return null;
+        const rows = range.endRow - range.startRow + 1;
+        const cols = range.endCol - range.startCol + 1;
+        const size = Math.max(4, Math.min(GHOST_CELL_MAX, Math.floor(GHOST_SIZE / Math.max(rows, cols))));
+        return { range, rows, cols, size };
+    }, [source]);
+
+    if (!shape) return null;
+    const { range, rows, cols, size } = shape;
+    const single = source.cells.length === 1 ? source.cells[0] : null;
+
+    return ReactDOM.createPortal(
+        <div
+            className={`drag-ghost ${status ? 'invalid' : ''}`}
+            style={{ left: x + GHOST_OFFSET, top: y + GHOST_OFFSET }}
+        >
+            <div className="drag-ghost-shape" style={{ width: cols * size, height: rows * size }}>
+                {source.cells.map(cell => {
+                    const color = getMaterialColor(cell.code1, catalog);
+                    return (
+                        <div
+                            key={getCellKey(cell.row, cell.col)}
+                            className="drag-ghost-cell"
+                            style={{
+                                left: (cell.col - range.startCol) * size,
+                                top: (cell.row - range.startRow) * size,
+                                width: size,
+                                height: size,
+                                backgroundColor: color.background,
+                                borderColor: color.primary,
+                            }}
+                        />
+                    );
+                })}
+            </div>
+            <div className="drag-ghost-label">
+                {single ? `${single.code1}${single.code2} · ${single.quantity}` : `${source.cells.length} cells`}
+            </div>
+            {status && <div className="drag-ghost-status">{status}</div>}
+        </div>,
+        document.body
+    );
+};
+
+export default DragGhost;
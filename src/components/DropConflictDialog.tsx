@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import {
+    DROP_CONFLICT_MODE_HINTS,
+    DROP_CONFLICT_MODE_LABELS,
+    DropConflictMode,
+    MERGE_IMAGE_CHOICE_LABELS,
+    MergeImageChoice,
+} from '../cellMove';
+
+interface DropConflictDialogProps {
+    isOpen: boolean;
+    cellCount: number;   // Cells being dropped
+    collisions: number;  // Of those, cells landing on stock
+    canMerge: boolean;   // Merging needs the same material on both sides
+    imageConflicts: number;  // Merges where both cells have a photo
+    onResolve: (mode: DropConflictMode, keepImage: MergeImageChoice) => void;
+    onClose: () => void;
+}
+
+const MODES: DropConflictMode[] = ['swap', 'merge'];
+const IMAGE_CHOICES: MergeImageChoice[] = ['occupant', 'moved'];
+
+// Asked when dragged cells are dropped onto slots that already hold stock
+export const DropConflictDialog: React.FC<DropConflictDialogProps> = ({
+    isOpen,
+    cellCount,
+    collisions,
+    canMerge,
+    imageConflicts,
+    onResolve,
+    onClose,
+}) => {
+    const [mode, setMode] = useState<DropConflictMode>('swap');
+    const [keepImage, setKeepImage] = useState<MergeImageChoice>('occupant');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setMode(canMerge ? 'merge' : 'swap');
+        setKeepImage('occupant');
+    }, [isOpen, canMerge]);
+
+    if (!isOpen) return null;
+
+    const occupied = cellCount === 1
+        ? 'The target slot already holds stock.'
+        : `${collisions} of ${cellCount} target slots already hold stock.`;
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Drop on Stock</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={() => onResolve(mode, keepImage)}>
+                            {DROP_CONFLICT_MODE_LABELS[mode]}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>OCCUPIED</label>
+                        <div className="settings-hint">{occupied}</div>
+                        <div className="filter-options">
+                            {MODES.map(m => (
+                                <button
+                                    key={m}
+                                    type="button"
+                                    className={`filter-option ${mode === m ? 'active' : ''}`}
+                                    onClick={() => setMode(m)}
+                                    disabled={m === 'merge' && !canMerge}
+                                >
+                                    {DROP_CONFLICT_MODE_LABELS[m]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="settings-hint">{DROP_CONFLICT_MODE_HINTS[mode]}</div>
+                        {!canMerge && (
+                            <div className="dialog-notice warning">
+                                Quantities can only be merged onto the same material.
+                            </div>
+                        )}
+                    </div>
+
+                    {mode === 'merge' && imageConflicts > 0 && (
+                        <div className="form-group">
+                            <label>PHOTO</label>
+                            <div className="settings-hint">
+                                {imageConflicts === 1
+                                    ? 'Both cells have a photo, and a cell keeps only one.'
+                                    : `${imageConflicts} merges have a photo on both sides, and a cell keeps only one.`}
+                                {' '}Keep the photo of:
+                            </div>
+                            <div className="filter-options">
+                                {IMAGE_CHOICES.map(c => (
+                                    <button
+                                        key={c}
+                                        type="button"
+                                        className={`filter-option ${keepImage === c ? 'active' : ''}`}
+                                        onClick={() => setKeepImage(c)}
+                                    >
+                                        {MERGE_IMAGE_CHOICE_LABELS[c]}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="dialog-notice warning">
+                                The other photo is deleted unless another cell uses it. Undo brings it back.
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DropConflictDialog;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CellFilter, describeFilter, getFilterKey } from '../filter';
+
+interface FilterBarProps {
+    filters: CellFilter[];
+    matchCount: number;
+    onRemove: (filter: CellFilter) => void;
+    onEdit: () => void;
+    onClear: () => void;
+}
+
+// Active filter criteria as removable chips
+export const FilterBar: React.FC<FilterBarProps> = ({
+    filters,
+    matchCount,
+    onRemove,
+    onEdit,
+    onClear,
+}) => {
+    if (filters.length === 0) return null;
+
+    return (
+        <div className="filter-bar">
+            <span className="filter-bar-label">Filter</span>
+            <div className="filter-chips">
+                {filters.map(f => (
+                    <span key={getFilterKey(f)} className="filter-chip">
+                        {describeFilter(f)}
+                        <button onClick={() => onRemove(f)} title="Remove">✕</button>
+                    </span>
+                ))}
+            </div>
+            <span className="filter-bar-count">{matchCount} cell{matchCount === 1 ? '' : 's'}</span>
+            <button className="filter-bar-btn" onClick={onEdit}>Edit</button>
+            <button className="filter-bar-btn" onClick={onClear}>Clear</button>
+        </div>
+    );
+};
+
+export default FilterBar;
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CellData, cellHasContent, getCombinedCode } from '../types';
+import { MaterialCatalog, getSelectableFamilies } from '../catalog';
+import { CellFilter, getFilterKey } from '../filter';
+import { parseQuantityFilter } from '../search';
+
+interface FilterDialogProps {
+    isOpen: boolean;
+    filters: CellFilter[];
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    catalog: MaterialCatalog;
+    onApply: (filters: CellFilter[]) => void;
+    onClose: () => void;
+}
+
+type FlagKind = 'stockHold' | 'hasNote' | 'hasImage';
+
+const FLAG_LABELS: Record<FlagKind, string> = {
+    stockHold: 'Stock hold only',
+    hasNote: 'Has a note',
+    hasImage: 'Has an image',
+};
+
+const FLAGS: FlagKind[] = ['stockHold', 'hasNote', 'hasImage'];
+
+// Accept ">500" as shorthand for "qty>500"
+function normalizeQuantityExpression(text: string): string {
+    const trimmed = text.trim();
+    return /^(qty|q)/i.test(trimmed) ? trimmed : `qty${/^\d/.test(trimmed) ? ' ' : ''}${trimmed}`;
+}
+
+export const FilterDialog: React.FC<FilterDialogProps> = ({
+    isOpen,
+    filters,
+    cells,
+    bufferCells,
+    catalog,
+    onApply,
+    onClose,
+}) => {
+    const [draft, setDraft] = useState<CellFilter[]>(filters);
+    const [combinedCode, setCombinedCode] = useState('');
+    const [quantity, setQuantity] = useState('');
+
+    // Start from the active filters each time the dialog opens
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(filters);
+            setCombinedCode('');
+            setQuantity('');
+        }
+    }, [isOpen, filters]);
+
+    // Families and codes currently in use on either grid
+    const { families, codes } = useMemo(() => {
+        const familySet = new Set<string>(getSelectableFamilies(catalog).map(f => f.code1));
+        const codeSet = new Set<string>();
+        [cells, bufferCells].forEach(map => map.forEach(cell => {
+            if (!cellHasContent(cell) || !cell.code1) return;
+            familySet.add(cell.code1);
+            codeSet.add(getCombinedCode(cell));
+        }));
+        return {
+            families: Array.from(familySet),
+            codes: Array.from(codeSet).sort((a, b) => a.localeCompare(b)),
+        };
+    }, [cells, bufferCells, catalog]);
+
+    if (!isOpen) return null;
+
+    const draftKeys = new Set(draft.map(getFilterKey));
+    const has = (filter: CellFilter) => draftKeys.has(getFilterKey(filter));
+
+    const toggle = (filter: CellFilter) => {
+        const key = getFilterKey(filter);
+        setDraft(prev => has(filter) ? prev.filter(f => getFilterKey(f) !== key) : [...prev, filter]);
+    };
+
+    const add = (filter: CellFilter) => {
+        if (!has(filter)) setDraft(prev => [...prev, filter]);
+    };
+
+    const quantityExpression = normalizeQuantityExpression(quantity);
+    const quantityValid = !!quantity.trim() && !!parseQuantityFilter(quantityExpression);
+
+    const handleAddQuantity = () => {
+        if (!quantityValid) return;
+        add({ kind: 'quantity', expression: quantityExpression });
+        setQuantity('');
+    };
+
+    const handleAddCode = () => {
+        if (!combinedCode) return;
+        add({ kind: 'combined', code: combinedCode });
+        setCombinedCode('');
+    };
+
+    const handleApply = () => {
+        onApply(draft);
+        onClose();
+    };
+
+    const otherFilters = draft.filter(f => f.kind === 'combined' || f.kind === 'quantity');
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Filter</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={handleApply}>Apply</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>MATERIAL FAMILY</label>
+                        <div className="filter-options">
+                            {families.map(code1 => (
+                                <button
+                                    key={code1}
+                                    type="button"
+                                    className={`filter-option ${has({ kind: 'code1', code1 }) ? 'active' : ''}`}
+                                    onClick={() => toggle({ kind: 'code1', code1 })}
+                                >
+                                    {code1}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label>MATERIAL CODE</label>
+                        <div className="filter-add-row">
+                            <select value={combinedCode} onChange={(e) => setCombinedCode(e.target.value)}>
+                                <option value="">Choose a code…</option>
+                                {codes.map(code => <option key={code} value={code}>{code}</option>)}
+                            </select>
+                            <button type="button" className="filter-add-btn" onClick={handleAddCode} disabled={!combinedCode}>
+                                Add
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label>QUANTITY</label>
+                        <div className="filter-add-row">
+                            <input
+                                type="text"
+                                value={quantity}
+                                onChange={(e) => setQuantity(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleAddQuantity()}
+                                placeholder=">500, <=10 or 100-200"
+                            />
+                            <button type="button" className="filter-add-btn" onClick={handleAddQuantity} disabled={!quantityValid}>
+                                Add
+                            </button>
+                        </div>
+                    </div>
+
+                    {otherFilters.length > 0 && (
+                        <div className="filter-chips filter-draft-chips">
+                            {otherFilters.map(f => (
+                                <span key={getFilterKey(f)} className="filter-chip">
+                                    {f.kind === 'combined' ? f.code : f.expression}
+                                    <button onClick={() => toggle(f)} title="Remove">✕</button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="form-group">
+                        <label>FLAGS</label>
+                        {FLAGS.map(kind => (
+                            <label key={kind} className="filter-check">
+                                <input
+                                    type="checkbox"
+                                    checked={has({ kind })}
+                                    onChange={() => toggle({ kind })}
+                                />
+                                {FLAG_LABELS[kind]}
+                            </label>
+                        ))}
+                    </div>
+
+                    <div className="settings-hint">
+                        Choices of the same kind widen the filter (S or F); different kinds narrow it (S and qty&gt;500).
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FilterDialog;
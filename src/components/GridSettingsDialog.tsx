@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CellData, GridConfig, WarehouseMap, getColumnLabel } from '../types';
+import { planGridResize } from '../placement';
+import {
+    DEFAULT_LOCATION_PATTERN,
+    LOCATION_PATTERN_TOKENS,
+    formatLocationPattern,
+    isPatternUnique,
+} from '../location';
+
+export interface GridSettings {
+    config: GridConfig;
+    bufferConfig: GridConfig;
+    locationPattern: string;
+    zone: string;
+}
+
+interface GridSettingsDialogProps {
+    isOpen: boolean;
+    map: WarehouseMap;
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    onApply: (settings: GridSettings) => void;
+    onClose: () => void;
+}
+
+type DimensionField = 'rows' | 'cols' | 'cellWidth' | 'cellHeight';
+
+// Allowed range per field
+const LIMITS: Record<DimensionField, { min: number; max: number; label: string }> = {
+    rows: { min: 1, max: 500, label: 'Rows' },
+    cols: { min: 1, max: 500, label: 'Columns' },
+    cellWidth: { min: 40, max: 300, label: 'Cell width (px)' },
+    cellHeight: { min: 30, max: 200, label: 'Cell height (px)' },
+};
+
+const FIELDS: DimensionField[] = ['rows', 'cols', 'cellWidth', 'cellHeight'];
+
+// How many cut-off cells to list by name before summarising
+const MAX_LISTED = 12;
+
+type DimensionValues = Record<DimensionField, string>;
+
+function toValues(config: GridConfig): DimensionValues {
+    return {
+        rows: String(config.rows),
+        cols: String(config.cols),
+        cellWidth: String(config.cellWidth),
+        cellHeight: String(config.cellHeight),
+    };
+}
+
+// Parse form values onto a base config; null if any value is out of range
+function toConfig(base: GridConfig, values: DimensionValues): GridConfig | null {
+    const next = { ...base };
+    for (const field of FIELDS) {
+        const n = Number(values[field]);
+        const { min, max } = LIMITS[field];
+        if (!Number.isInteger(n) || n < min || n > max) return null;
+        next[field] = n;
+    }
+    return next;
+}
+
+function formatLocation(cell: CellData): string {
+    return `${getColumnLabel(cell.col)}${cell.row + 1}`;
+}
+
+export const GridSettingsDialog: React.FC<GridSettingsDialogProps> = ({
+    isOpen,
+    map,
+    cells,
+    bufferCells,
+    onApply,
+    onClose,
+}) => {
+    const [mainValues, setMainValues] = useState<DimensionValues>(() => toValues(map.config));
+    const [bufferValues, setBufferValues] = useState<DimensionValues>(() => toValues(map.bufferConfig));
+    const [locationPattern, setLocationPattern] = useState(map.locationPattern ?? '');
+    const [zone, setZone] = useState(map.zone ?? '');
+
+    // Reset form whenever the dialog opens or the map changes
+    useEffect(() => {
+        if (isOpen) {
+            setMainValues(toValues(map.config));
+            setBufferValues(toValues(map.bufferConfig));
+            setLocationPattern(map.locationPattern ?? '');
+            setZone(map.zone ?? '');
+        }
+    }, [isOpen, map]);
+
+    const config = useMemo(() => toConfig(map.config, mainValues), [map.config, mainValues]);
+    const bufferConfig = useMemo(() => toConfig(map.bufferConfig, bufferValues), [map.bufferConfig, bufferValues]);
+
+    const plan = useMemo(() => {
+        if (!config || !bufferConfig) return null;
+        return planGridResize(cells, bufferCells, config, bufferConfig);
+    }, [cells, bufferCells, config, bufferConfig]);
+
+    if (!isOpen) return null;
+
+    const overflow = plan
+        ? [...plan.mainOverflow.map(formatLocation), ...plan.bufferOverflow.map(c => `Buffer ${formatLocation(c)}`)]
+        : [];
+    const canApply = !!config && !!bufferConfig && !!plan && plan.fits;
+
+    const effectivePattern = locationPattern.trim() || DEFAULT_LOCATION_PATTERN;
+    const previewRows = config?.rows ?? map.config.rows;
+    const previewCols = config?.cols ?? map.config.cols;
+    const preview = (row: number, col: number) =>
+        formatLocationPattern(effectivePattern, row, col, zone.trim(), map.name);
+
+    const handleApply = () => {
+        if (!canApply) return;
+        onApply({
+            config: config!,
+            bufferConfig: bufferConfig!,
+            locationPattern: locationPattern.trim(),
+            zone: zone.trim(),
+        });
+        onClose();
+    };
+
+    const renderFields = (
+        values: DimensionValues,
+        setValues: React.Dispatch<React.SetStateAction<DimensionValues>>
+    ) => (
+        <div className="settings-fields">
+            {FIELDS.map(field => {
+                const { min, max, label } = LIMITS[field];
+                const n = Number(values[field]);
+                const invalid = !Number.isInteger(n) || n < min || n > max;
+                return (
+                    <label key={field} className="settings-field">
+                        <span>{label}</span>
+                        <input
+                            type="number"
+                            inputMode="numeric"
+                            min={min}
+                            max={max}
+                            value={values[field]}
+                            className={invalid ? 'invalid' : ''}
+                            onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                        />
+                    </label>
+                );
+            })}
+        </div>
+    );
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Grid Settings · {map.name}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={handleApply} disabled={!canApply}>
+                            {overflow.length > 0 ? 'Move & Apply' : 'Apply'}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>MAIN GRID</label>
+                        {renderFields(mainValues, setMainValues)}
+                    </div>
+
+                    <div className="form-group">
+                        <label>BUFFER GRID</label>
+                        {renderFields(bufferValues, setBufferValues)}
+                    </div>
+
+                    <div className="form-group">
+                        <label>LOCATION CODES</label>
+                        <div className="settings-fields">
+                            <label className="settings-field">
+                                <span>Pattern</span>
+                                <input
+                                    type="text"
+                                    value={locationPattern}
+                                    onChange={(e) => setLocationPattern(e.target.value)}
+                                    placeholder={DEFAULT_LOCATION_PATTERN}
+                                />
+                            </label>
+                            <label className="settings-field">
+                                <span>Zone</span>
+                                <input
+                                    type="text"
+                                    value={zone}
+                                    onChange={(e) => setZone(e.target.value.toUpperCase())}
+                                    placeholder="e.g. Y1"
+                                    maxLength={12}
+                                />
+                            </label>
+                        </div>
+                        <div className="settings-hint">
+                            Tokens: {LOCATION_PATTERN_TOKENS.join(' ')} — add a width to pad, e.g. {'{row:02}'}.
+                            Codes set on single cells in Edit Layout take precedence.
+                        </div>
+                        <div className="settings-hint">
+                            Preview: {preview(0, 0)} … {preview(previewRows - 1, previewCols - 1)}
+                        </div>
+                        {!isPatternUnique(effectivePattern) && (
+                            <div className="dialog-notice warning">
+                                This pattern has no row or column token, so several cells will share a code.
+                            </div>
+                        )}
+                    </div>
+
+                    {(!config || !bufferConfig) && (
+                        <div className="dialog-notice error">
+                            Rows and columns must be 1–500, cell width 40–300 and cell height 30–200.
+                        </div>
+                    )}
+
+                    {plan && overflow.length > 0 && (
+                        <div className={`dialog-notice ${plan.fits ? 'warning' : 'error'}`}>
+                            <p>
+                                {overflow.length} occupied cell{overflow.length > 1 ? 's' : ''} would fall outside the new size:{' '}
+                                {overflow.slice(0, MAX_LISTED).join(', ')}
+                                {overflow.length > MAX_LISTED && ` and ${overflow.length - MAX_LISTED} more`}.
+                            </p>
+                            {plan.fits ? (
+                                <p>Applying moves them into free buffer slots.</p>
+                            ) : (
+                                <p>
+                                    The buffer only has room for {plan.targets.length} of them.
+                                    Enlarge the buffer or clear those cells first.
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GridSettingsDialog;
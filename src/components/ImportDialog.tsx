@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CELL_TYPE_LABELS, CellData, GridConfig, GridKind, MapCell, getCombinedCode } from '../types';
+import { MaterialCatalog, getMaterialColor } from '../catalog';
+import { IMPORT_MODE_HINTS, IMPORT_MODE_LABELS, ImportMode, ImportPlan, planImport } from '../importer';
+import { EXPORT_SECTION_LABELS, ParsedExport, RejectedRecord } from '../schema';
+
+interface ImportDialogProps {
+    isOpen: boolean;
+    fileName: string;
+    file: ParsedExport | null;
+    rejected: RejectedRecord[];  // Records that failed validation
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    layout: Map<string, MapCell>;
+    gridConfig: GridConfig;
+    bufferConfig: GridConfig;
+    catalog: MaterialCatalog;
+    getLocation: (grid: GridKind, row: number, col: number) => string;
+    onImport: (plan: ImportPlan) => void;
+    onClose: () => void;
+}
+
+const MODES: ImportMode[] = ['merge-keep', 'merge-overwrite', 'replace'];
+
+// How many conflicts and rejected records the preview lists before summarising
+const MAX_LISTED = 100;
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({
+    isOpen,
+    fileName,
+    file,
+    rejected,
+    cells,
+    bufferCells,
+    layout,
+    gridConfig,
+    bufferConfig,
+    catalog,
+    getLocation,
+    onImport,
+    onClose,
+}) => {
+    // The safest mode is preselected; replacing has to be chosen on purpose
+    const [mode, setMode] = useState<ImportMode>('merge-keep');
+    // Importing a file with rejected records has to be confirmed explicitly
+    const [onlyValid, setOnlyValid] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setMode('merge-keep');
+            setOnlyValid(false);
+        }
+    }, [isOpen, file]);
+
+    // Dry run: nothing is written until Import is pressed
+    const plan = useMemo(() => file
+        ? planImport(
+            { cells, bufferCells },
+            file,
+            mode,
+            { main: gridConfig, buffer: bufferConfig },
+            { current: layout, incoming: file.layout }
+        )
+        : null,
+    [file, cells, bufferCells, layout, mode, gridConfig, bufferConfig]);
+
+    if (!isOpen || !file || !plan) return null;
+
+    const describeCell = (cell: CellData) => (
+        <span style={{ color: getMaterialColor(cell.code1, catalog).primary }}>
+            {getCombinedCode(cell)} · {cell.quantity}{cell.isStockHold ? ' · hold' : ''}
+        </span>
+    );
+
+    const describeSlot = (slot: MapCell | null) =>
+        slot?.labelText ? `${CELL_TYPE_LABELS[slot.type]} "${slot.labelText}"` : CELL_TYPE_LABELS[slot?.type ?? 'active'];
+
+    const fileWins = mode !== 'merge-keep';
+    const canImport = rejected.length === 0 || onlyValid;
+    const validCount = file.cells.length + file.bufferCells.length + (file.layout?.length ?? 0) +
+        file.images.length + file.catalog.length;
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Import {fileName}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={() => onImport(plan)} disabled={!canImport}>Import</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    {rejected.length > 0 && (
+                        <div className="form-group">
+                            <label>REJECTED RECORDS</label>
+                            <div className="dialog-notice error">
+                                {rejected.length} record{rejected.length === 1 ? '' : 's'} in this file {rejected.length === 1 ? 'is' : 'are'} invalid
+                                and will not be imported.
+                            </div>
+                            <div className="import-rejections">
+                                {rejected.slice(0, MAX_LISTED).map(record => (
+                                    <div key={`${record.section}:${record.label}`} className="import-rejection">
+                                        <span className="import-rejection-record">
+                                            {EXPORT_SECTION_LABELS[record.section]} {record.label}
+                                        </span>
+                                        <span>{record.reason}</span>
+                                    </div>
+                                ))}
+                                {rejected.length > MAX_LISTED && (
+                                    <div className="search-more">{rejected.length - MAX_LISTED} more rejected records</div>
+                                )}
+                            </div>
+                            <label className="filter-check">
+                                <input
+                                    type="checkbox"
+                                    checked={onlyValid}
+                                    onChange={(e) => setOnlyValid(e.target.checked)}
+                                    disabled={validCount === 0}
+                                />
+                                Import only the {validCount} valid record{validCount === 1 ? '' : 's'}
+                            </label>
+                        </div>
+                    )}
+
+                    <div className="form-group">
+                        <label>MODE</label>
+                        <div className="filter-options">
+                            {MODES.map(m => (
+                                <button
+                                    key={m}
+                                    type="button"
+                                    className={`filter-option ${mode === m ? 'active' : ''}`}
+                                    onClick={() => setMode(m)}
+                                >
+                                    {IMPORT_MODE_LABELS[m]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="settings-hint">{IMPORT_MODE_HINTS[mode]}</div>
+                    </div>
+
+                    <div className="form-group">
+                        <label>PREVIEW</label>
+                        <div className="import-counts">
+                            <span>{plan.added} new</span>
+                            <span>{plan.conflicts.length} conflict{plan.conflicts.length === 1 ? '' : 's'} ({fileWins ? 'file wins' : 'kept'})</span>
+                            <span>{plan.unchanged} unchanged</span>
+                            {mode === 'replace' && <span>{plan.removed} removed</span>}
+                            {file.layout && <span>{plan.layoutChanges.length} layout change{plan.layoutChanges.length === 1 ? '' : 's'}</span>}
+                        </div>
+
+                        {mode === 'replace' && plan.removed > 0 && (
+                            <div className="dialog-notice warning">
+                                {plan.removed} cell{plan.removed === 1 ? '' : 's'} not in the file will be removed from this map.
+                            </div>
+                        )}
+                        {plan.outOfBounds > 0 && (
+                            <div className="dialog-notice warning">
+                                {plan.outOfBounds} cell{plan.outOfBounds === 1 ? '' : 's'} outside the current grid size will be skipped.
+                            </div>
+                        )}
+                        {plan.blocked > 0 && (
+                            <div className="dialog-notice warning">
+                                {plan.blocked} cell{plan.blocked === 1 ? '' : 's'} on a wall or text label will be skipped.
+                            </div>
+                        )}
+                        {plan.layoutSkipped > 0 && (
+                            <div className="dialog-notice warning">
+                                {plan.layoutSkipped} wall{plan.layoutSkipped === 1 ? '' : 's'} or label{plan.layoutSkipped === 1 ? '' : 's'} from
+                                the file will be left out because stock stays in {plan.layoutSkipped === 1 ? 'that slot' : 'those slots'}.
+                            </div>
+                        )}
+                        {file.layout && (
+                            <div className="settings-hint">
+                                {mode === 'replace'
+                                    ? 'The file\'s layout replaces this map\'s layout.'
+                                    : 'Layout cells from the file are merged the same way.'}
+                            </div>
+                        )}
+                    </div>
+
+                    {plan.conflicts.length > 0 && (
+                        <div className="form-group">
+                            <label>CONFLICTS</label>
+                            <div className="import-conflicts">
+                                {plan.conflicts.slice(0, MAX_LISTED).map(conflict => (
+                                    <div key={`${conflict.grid}:${conflict.row}-${conflict.col}`} className="import-conflict">
+                                        <span className="diff-place">
+                                            {conflict.grid === 'buffer' ? '📦 ' : ''}{getLocation(conflict.grid, conflict.row, conflict.col)}
+                                        </span>
+                                        <span className={fileWins ? 'import-loser' : 'import-winner'}>
+                                            Mine: {describeCell(conflict.existing)}
+                                        </span>
+                                        <span className={fileWins ? 'import-winner' : 'import-loser'}>
+                                            File: {describeCell(conflict.incoming)}
+                                        </span>
+                                    </div>
+                                ))}
+                                {plan.conflicts.length > MAX_LISTED && (
+                                    <div className="search-more">
+                                        {plan.conflicts.length - MAX_LISTED} more conflicts
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {plan.layoutChanges.length > 0 && (
+                        <div className="form-group">
+                            <label>LAYOUT</label>
+                            <div className="import-conflicts">
+                                {plan.layoutChanges.slice(0, MAX_LISTED).map(change => (
+                                    <div key={`${change.row}-${change.col}`} className="import-conflict">
+                                        <span className="diff-place">{getLocation('main', change.row, change.col)}</span>
+                                        <span className="import-loser">Mine: {describeSlot(change.before)}</span>
+                                        <span className="import-winner">File: {describeSlot(change.after)}</span>
+                                    </div>
+                                ))}
+                                {plan.layoutChanges.length > MAX_LISTED && (
+                                    <div className="search-more">
+                                        {plan.layoutChanges.length - MAX_LISTED} more layout changes
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="settings-hint">
+                        A snapshot is taken before importing, and the import can be undone.
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportDialog;
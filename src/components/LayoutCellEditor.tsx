@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { CellType, GridPosition, MapCell, CELL_TYPE_LABELS, getColumnLabel } from '../types';
+
+export interface LayoutCellValues {
+    type: CellType;
+    locationCode: string;
+    labelText: string;
+}
+
+interface LayoutCellEditorProps {
+    isOpen: boolean;
+    positions: GridPosition[];
+    mapCell: MapCell | null;  // Current layout of the first position, used as the starting values
+    onSave: (values: LayoutCellValues) => void;
+    onClose: () => void;
+}
+
+const CELL_TYPES: CellType[] = ['active', 'blocked', 'boundary', 'h-spacer', 'label'];
+
+export const LayoutCellEditor: React.FC<LayoutCellEditorProps> = ({
+    isOpen,
+    positions,
+    mapCell,
+    onSave,
+    onClose,
+}) => {
+    const [type, setType] = useState<CellType>('active');
+    const [locationCode, setLocationCode] = useState('');
+    const [labelText, setLabelText] = useState('');
+
+    // Initialize form when opened
+    useEffect(() => {
+        if (isOpen) {
+            setType(mapCell?.type ?? 'active');
+            setLocationCode(mapCell?.locationCode ?? '');
+            setLabelText(mapCell?.labelText ?? '');
+        }
+    }, [isOpen, mapCell]);
+
+    if (!isOpen || positions.length === 0) return null;
+
+    // Location codes identify a single slot, so they are only editable one cell at a time
+    const isSingle = positions.length === 1;
+    const title = isSingle
+        ? `Layout ${getColumnLabel(positions[0].col)}${positions[0].row + 1}`
+        : `Layout · ${positions.length} cells`;
+
+    const handleSave = () => {
+        onSave({
+            type,
+            locationCode: locationCode.trim().toUpperCase(),
+            labelText: labelText.trim(),
+        });
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>{title}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={handleSave}>Save</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>CELL TYPE</label>
+                        <div className="layout-type-options">
+                            {CELL_TYPES.map(t => (
+                                <button
+                                    key={t}
+                                    type="button"
+                                    className={`layout-type-option layout-${t} ${type === t ? 'active' : ''}`}
+                                    onClick={() => setType(t)}
+                                >
+                                    {CELL_TYPE_LABELS[t]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {type === 'active' && isSingle && (
+                        <div className="form-group">
+                            <label>LOCATION CODE</label>
+                            <input
+                                type="text"
+                                value={locationCode}
+                                onChange={(e) => setLocationCode(e.target.value.toUpperCase())}
+                                placeholder="e.g. R01-B03-L2"
+                                maxLength={24}
+                            />
+                        </div>
+                    )}
+
+                    {type === 'label' && (
+                        <div className="form-group">
+                            <label>LABEL TEXT</label>
+                            <input
+                                type="text"
+                                value={labelText}
+                                onChange={(e) => setLabelText(e.target.value)}
+                                placeholder="e.g. GATE 2"
+                                maxLength={40}
+                            />
+                        </div>
+                    )}
+
+                    {(type === 'blocked' || type === 'label') && (
+                        <div className="dialog-notice warning">
+                            Inventory cannot be placed on this cell.
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LayoutCellEditor;
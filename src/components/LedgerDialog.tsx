@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MaterialCatalog, getMaterialColor } from '../catalog';
+import { LEDGER_REASON_LABELS, LedgerEntry, filterLedger } from '../ledger';
+import { loadLedger } from '../storage';
+
+interface LedgerDialogProps {
+    isOpen: boolean;
+    mapId: string;
+    mapName: string;
+    catalog: MaterialCatalog;
+    onClose: () => void;
+}
+
+// How many movements the list shows before summarising
+const MAX_LISTED = 200;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Quick date ranges, in days back from today (0 = today only)
+const PRESETS: { label: string; days: number }[] = [
+    { label: 'Today', days: 0 },
+    { label: '7 days', days: 6 },
+    { label: '30 days', days: 29 },
+];
+
+// yyyy-mm-dd in local time, as used by <input type="date">
+function toDateInput(time: number): string {
+    const d = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function formatDelta(delta: number): string {
+    return delta > 0 ? `+${delta}` : `−${Math.abs(delta)}`;
+}
+
+export const LedgerDialog: React.FC<LedgerDialogProps> = ({
+    isOpen,
+    mapId,
+    mapName,
+    catalog,
+    onClose,
+}) => {
+    const [entries, setEntries] = useState<LedgerEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [material, setMaterial] = useState('');  // "family:S", "code:S5 PIM" or '' for all
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+
+    // Reload on every open so movements made since the last look show up
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        setIsLoading(true);
+        loadLedger(mapId)
+            .then(loaded => { if (!cancelled) setEntries(loaded); })
+            .catch(error => console.error('Failed to load ledger:', error))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [isOpen, mapId]);
+
+    // Families and codes that appear in the ledger
+    const { families, codes } = useMemo(() => ({
+        families: Array.from(new Set(entries.map(e => e.code1))).sort((a, b) => a.localeCompare(b)),
+        codes: Array.from(new Set(entries.map(e => e.code))).sort((a, b) => a.localeCompare(b)),
+    }), [entries]);
+
+    const filtered = useMemo(() => {
+        const [kind, value] = material.split(/:(.*)/);
+        return filterLedger(entries, {
+            code1: kind === 'family' ? value : undefined,
+            code: kind === 'code' ? value : undefined,
+            from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+            to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined,
+        }).reverse();
+    }, [entries, material, fromDate, toDate]);
+
+    if (!isOpen) return null;
+
+    const totalIn = filtered.reduce((sum, e) => sum + Math.max(0, e.delta), 0);
+    const totalOut = filtered.reduce((sum, e) => sum + Math.min(0, e.delta), 0);
+
+    const applyPreset = (days: number) => {
+        const now = Date.now();
+        setFromDate(toDateInput(now - days * DAY));
+        setToDate(toDateInput(now));
+    };
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog ledger-dialog">
+                <div className="editor-header">
+                    <h2>Stock Ledger · {mapName}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Close</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>MATERIAL</label>
+                        <div className="filter-add-row">
+                            <select value={material} onChange={(e) => setMaterial(e.target.value)}>
+                                <option value="">All materials</option>
+                                <optgroup label="Families">
+                                    {families.map(code1 => <option key={code1} value={`family:${code1}`}>{code1}</option>)}
+                                </optgroup>
+                                <optgroup label="Codes">
+                                    {codes.map(code => <option key={code} value={`code:${code}`}>{code}</option>)}
+                                </optgroup>
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label>DATE</label>
+                        <div className="settings-fields">
+                            <label className="settings-field">
+                                <span>From</span>
+                                <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                            </label>
+                            <label className="settings-field">
+                                <span>To</span>
+                                <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                            </label>
+                        </div>
+                        <div className="filter-options ledger-presets">
+                            {PRESETS.map(p => (
+                                <button key={p.label} type="button" className="filter-option" onClick={() => applyPreset(p.days)}>
+                                    {p.label}
+                                </button>
+                            ))}
+                            <button
+                                type="button"
+                                className="filter-option"
+                                onClick={() => { setFromDate(''); setToDate(''); }}
+                            >
+                                All time
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="ledger-totals">
+                        <span>{filtered.length} movement{filtered.length === 1 ? '' : 's'}</span>
+                        <span className="ledger-in">In {totalIn}</span>
+                        <span className="ledger-out">Out {Math.abs(totalOut)}</span>
+                        <span>Net {formatDelta(totalIn + totalOut)}</span>
+                    </div>
+
+                    <div className="ledger-list">
+                        {isLoading ? (
+                            <div className="empty-summary">Loading…</div>
+                        ) : filtered.length === 0 ? (
+                            <div className="empty-summary">
+                                {entries.length === 0 ? 'No stock movements recorded yet' : 'No movements match'}
+                            </div>
+                        ) : (
+                            filtered.slice(0, MAX_LISTED).map(entry => (
+                                <div key={entry.id} className="ledger-row">
+                                    <span className="ledger-time">{new Date(entry.timestamp).toLocaleString()}</span>
+                                    <span className="ledger-location">
+                                        {entry.grid === 'buffer' ? '📦 ' : ''}{entry.location}
+                                    </span>
+                                    <span className="ledger-code" style={{ color: getMaterialColor(entry.code1, catalog).primary }}>
+                                        {entry.code}
+                                    </span>
+                                    <span className={`ledger-delta ${entry.delta > 0 ? 'ledger-in' : 'ledger-out'}`}>
+                                        {formatDelta(entry.delta)}
+                                    </span>
+                                    <span className="ledger-reason">
+                                        {LEDGER_REASON_LABELS[entry.reason]}
+                                        {entry.reference && ` · ${entry.reference}`}
+                                        <span className="ledger-action"> · {entry.action}</span>
+                                    </span>
+                                </div>
+                            ))
+                        )}
+                        {filtered.length > MAX_LISTED && (
+                            <div className="search-more">
+                                {filtered.length - MAX_LISTED} older movements — narrow the dates to see them
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LedgerDialog;
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import {
+    MaterialCatalog,
+    MaterialFamily,
+    createMaterialFamily,
+    normalizeCode1,
+    parseCode2Options,
+    validateCode1,
+} from '../catalog';
+
+interface MaterialCatalogDialogProps {
+    isOpen: boolean;
+    catalog: MaterialCatalog;
+    onSave: (catalog: MaterialCatalog, renames: Record<string, string>) => void;
+    onClose: () => void;
+}
+
+// A family being edited; `savedCode1` is its code in storage (unset for new families)
+interface DraftFamily extends MaterialFamily {
+    savedCode1?: string;
+}
+
+export const MaterialCatalogDialog: React.FC<MaterialCatalogDialogProps> = ({
+    isOpen,
+    catalog,
+    onSave,
+    onClose,
+}) => {
+    const [draft, setDraft] = useState<DraftFamily[]>([]);
+    const [selected, setSelected] = useState(0);
+    // Sizes are edited as free text and parsed on save, so commas can be typed
+    const [sizesText, setSizesText] = useState<string[]>([]);
+
+    // Start from the stored catalog each time the dialog opens
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(catalog.map(f => ({ ...f, savedCode1: f.code1 })));
+            setSizesText(catalog.map(f => f.code2Options.join(', ')));
+            setSelected(0);
+        }
+    }, [isOpen, catalog]);
+
+    if (!isOpen) return null;
+
+    const errors = draft.map((family, i) =>
+        validateCode1(family.code1, draft.filter((_, j) => j !== i))
+    );
+    const renames = Object.fromEntries(draft
+        .filter(f => f.savedCode1 && f.savedCode1 !== f.code1)
+        .map(f => [f.savedCode1!, f.code1]));
+    const hasRenames = Object.keys(renames).length > 0;
+    const canSave = errors.every(e => e === null);
+    const current = draft[selected];
+
+    const update = (changes: Partial<MaterialFamily>) => {
+        setDraft(prev => prev.map((f, i) => i === selected ? { ...f, ...changes } : f));
+    };
+
+    // Swap two entries (with their size text) and keep the moved one selected
+    const move = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= draft.length) return;
+        const swap = <T,>(list: T[]) => {
+            const next = [...list];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        };
+        setDraft(swap);
+        setSizesText(swap);
+        setSelected(target);
+    };
+
+    const handleAdd = () => {
+        setDraft(prev => [...prev, createMaterialFamily('', prev)]);
+        setSizesText(prev => [...prev, '']);
+        setSelected(draft.length);
+    };
+
+    // Only families that were never saved can be removed; stored ones are retired instead
+    const handleRemove = () => {
+        setDraft(prev => prev.filter((_, i) => i !== selected));
+        setSizesText(prev => prev.filter((_, i) => i !== selected));
+        setSelected(Math.max(0, selected - 1));
+    };
+
+    const handleSave = () => {
+        if (!canSave) return;
+        const next = draft.map(({ savedCode1: _saved, ...family }, i) => ({
+            ...family,
+            description: family.description.trim(),
+            unit: family.unit.trim(),
+            code2Options: parseCode2Options(sizesText[i] ?? ''),
+            order: i,
+        }));
+        onSave(next, renames);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Materials</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={handleSave} disabled={!canSave}>Save</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>FAMILIES</label>
+                        <div className="catalog-list">
+                            {draft.map((family, i) => (
+                                <div
+                                    key={i}
+                                    className={`catalog-row ${i === selected ? 'active' : ''} ${family.retired ? 'retired' : ''} ${errors[i] ? 'invalid' : ''}`}
+                                    onClick={() => setSelected(i)}
+                                >
+                                    <span className="catalog-swatch" style={{ background: family.background, borderColor: family.primary }} />
+                                    <span className="catalog-code" style={{ color: family.primary }}>
+                                        {family.code1 || '—'}
+                                    </span>
+                                    <span className="catalog-description">
+                                        {family.retired ? 'Retired' : family.description}
+                                    </span>
+                                    <button
+                                        className="catalog-move-btn"
+                                        onClick={(e) => { e.stopPropagation(); move(i, -1); }}
+                                        disabled={i === 0}
+                                        title="Move up"
+                                    >
+                                        ▲
+                                    </button>
+                                    <button
+                                        className="catalog-move-btn"
+                                        onClick={(e) => { e.stopPropagation(); move(i, 1); }}
+                                        disabled={i === draft.length - 1}
+                                        title="Move down"
+                                    >
+                                        ▼
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <button type="button" className="filter-add-btn catalog-add-btn" onClick={handleAdd}>
+                            + Add family
+                        </button>
+                    </div>
+
+                    {current && (
+                        <div className="form-group">
+                            <label>{current.savedCode1 ? `EDIT ${current.savedCode1}` : 'NEW FAMILY'}</label>
+                            <div className="settings-fields">
+                                <label className="settings-field">
+                                    <span>Code</span>
+                                    <input
+                                        type="text"
+                                        value={current.code1}
+                                        className={errors[selected] ? 'invalid' : ''}
+                                        onChange={(e) => update({ code1: normalizeCode1(e.target.value) })}
+                                        placeholder="e.g. S"
+                                        maxLength={6}
+                                    />
+                                </label>
+                                <label className="settings-field">
+                                    <span>Unit</span>
+                                    <input
+                                        type="text"
+                                        value={current.unit}
+                                        onChange={(e) => update({ unit: e.target.value })}
+                                        placeholder="e.g. bags"
+                                        maxLength={12}
+                                    />
+                                </label>
+                                <label className="settings-field catalog-wide">
+                                    <span>Description</span>
+                                    <input
+                                        type="text"
+                                        value={current.description}
+                                        onChange={(e) => update({ description: e.target.value })}
+                                        placeholder="e.g. Silica sand"
+                                    />
+                                </label>
+                                <label className="settings-field">
+                                    <span>Colour</span>
+                                    <input
+                                        type="color"
+                                        value={current.primary}
+                                        onChange={(e) => update({ primary: e.target.value })}
+                                    />
+                                </label>
+                                <label className="settings-field">
+                                    <span>Cell background</span>
+                                    <input
+                                        type="color"
+                                        value={current.background}
+                                        onChange={(e) => update({ background: e.target.value })}
+                                    />
+                                </label>
+                                <label className="settings-field catalog-wide">
+                                    <span>Sizes (code2)</span>
+                                    <input
+                                        type="text"
+                                        value={sizesText[selected] ?? ''}
+                                        onChange={(e) => setSizesText(prev => prev.map((t, i) => i === selected ? e.target.value : t))}
+                                        placeholder="1, 2.5, 5, 10"
+                                    />
+                                </label>
+                            </div>
+
+                            <label className="filter-check">
+                                <input
+                                    type="checkbox"
+                                    checked={!!current.retired}
+                                    onChange={(e) => update({ retired: e.target.checked || undefined })}
+                                />
+                                Retired — keep existing cells but don't offer it for new entries
+                            </label>
+
+                            {errors[selected] && (
+                                <div className="dialog-notice error">{errors[selected]}</div>
+                            )}
+
+                            {!current.savedCode1 && (
+                                <button type="button" className="filter-add-btn catalog-add-btn" onClick={handleRemove}>
+                                    Remove
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {!canSave && errors[selected] === null && (
+                        <div className="dialog-notice error">
+                            Fix the families marked in the list before saving.
+                        </div>
+                    )}
+
+                    {hasRenames && (
+                        <div className="dialog-notice warning">
+                            Renaming {Object.entries(renames).map(([from, to]) => `${from} → ${to}`).join(', ')} rewrites
+                            the cells of every map and clears undo history.
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MaterialCatalogDialog;
@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CellData, GridConfig, MapCell, cellHasContent, getCombinedCode } from '../types';
+import { MaterialCatalog, getMaterialColor } from '../catalog';
+
+// Part of the grid currently on screen, in cell units
+export interface MinimapViewport {
+    row: number;
+    col: number;
+    rows: number;
+    cols: number;
+}
+
+interface MinimapProps {
+    config: GridConfig;
+    cells: Map<string, CellData>;
+    layout?: Map<string, MapCell>;
+    catalog: MaterialCatalog;
+    viewport: MinimapViewport;
+    highlightedCode?: string | null;
+    cellFilter?: (cell: CellData | undefined) => boolean;
+    onNavigate: (row: number, col: number) => void;  // Centre the grid on this (fractional) cell
+}
+
+const MAX_WIDTH = 180;  // px
+const MAX_HEIGHT = 140; // px
+const MAX_CELL_SIZE = 6; // px per cell on small grids
+
+const COLORS = {
+    background: '#0a1225',
+    blocked: '#333333',
+    highlight: '#ffeb3b',
+    dimmedAlpha: 0.2,
+    viewport: '#ffffff',
+};
+
+export const Minimap: React.FC<MinimapProps> = ({
+    config,
+    cells,
+    layout,
+    catalog,
+    viewport,
+    highlightedCode,
+    cellFilter,
+    onNavigate,
+}) => {
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const draggingRef = useRef<number | null>(null);
+
+    // Pixels per cell: fit the whole grid into the minimap box
+    const cellSize = Math.min(MAX_WIDTH / config.cols, MAX_HEIGHT / config.rows, MAX_CELL_SIZE);
+    const width = Math.ceil(config.cols * cellSize);
+    const height = Math.ceil(config.rows * cellSize);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+        ctx.fillStyle = COLORS.background;
+        ctx.fillRect(0, 0, width, height);
+
+        layout?.forEach(mapCell => {
+            if (mapCell.type !== 'blocked') return;
+            ctx.fillStyle = COLORS.blocked;
+            ctx.fillRect(mapCell.col * cellSize, mapCell.row * cellSize, cellSize, cellSize);
+        });
+
+        // Occupied cells as pixels in their material colour
+        const highlighted: CellData[] = [];
+        cells.forEach(cell => {
+            if (!cellHasContent(cell)) return;
+            if (highlightedCode && getCombinedCode(cell) === highlightedCode) {
+                highlighted.push(cell);
+                return;
+            }
+            ctx.globalAlpha = cellFilter && !cellFilter(cell) ? COLORS.dimmedAlpha : 1;
+            ctx.fillStyle = getMaterialColor(cell.code1, catalog).primary;
+            ctx.fillRect(cell.col * cellSize, cell.row * cellSize, cellSize, cellSize);
+        });
+        ctx.globalAlpha = 1;
+
+        // Highlighted cells are enlarged so they stand out even at one pixel per cell
+        ctx.fillStyle = COLORS.highlight;
+        const grow = Math.max(1, cellSize / 2);
+        highlighted.forEach(cell => {
+            ctx.fillRect(cell.col * cellSize - grow, cell.row * cellSize - grow, cellSize + grow * 2, cellSize + grow * 2);
+        });
+
+        ctx.strokeStyle = COLORS.viewport;
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(
+            viewport.col * cellSize,
+            viewport.row * cellSize,
+            Math.min(viewport.cols, config.cols) * cellSize,
+            Math.min(viewport.rows, config.rows) * cellSize
+        );
+    }, [cells, layout, catalog, viewport, highlightedCode, cellFilter, config, cellSize, width, height, isCollapsed]);
+
+    const navigateToEvent = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onNavigate((e.clientY - rect.top) / cellSize, (e.clientX - rect.left) / cellSize);
+    }, [cellSize, onNavigate]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        draggingRef.current = e.pointerId;
+        navigateToEvent(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (draggingRef.current === e.pointerId) navigateToEvent(e);
+    };
+
+    const handlePointerEnd = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (draggingRef.current === e.pointerId) draggingRef.current = null;
+    };
+
+    return (
+        <div className={`minimap ${isCollapsed ? 'collapsed' : ''}`}>
+            <div className="minimap-header">
+                <span className="minimap-title">🗺️ Overview</span>
+                <button
+                    className="buffer-panel-toggle"
+                    onClick={() => setIsCollapsed(!isCollapsed)}
+                    title={isCollapsed ? 'Expand overview' : 'Collapse overview'}
+                >
+                    {isCollapsed ? '▲' : '▼'}
+                </button>
+            </div>
+            {!isCollapsed && (
+                <canvas
+                    ref={canvasRef}
+                    className="minimap-canvas"
+                    style={{ width, height }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerEnd}
+                    onPointerCancel={handlePointerEnd}
+                />
+            )}
+        </div>
+    );
+};
+
+export default Minimap;
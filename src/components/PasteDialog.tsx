@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import {
+    MergeImageChoice,
+    MovePlan,
+    PASTE_CONFLICT_MODE_HINTS,
+    PASTE_CONFLICT_MODE_LABELS,
+    PASTE_IMAGE_CHOICE_LABELS,
+    PasteConflictMode,
+} from '../cellMove';
+
+interface PasteDialogProps {
+    isOpen: boolean;
+    cellCount: number;  // Cells on the clipboard
+    plan: MovePlan | null;
+    onPaste: (mode: PasteConflictMode, keepImage: MergeImageChoice) => void;
+    onClose: () => void;
+}
+
+const MODES: PasteConflictMode[] = ['overwrite', 'skip', 'merge'];
+const IMAGE_CHOICES: MergeImageChoice[] = ['occupant', 'moved'];
+
+// Asked before a paste that does not fit cleanly: cells off the grid or on
+// walls are clipped, and cells landing on stock need a decision. The footprint
+// stays drawn on the grid behind the dialog.
+export const PasteDialog: React.FC<PasteDialogProps> = ({
+    isOpen,
+    cellCount,
+    plan,
+    onPaste,
+    onClose,
+}) => {
+    const [mode, setMode] = useState<PasteConflictMode>('overwrite');
+    const [keepImage, setKeepImage] = useState<MergeImageChoice>('occupant');
+
+    useEffect(() => {
+        if (isOpen) {
+            setMode('overwrite');
+            setKeepImage('occupant');
+        }
+    }, [isOpen]);
+
+    if (!isOpen || !plan) return null;
+
+    const fitting = plan.placements.filter(p => !p.blocked);
+    const pasted = mode === 'skip' ? fitting.filter(p => !p.occupant).length : fitting.length;
+    const overwrittenImages = mode === 'overwrite' ? fitting.filter(p => p.occupant?.imageId).length : 0;
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Paste {cellCount} {cellCount === 1 ? 'Cell' : 'Cells'}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={() => onPaste(mode, keepImage)} disabled={pasted === 0}>Paste</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    {plan.blocked > 0 && (
+                        <div className="form-group">
+                            <label>DOES NOT FIT</label>
+                            <div className="settings-hint">
+                                {plan.blocked} of {cellCount} cells fall outside the grid or on a wall or label
+                                and are left out. Cancel to paste somewhere else instead.
+                            </div>
+                        </div>
+                    )}
+
+                    {plan.collisions > 0 && (
+                        <div className="form-group">
+                            <label>OCCUPIED</label>
+                            <div className="settings-hint">
+                                {plan.collisions} {plan.collisions === 1 ? 'cell lands' : 'cells land'} on existing stock
+                                (orange on the grid).
+                            </div>
+                            <div className="filter-options">
+                                {MODES.map(m => (
+                                    <button
+                                        key={m}
+                                        type="button"
+                                        className={`filter-option ${mode === m ? 'active' : ''}`}
+                                        onClick={() => setMode(m)}
+                                        disabled={m === 'merge' && !plan.canMerge}
+                                    >
+                                        {PASTE_CONFLICT_MODE_LABELS[m]}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="settings-hint">{PASTE_CONFLICT_MODE_HINTS[mode]}</div>
+                            {!plan.canMerge && (
+                                <div className="settings-hint">Quantities can only be merged onto the same material.</div>
+                            )}
+                            {overwrittenImages > 0 && (
+                                <div className="dialog-notice warning">
+                                    {overwrittenImages} overwritten {overwrittenImages === 1 ? 'cell has a photo' : 'cells have photos'};
+                                    it is deleted unless another cell uses it. Undo brings it back.
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {mode === 'merge' && plan.imageConflicts > 0 && (
+                        <div className="form-group">
+                            <label>PHOTO</label>
+                            <div className="settings-hint">
+                                {plan.imageConflicts === 1
+                                    ? 'Both cells have a photo, and a cell keeps only one.'
+                                    : `${plan.imageConflicts} merges have a photo on both sides, and a cell keeps only one.`}
+                                {' '}Keep the photo of:
+                            </div>
+                            <div className="filter-options">
+                                {IMAGE_CHOICES.map(c => (
+                                    <button
+                                        key={c}
+                                        type="button"
+                                        className={`filter-option ${keepImage === c ? 'active' : ''}`}
+                                        onClick={() => setKeepImage(c)}
+                                    >
+                                        {PASTE_IMAGE_CHOICE_LABELS[c]}
+                                    </button>
+                                ))}
+                            </div>
+                            {keepImage === 'moved' ? (
+                                <div className="dialog-notice warning">
+                                    The photo already there is deleted unless another cell uses it. Undo brings it back.
+                                </div>
+                            ) : (
+                                <div className="settings-hint">The pasted photo is left out.</div>
+                            )}
+                        </div>
+                    )}
+
+                    {pasted === 0 ? (
+                        <div className="dialog-notice error">Nothing would be pasted here.</div>
+                    ) : (
+                        <div className="settings-hint">{pasted} of {cellCount} cells will be pasted.</div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PasteDialog;
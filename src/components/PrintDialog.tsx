@@ -0,0 +1,390 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { CellData, GridConfig, GridKind, MapCell, cellHasContent, getCellKey, getColumnLabel, getCombinedCode } from '../types';
+import { MaterialCatalog, getMaterialColor, getMaterialUnit, summarizeMaterials } from '../catalog';
+import {
+    GridPage,
+    PAGE_CAPACITY,
+    PAGE_ORIENTATION_LABELS,
+    PRINT_COLOR_MODE_LABELS,
+    PageOrientation,
+    PrintColorMode,
+    REPORT_SECTIONS,
+    REPORT_SECTION_LABELS,
+    ReportSection,
+    createPrintedCellCheck,
+    describeGridPage,
+    formatReportDate,
+    getPrintBackground,
+    paginateGrid,
+} from '../report';
+
+interface PrintDialogProps {
+    isOpen: boolean;
+    mapName: string;
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    layout: Map<string, MapCell>;
+    gridConfig: GridConfig;
+    bufferConfig: GridConfig;
+    catalog: MaterialCatalog;
+    getLocation: (grid: GridKind, row: number, col: number) => string;
+    onClose: () => void;
+}
+
+interface ReportOptions {
+    colorMode: PrintColorMode;
+    orientation: PageOrientation;
+    sections: Set<ReportSection>;
+    skipEmptyPages: boolean;
+}
+
+export const PrintDialog: React.FC<PrintDialogProps> = ({
+    isOpen,
+    mapName,
+    cells,
+    bufferCells,
+    layout,
+    gridConfig,
+    bufferConfig,
+    catalog,
+    getLocation,
+    onClose,
+}) => {
+    const [colorMode, setColorMode] = useState<PrintColorMode>('colour');
+    const [orientation, setOrientation] = useState<PageOrientation>('landscape');
+    const [sections, setSections] = useState<Set<ReportSection>>(() => new Set(REPORT_SECTIONS));
+    const [skipEmptyPages, setSkipEmptyPages] = useState(true);
+    // Time the report was printed; the report is only in the page while printing
+    const [printedAt, setPrintedAt] = useState<Date | null>(null);
+
+    const options: ReportOptions = { colorMode, orientation, sections, skipEmptyPages };
+
+    const mapPages = useMemo(() => paginateGrid(
+        gridConfig,
+        PAGE_CAPACITY[orientation],
+        skipEmptyPages ? createPrintedCellCheck(cells, layout) : undefined
+    ), [gridConfig, orientation, skipEmptyPages, cells, layout]);
+
+    const bufferPages = useMemo(() => paginateGrid(
+        bufferConfig,
+        PAGE_CAPACITY[orientation],
+        skipEmptyPages ? createPrintedCellCheck(bufferCells, null) : undefined
+    ), [bufferConfig, orientation, skipEmptyPages, bufferCells]);
+
+    // The browser prints synchronously on desktop but not on every mobile browser,
+    // so the report is removed again once printing has finished
+    useEffect(() => {
+        if (!printedAt) return;
+        const handleAfterPrint = () => setPrintedAt(null);
+        window.addEventListener('afterprint', handleAfterPrint);
+        window.print();
+        return () => window.removeEventListener('afterprint', handleAfterPrint);
+    }, [printedAt]);
+
+    if (!isOpen) return null;
+
+    const toggleSection = (section: ReportSection) => {
+        setSections(prev => {
+            const next = new Set(prev);
+            if (next.has(section)) next.delete(section);
+            else next.add(section);
+            return next;
+        });
+    };
+
+    const pageCounts: Record<ReportSection, number> = {
+        map: mapPages.length,
+        summary: 1,
+        buffer: bufferPages.length,
+        stockHold: 1,
+    };
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Print · {mapName}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Close</button>
+                        <button className="save-btn" onClick={() => setPrintedAt(new Date())} disabled={sections.size === 0}>
+                            Print
+                        </button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>COLOURS</label>
+                        <div className="filter-options">
+                            {(Object.keys(PRINT_COLOR_MODE_LABELS) as PrintColorMode[]).map(mode => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    className={`filter-option ${colorMode === mode ? 'active' : ''}`}
+                                    onClick={() => setColorMode(mode)}
+                                >
+                                    {PRINT_COLOR_MODE_LABELS[mode]}
+                                </button>
+                            ))}
+                        </div>
+                        {colorMode === 'greyscale' && (
+                            <div className="settings-hint">Each code 1 gets its own pattern; the summary page is the legend.</div>
+                        )}
+                    </div>
+
+                    <div className="form-group">
+                        <label>PAGE</label>
+                        <div className="filter-options">
+                            {(Object.keys(PAGE_ORIENTATION_LABELS) as PageOrientation[]).map(o => (
+                                <button
+                                    key={o}
+                                    type="button"
+                                    className={`filter-option ${orientation === o ? 'active' : ''}`}
+                                    onClick={() => setOrientation(o)}
+                                >
+                                    {PAGE_ORIENTATION_LABELS[o]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="settings-hint">
+                            A4, {PAGE_CAPACITY[orientation].cols} columns × {PAGE_CAPACITY[orientation].rows} rows of the map per page.
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label>CONTENTS</label>
+                        {REPORT_SECTIONS.map(section => (
+                            <label key={section} className="filter-check">
+                                <input
+                                    type="checkbox"
+                                    checked={sections.has(section)}
+                                    onChange={() => toggleSection(section)}
+                                />
+                                {REPORT_SECTION_LABELS[section]}
+                                {(section === 'map' || section === 'buffer') && ` (${pageCounts[section]} page${pageCounts[section] === 1 ? '' : 's'})`}
+                            </label>
+                        ))}
+                        <label className="filter-check">
+                            <input
+                                type="checkbox"
+                                checked={skipEmptyPages}
+                                onChange={(e) => setSkipEmptyPages(e.target.checked)}
+                            />
+                            Leave out map pages without stock or labels
+                        </label>
+                    </div>
+
+                    <div className="settings-hint">
+                        Choose "Save as PDF" as the printer to get a PDF. Works offline.
+                    </div>
+                </div>
+            </div>
+
+            {printedAt && ReactDOM.createPortal(
+                <PrintReport
+                    mapName={mapName}
+                    printedAt={printedAt}
+                    options={options}
+                    mapPages={mapPages}
+                    bufferPages={bufferPages}
+                    cells={cells}
+                    bufferCells={bufferCells}
+                    layout={layout}
+                    catalog={catalog}
+                    getLocation={getLocation}
+                />,
+                document.body
+            )}
+        </div>
+    );
+};
+
+// ── Report ──────────────────────────────────────────────────────────────────
+
+interface PrintReportProps {
+    mapName: string;
+    printedAt: Date;
+    options: ReportOptions;
+    mapPages: GridPage[];
+    bufferPages: GridPage[];
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    layout: Map<string, MapCell>;
+    catalog: MaterialCatalog;
+    getLocation: (grid: GridKind, row: number, col: number) => string;
+}
+
+// The printed pages. Hidden on screen; the print styles hide the app instead.
+const PrintReport: React.FC<PrintReportProps> = ({
+    mapName,
+    printedAt,
+    options,
+    mapPages,
+    bufferPages,
+    cells,
+    bufferCells,
+    layout,
+    catalog,
+    getLocation,
+}) => {
+    const { colorMode, orientation, sections } = options;
+    const printed = formatReportDate(printedAt);
+
+    const header = (title: string) => (
+        <div className="print-header">
+            <strong>{mapName}</strong>
+            <span>{title}</span>
+            <span>{printed}</span>
+        </div>
+    );
+
+    const swatchStyle = (code1: string): React.CSSProperties => ({
+        background: getPrintBackground(code1, catalog, colorMode),
+        color: colorMode === 'colour' ? getMaterialColor(code1, catalog).primary : undefined,
+    });
+
+    const renderGridPages = (
+        grid: GridKind,
+        title: string,
+        pages: GridPage[],
+        gridCells: Map<string, CellData>,
+        gridLayout: Map<string, MapCell> | null
+    ) => pages.map((page, i) => {
+        const rows: number[] = [];
+        for (let r = page.rowStart; r < page.rowEnd; r++) rows.push(r);
+        const cols: number[] = [];
+        for (let c = page.colStart; c < page.colEnd; c++) cols.push(c);
+
+        return (
+            <section key={`${grid}:${i}`} className="print-page">
+                {header(`${title} · ${describeGridPage(page)} · page ${i + 1} of ${pages.length}`)}
+                <table className="print-grid">
+                    <thead>
+                        <tr>
+                            <th className="print-corner" />
+                            {cols.map(c => <th key={c}>{getColumnLabel(c)}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(r => (
+                            <tr key={r}>
+                                <th>{r + 1}</th>
+                                {cols.map(c => {
+                                    const key = getCellKey(r, c);
+                                    const cell = gridCells.get(key);
+                                    const mapCell = gridLayout?.get(key);
+                                    const content = cell && cellHasContent(cell) ? cell : null;
+                                    const classes = ['print-cell'];
+                                    if (cell?.isStockHold) classes.push('print-hold');
+                                    if (cell?.isBoundary) classes.push('print-boundary');
+                                    if (!content && mapCell && mapCell.type !== 'active') classes.push(`print-layout-${mapCell.type}`);
+
+                                    return (
+                                        <td key={c} className={classes.join(' ')} style={content ? swatchStyle(content.code1) : undefined}>
+                                            {content ? (
+                                                <>
+                                                    <span className="print-code">{getCombinedCode(content)}</span>
+                                                    <span className="print-qty">{content.quantity}</span>
+                                                </>
+                                            ) : mapCell?.type === 'label' && (
+                                                <span className="print-label">{mapCell.labelText}</span>
+                                            )}
+                                            <span className="print-location">{getLocation(grid, r, c)}</span>
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </section>
+        );
+    });
+
+    const summaries = summarizeMaterials(cells.values(), catalog);
+    const holdCells = ([['main', cells], ['buffer', bufferCells]] as [GridKind, Map<string, CellData>][])
+        .flatMap(([grid, gridCells]) => Array.from(gridCells.values())
+            .filter(cell => cell.isStockHold && cellHasContent(cell))
+            .sort((a, b) => a.row - b.row || a.col - b.col)
+            .map(cell => ({ grid, cell })));
+
+    return (
+        <div className={`print-report print-${colorMode}`}>
+            <style>{`@page { size: A4 ${orientation}; margin: 10mm; }`}</style>
+
+            {sections.has('map') && renderGridPages('main', 'Map', mapPages, cells, layout)}
+
+            {sections.has('summary') && (
+                <section className="print-page">
+                    {header('Material summary')}
+                    <table className="print-table">
+                        <thead>
+                            <tr>
+                                <th>Code</th>
+                                <th>Quantity</th>
+                                <th>Unit</th>
+                                <th>Cells</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {summaries.map(summary => (
+                                <tr key={summary.combinedCode}>
+                                    <td><span className="print-swatch" style={swatchStyle(summary.code1)}>{summary.combinedCode}</span></td>
+                                    <td>{summary.totalQuantity}</td>
+                                    <td>{getMaterialUnit(summary.code1, catalog)}</td>
+                                    <td>{summary.cellCount}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot>
+                            <tr>
+                                <th>Total</th>
+                                <th>{summaries.reduce((sum, s) => sum + s.totalQuantity, 0)}</th>
+                                <th />
+                                <th>{summaries.reduce((sum, s) => sum + s.cellCount, 0)}</th>
+                            </tr>
+                        </tfoot>
+                    </table>
+                    <div className="print-note">Stock-hold and boundary cells are not counted.</div>
+                </section>
+            )}
+
+            {sections.has('buffer') && renderGridPages('buffer', 'Buffer', bufferPages, bufferCells, null)}
+
+            {sections.has('stockHold') && (
+                <section className="print-page">
+                    {header('Stock hold')}
+                    {holdCells.length === 0 ? (
+                        <div className="print-note">No cells are on stock hold.</div>
+                    ) : (
+                        <table className="print-table">
+                            <thead>
+                                <tr>
+                                    <th>Grid</th>
+                                    <th>Location</th>
+                                    <th>Code</th>
+                                    <th>Quantity</th>
+                                    <th>Note</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {holdCells.map(({ grid, cell }) => (
+                                    <tr key={`${grid}:${cell.row}-${cell.col}`}>
+                                        <td>{grid === 'buffer' ? 'Buffer' : 'Main'}</td>
+                                        <td>{getLocation(grid, cell.row, cell.col)}</td>
+                                        <td><span className="print-swatch" style={swatchStyle(cell.code1)}>{getCombinedCode(cell)}</span></td>
+                                        <td>{cell.quantity} {getMaterialUnit(cell.code1, catalog)}</td>
+                                        <td>{cell.note}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default PrintDialog;
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { cellHasContent, getCombinedCode } from '../types';
+import { MaterialCatalog, getMaterialColor } from '../catalog';
+import { MatchReason, SearchContext, SearchMatch, searchCells } from '../search';
+import { getBufferLocationCode } from '../location';
+
+interface SearchBarProps extends SearchContext {
+    isOpen: boolean;
+    catalog: MaterialCatalog;
+    getLocationCode: (row: number, col: number) => string;
+    onSelectMatch: (match: SearchMatch) => void;
+    onClose: () => void;
+}
+
+// How many results the dropdown lists
+const MAX_LISTED = 50;
+
+const REASON_LABELS: Record<MatchReason, string> = {
+    location: 'location',
+    code: 'code',
+    code3: 'code3',
+    note: 'note',
+    quantity: 'qty',
+};
+
+export const SearchBar: React.FC<SearchBarProps> = ({
+    isOpen,
+    catalog,
+    getLocationCode,
+    onSelectMatch,
+    onClose,
+    ...context
+}) => {
+    const [query, setQuery] = useState('');
+    const [index, setIndex] = useState(-1);
+    const [showResults, setShowResults] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const { cells, bufferCells, map, layout, bufferConfig } = context;
+    const matches = useMemo(
+        () => searchCells(query, { cells, bufferCells, map, layout, bufferConfig }),
+        [query, cells, bufferCells, map, layout, bufferConfig]
+    );
+
+    // Focus the field whenever the bar opens
+    useEffect(() => {
+        if (isOpen) inputRef.current?.select();
+    }, [isOpen]);
+
+    // Edits can shrink the result list under the current position
+    useEffect(() => {
+        if (index >= matches.length) setIndex(matches.length - 1);
+    }, [matches.length, index]);
+
+    if (!isOpen) return null;
+
+    const formatLocation = (match: SearchMatch) =>
+        match.grid === 'buffer' ? getBufferLocationCode(match.row, match.col) : getLocationCode(match.row, match.col);
+
+    const goTo = (next: number) => {
+        if (matches.length === 0) return;
+        const wrapped = (next + matches.length) % matches.length;
+        setIndex(wrapped);
+        setShowResults(false);
+        onSelectMatch(matches[wrapped]);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            goTo(e.shiftKey ? index - 1 : index + 1);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div className="search-bar">
+            <div className="search-row">
+                <span className="search-icon">🔍</span>
+                <input
+                    ref={inputRef}
+                    type="text"
+                    className="search-input"
+                    value={query}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setIndex(-1);
+                        setShowResults(true);
+                    }}
+                    onFocus={() => setShowResults(true)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Code, code3, note, qty>500 or location"
+                    autoFocus
+                />
+                <span className="search-count">
+                    {query.trim() && (matches.length === 0
+                        ? 'No matches'
+                        : `${index >= 0 ? index + 1 : '–'} / ${matches.length}`)}
+                </span>
+                <button
+                    className="toolbar-icon-btn"
+                    onClick={() => goTo(index - 1)}
+                    disabled={matches.length === 0}
+                    title="Previous (Shift+Enter)"
+                >
+                    ▲
+                </button>
+                <button
+                    className="toolbar-icon-btn"
+                    onClick={() => goTo(index + 1)}
+                    disabled={matches.length === 0}
+                    title="Next (Enter)"
+                >
+                    ▼
+                </button>
+                <button className="toolbar-icon-btn" onClick={onClose} title="Close (Esc)">
+                    ✕
+                </button>
+            </div>
+
+            {showResults && matches.length > 0 && (
+                <div className="search-results">
+                    {matches.slice(0, MAX_LISTED).map((match, i) => (
+                        <button
+                            key={`${match.grid}:${match.row}-${match.col}:${match.reason}`}
+                            className={`search-result ${i === index ? 'active' : ''}`}
+                            onClick={() => goTo(i)}
+                        >
+                            <span className="search-result-location">
+                                {match.grid === 'buffer' ? '📦 ' : ''}{formatLocation(match)}
+                            </span>
+                            {match.cell && cellHasContent(match.cell) ? (
+                                <>
+                                    <span
+                                        className="search-result-code"
+                                        style={{ color: getMaterialColor(match.cell.code1, catalog).primary }}
+                                    >
+                                        {getCombinedCode(match.cell)}
+                                    </span>
+                                    <span className="search-result-qty">{match.cell.quantity}</span>
+                                </>
+                            ) : (
+                                <span className="search-result-code empty">(empty)</span>
+                            )}
+                            <span className="search-result-reason">{REASON_LABELS[match.reason]}</span>
+                        </button>
+                    ))}
+                    {matches.length > MAX_LISTED && (
+                        <div className="search-more">
+                            {matches.length - MAX_LISTED} more — use ▲ ▼ to step through all
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SearchBar;
@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import { CellData, cellHasContent, formatGridRange, getBoundingRange, getRangeSize } from '../types';
+
+interface SelectionBarProps {
+    selectedKeys: string[];
+    cells: Map<string, CellData>;
+    onClear: () => void;
+}
+
+// Size and stock of a multi-cell selection
+export const SelectionBar: React.FC<SelectionBarProps> = ({
+    selectedKeys,
+    cells,
+    onClear,
+}) => {
+    const stats = useMemo(() => {
+        let filled = 0;
+        let quantity = 0;
+        selectedKeys.forEach(key => {
+            const cell = cells.get(key);
+            if (cell && cellHasContent(cell)) {
+                filled++;
+                quantity += cell.quantity;
+            }
+        });
+        // Name the range when the selection is exactly a rectangle
+        const range = getBoundingRange(selectedKeys);
+        const rangeLabel = range && getRangeSize(range) === selectedKeys.length ? formatGridRange(range) : null;
+        return { filled, quantity, rangeLabel };
+    }, [selectedKeys, cells]);
+
+    if (selectedKeys.length < 2) return null;
+
+    return (
+        <div className="filter-bar selection-bar">
+            <span className="filter-bar-label">Selection</span>
+            {stats.rangeLabel && <span className="selection-bar-range">{stats.rangeLabel}</span>}
+            <div className="selection-bar-stats">
+                <span>{selectedKeys.length} cells</span>
+                <span>{stats.filled} with stock</span>
+                <span>Qty {stats.quantity.toLocaleString()}</span>
+            </div>
+            <button className="filter-bar-btn" onClick={onClear}>Clear</button>
+        </div>
+    );
+};
+
+export default SelectionBar;
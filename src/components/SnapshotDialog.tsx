@@ -0,0 +1,106 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { SNAPSHOT_KIND_LABELS, SnapshotInfo } from '../snapshot';
+import { loadSnapshots, takeSnapshot } from '../storage';
+
+interface SnapshotDialogProps {
+    isOpen: boolean;
+    mapId: string;
+    mapName: string;
+    onRestore: (snapshot: SnapshotInfo) => void;
+    onClose: () => void;
+}
+
+export const SnapshotDialog: React.FC<SnapshotDialogProps> = ({
+    isOpen,
+    mapId,
+    mapName,
+    onRestore,
+    onClose,
+}) => {
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const reload = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setSnapshots(await loadSnapshots(mapId));
+        } catch (error) {
+            console.error('Failed to load snapshots:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [mapId]);
+
+    useEffect(() => {
+        if (isOpen) reload();
+    }, [isOpen, reload]);
+
+    if (!isOpen) return null;
+
+    const handleTakeSnapshot = async () => {
+        setIsSaving(true);
+        try {
+            await takeSnapshot(mapId, 'manual');
+            await reload();
+        } catch (error) {
+            console.error('Failed to take snapshot:', error);
+            alert('Failed to take snapshot');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Snapshots · {mapName}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Close</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="settings-hint">
+                        Taken every hour while the map changes and before Clear All, imports and restores.
+                        Hourly snapshots are kept for a day, then one per day for a month.
+                    </div>
+
+                    <button
+                        type="button"
+                        className="filter-add-btn snapshot-take-btn"
+                        onClick={handleTakeSnapshot}
+                        disabled={isSaving}
+                    >
+                        {isSaving ? 'Saving…' : '+ Take snapshot now'}
+                    </button>
+
+                    <div className="snapshot-list">
+                        {isLoading && snapshots.length === 0 ? (
+                            <div className="empty-summary">Loading…</div>
+                        ) : snapshots.length === 0 ? (
+                            <div className="empty-summary">No snapshots yet</div>
+                        ) : (
+                            snapshots.map(snapshot => (
+                                <div key={snapshot.id} className="snapshot-row">
+                                    <div className="snapshot-info">
+                                        <span className="snapshot-date">{new Date(snapshot.timestamp).toLocaleString()}</span>
+                                        <span className="snapshot-meta">
+                                            {SNAPSHOT_KIND_LABELS[snapshot.kind]} · {snapshot.cellCount} cells · qty {snapshot.totalQuantity.toLocaleString()}
+                                        </span>
+                                    </div>
+                                    <button className="snapshot-restore-btn" onClick={() => onRestore(snapshot)}>
+                                        Restore
+                                    </button>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SnapshotDialog;
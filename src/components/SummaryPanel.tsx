@@ -1,61 +1,63 @@
 import React, { useMemo, useState } from 'react';
+import { CellData, getCombinedCode } from '../types';
 import {
-    CellData,
-    MaterialSummary,
-    cellHasContent,
+    MaterialCatalog,
+    compareSummaries,
+    findMaterialFamily,
     getMaterialColor,
-    getCombinedCode,
-} from '../types';
+    isSummarizedCell,
+    summarizeMaterials,
+} from '../catalog';
 
 interface SummaryPanelProps {
     cells: Map<string, CellData>;
+    catalog: MaterialCatalog;
     isExpanded: boolean;
     onToggle: () => void;
     onItemClick?: (combinedCode: string) => void;
+    getLocationCode: (row: number, col: number) => string;
+    isFiltered?: boolean;        // Cells were narrowed down by the active filter
+    includeStockHold?: boolean;  // Count stock-hold cells too (when filtering for them)
 }
 
 export const SummaryPanel: React.FC<SummaryPanelProps> = ({
     cells,
+    catalog,
     isExpanded,
     onToggle,
     onItemClick,
+    getLocationCode,
+    isFiltered = false,
+    includeStockHold = false,
 }) => {
     const [sortBy, setSortBy] = useState<'code' | 'quantity' | 'count'>('code');
     const [sortAsc, setSortAsc] = useState(true);
+    const [drillDownCode, setDrillDownCode] = useState<string | null>(null);
 
-    // Aggregate materials from all cells (synchronous, pure function)
-    const summaries = useMemo(() => {
-        const materialMap = new Map<string, MaterialSummary>();
-
+    // Cells per combined code, for the drill-down list
+    const cellsByCode = useMemo(() => {
+        const byCode = new Map<string, CellData[]>();
         cells.forEach((cell) => {
-            if (cell.isBoundary || cell.isStockHold || !cellHasContent(cell) || !cell.code1) return;
-
-            const combinedCode = getCombinedCode(cell);
-            const existing = materialMap.get(combinedCode);
-
-            if (existing) {
-                existing.totalQuantity += cell.quantity;
-                existing.cellCount += 1;
-            } else {
-                materialMap.set(combinedCode, {
-                    code1: cell.code1,
-                    code2: cell.code2,
-                    code3: cell.code3,
-                    combinedCode,
-                    totalQuantity: cell.quantity,
-                    cellCount: 1,
-                });
-            }
+            if (!isSummarizedCell(cell, includeStockHold)) return;
+            const code = getCombinedCode(cell);
+            const list = byCode.get(code);
+            if (list) list.push(cell);
+            else byCode.set(code, [cell]);
         });
+        byCode.forEach(list => list.sort((a, b) => a.row - b.row || a.col - b.col));
+        return byCode;
+    }, [cells, includeStockHold]);
 
-        let result = Array.from(materialMap.values());
+    // Aggregate materials from all cells (synchronous, pure function)
+    const summaries = useMemo(() => {
+        const result = summarizeMaterials(cells.values(), catalog, includeStockHold);
 
         // Sort
         result.sort((a, b) => {
             let comparison = 0;
             switch (sortBy) {
                 case 'code':
-                    comparison = a.combinedCode.localeCompare(b.combinedCode);
+                    comparison = compareSummaries(catalog, a, b);
                     break;
                 case 'quantity':
                     comparison = a.totalQuantity - b.totalQuantity;
@@ -68,7 +70,7 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
         });
 
         return result;
-    }, [cells, sortBy, sortAsc]);
+    }, [cells, catalog, sortBy, sortAsc, includeStockHold]);
 
     const totalQuantity = useMemo(() => {
         return summaries.reduce((sum, s) => sum + s.totalQuantity, 0);
@@ -95,7 +97,7 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
             {isExpanded && (
                 <div className="summary-content">
                     <div className="summary-header">
-                        <h3>Material Summary</h3>
+                        <h3>Material Summary{isFiltered && <span className="summary-filtered"> · filtered</span>}</h3>
                         <div className="summary-stats">
                             <span>{summaries.length} types</span>
                             <span>•</span>
@@ -127,17 +129,22 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
                     <div className="summary-list">
                         {summaries.length === 0 ? (
                             <div className="empty-summary">
-                                No materials recorded yet
+                                {isFiltered ? 'No materials match the filter' : 'No materials recorded yet'}
                             </div>
                         ) : (
                             summaries.map((summary) => {
                                 // Get color dynamically from code1
-                                const materialColor = getMaterialColor(summary.code1);
+                                const materialColor = getMaterialColor(summary.code1, catalog);
+                                const family = findMaterialFamily(catalog, summary.code1);
+                                const isDrilledDown = drillDownCode === summary.combinedCode;
                                 return (
+                                    <React.Fragment key={summary.combinedCode}>
                                     <div
-                                        key={summary.combinedCode}
-                                        className="summary-item"
-                                        onClick={() => onItemClick?.(summary.combinedCode)}
+                                        className={`summary-item ${isDrilledDown ? 'drilled-down' : ''}`}
+                                        onClick={() => {
+                                            onItemClick?.(summary.combinedCode);
+                                            setDrillDownCode(isDrilledDown ? null : summary.combinedCode);
+                                        }}
                                     >
                                         <div
                                             className="material-indicator"
@@ -152,12 +159,27 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
                                             </span>
                                             <span className="cell-count">
                                                 {summary.cellCount} cell{summary.cellCount > 1 ? 's' : ''}
+                                                {family?.description && ` · ${family.description}`}
                                             </span>
                                         </div>
                                         <div className="material-quantity">
                                             {summary.totalQuantity}
+                                            {family?.unit && <span className="material-unit">{family.unit}</span>}
                                         </div>
                                     </div>
+                                    {isDrilledDown && (
+                                        <div className="summary-locations">
+                                            {(cellsByCode.get(summary.combinedCode) ?? []).map(cell => (
+                                                <div key={`${cell.row}-${cell.col}`} className="summary-location">
+                                                    <span className="summary-location-code">
+                                                        {getLocationCode(cell.row, cell.col)}
+                                                    </span>
+                                                    <span className="summary-location-qty">{cell.quantity}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    </React.Fragment>
                                 );
                             })
                         )}
@@ -1,25 +1,137 @@
 import React, { useRef, useState } from 'react';
+import { WarehouseMap } from '../types';
 
 interface ToolbarProps {
+    maps: WarehouseMap[];
+    activeMapId: string;
+    onSwitchMap: (mapId: string) => void;
+    onCreateMap: (name: string) => void;
+    onRenameMap: (name: string) => void;
+    onDuplicateMap: (name: string) => void;
+    onDeleteMap: () => void;
+    onOpenGridSettings: () => void;
+    onOpenMaterials: () => void;
+    onOpenLedger: () => void;
+    onOpenSnapshots: () => void;
+    onOpenCompare: () => void;
     onClearAll: () => void;
+    onUndo: () => void;
+    onRedo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
     onExport: () => void;
-    onImport: (data: string) => void;
+    onImport: (data: string, fileName: string) => void;
+    onExportCsv: () => void;
+    onExportXlsx: () => void;
+    onOpenPrint: () => void;
+    onImportCsv: (text: string, fileName: string) => void;
     isSelectMode: boolean;
     onToggleSelectMode: () => void;
+    isLayoutMode: boolean;
+    onToggleLayoutMode: () => void;
+    onOpenSearch: () => void;
+    onOpenFilter: () => void;
+    isFilterActive: boolean;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
+    maps,
+    activeMapId,
+    onSwitchMap,
+    onCreateMap,
+    onRenameMap,
+    onDuplicateMap,
+    onDeleteMap,
+    onOpenGridSettings,
+    onOpenMaterials,
+    onOpenLedger,
+    onOpenSnapshots,
+    onOpenCompare,
     onClearAll,
+    onUndo,
+    onRedo,
+    canUndo,
+    canRedo,
     onExport,
     onImport,
+    onExportCsv,
+    onExportXlsx,
+    onOpenPrint,
+    onImportCsv,
     isSelectMode,
     onToggleSelectMode,
+    isLayoutMode,
+    onToggleLayoutMode,
+    onOpenSearch,
+    onOpenFilter,
+    isFilterActive,
 }) => {
     const [showMenu, setShowMenu] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const csvInputRef = useRef<HTMLInputElement>(null);
+
+    const activeMap = maps.find(m => m.id === activeMapId);
+
+    // Ask for a map name; returns null when cancelled or blank
+    const promptMapName = (message: string, initial: string): string | null => {
+        const name = prompt(message, initial)?.trim();
+        return name ? name : null;
+    };
+
+    const handleCreateMap = () => {
+        const name = promptMapName('Name of the new map:', '');
+        if (name) onCreateMap(name);
+        setShowMenu(false);
+    };
+
+    const handleRenameMap = () => {
+        const name = promptMapName('Rename map:', activeMap?.name ?? '');
+        if (name) onRenameMap(name);
+        setShowMenu(false);
+    };
+
+    const handleDuplicateMap = () => {
+        const name = promptMapName('Name of the copy:', `${activeMap?.name ?? 'Map'} (copy)`);
+        if (name) onDuplicateMap(name);
+        setShowMenu(false);
+    };
+
+    const handleDeleteMap = () => {
+        if (maps.length <= 1) {
+            alert('At least one map is required.');
+        } else if (confirm(`Delete map "${activeMap?.name}" with all its cells? This cannot be undone.`)) {
+            onDeleteMap();
+        }
+        setShowMenu(false);
+    };
+
+    const handleOpenGridSettings = () => {
+        onOpenGridSettings();
+        setShowMenu(false);
+    };
+
+    const handleOpenMaterials = () => {
+        onOpenMaterials();
+        setShowMenu(false);
+    };
+
+    const handleOpenLedger = () => {
+        onOpenLedger();
+        setShowMenu(false);
+    };
+
+    const handleOpenSnapshots = () => {
+        onOpenSnapshots();
+        setShowMenu(false);
+    };
+
+    const handleOpenCompare = () => {
+        onOpenCompare();
+        setShowMenu(false);
+    };
 
     const handleClearAll = () => {
-        if (confirm('Clear all cell data? This cannot be undone.')) {
+        if (confirm('Clear all cell data? You can still undo this until the app is reloaded.')) {
             onClearAll();
             setShowMenu(false);
         }
@@ -35,21 +147,43 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         setShowMenu(false);
     };
 
-    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
+    const handleExportCsv = () => {
+        onExportCsv();
+        setShowMenu(false);
+    };
+
+    const handleExportXlsx = () => {
+        onExportXlsx();
+        setShowMenu(false);
+    };
+
+    const handleOpenPrint = () => {
+        onOpenPrint();
+        setShowMenu(false);
+    };
+
+    const handleImportCsvClick = () => {
+        csvInputRef.current?.click();
+        setShowMenu(false);
+    };
+
+    const handleFileChange = async (
+        e: React.ChangeEvent<HTMLInputElement>,
+        onRead: (text: string, fileName: string) => void
+    ) => {
+        const input = e.target;
+        const file = input.files?.[0];
         if (!file) return;
 
         try {
             const text = await file.text();
-            onImport(text);
+            onRead(text, file.name);
         } catch (error) {
             alert('Failed to read file');
         }
 
-        // Reset input
-        if (fileInputRef.current) {
-            fileInputRef.current.value = '';
-        }
+        // Reset input so the same file can be chosen again
+        input.value = '';
     };
 
     return (
@@ -57,9 +191,54 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             <div className="toolbar-title">
                 <span className="app-icon">📦</span>
                 Inventory Mapper
+                <select
+                    className="map-select"
+                    value={activeMapId}
+                    onChange={(e) => onSwitchMap(e.target.value)}
+                    title="Switch map"
+                >
+                    {maps.map(m => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                </select>
             </div>
 
             <div className="toolbar-actions" style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+                <button
+                    className="toolbar-icon-btn"
+                    onClick={onOpenSearch}
+                    title="Search (Ctrl+F)"
+                >
+                    🔍
+                </button>
+
+                <button
+                    className={`toolbar-icon-btn ${isFilterActive ? 'active' : ''}`}
+                    onClick={onOpenFilter}
+                    title="Filter"
+                >
+                    ⛛
+                </button>
+
+                <div className="toolbar-history">
+                    <button
+                        className="toolbar-icon-btn"
+                        onClick={onUndo}
+                        disabled={!canUndo}
+                        title="Undo (Ctrl+Z)"
+                    >
+                        ↶
+                    </button>
+                    <button
+                        className="toolbar-icon-btn"
+                        onClick={onRedo}
+                        disabled={!canRedo}
+                        title="Redo (Ctrl+Y)"
+                    >
+                        ↷
+                    </button>
+                </div>
+
                 <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }}>
                     <input 
                         type="checkbox" 
@@ -70,6 +249,16 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     Multi-Select
                 </label>
 
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: isLayoutMode ? 'var(--accent-primary)' : 'var(--text-secondary)', cursor: 'pointer' }}>
+                    <input 
+                        type="checkbox" 
+                        checked={isLayoutMode} 
+                        onChange={onToggleLayoutMode} 
+                        style={{ cursor: 'pointer' }}
+                    />
+                    Edit Layout
+                </label>
+
                 <button
                     className="menu-btn"
                     onClick={() => setShowMenu(!showMenu)}
@@ -81,12 +270,52 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     <>
                         <div className="menu-backdrop" onClick={() => setShowMenu(false)} />
                         <div className="dropdown-menu">
+                            <button onClick={handleCreateMap}>
+                                <span>🗺️</span> New Map
+                            </button>
+                            <button onClick={handleRenameMap}>
+                                <span>✏️</span> Rename Map
+                            </button>
+                            <button onClick={handleDuplicateMap}>
+                                <span>📑</span> Duplicate Map
+                            </button>
+                            <button onClick={handleOpenGridSettings}>
+                                <span>⚙️</span> Grid Settings
+                            </button>
+                            <button onClick={handleOpenMaterials}>
+                                <span>🎨</span> Materials
+                            </button>
+                            <button onClick={handleOpenLedger}>
+                                <span>📒</span> Stock Ledger
+                            </button>
+                            <button className="danger" onClick={handleDeleteMap}>
+                                <span>🗑️</span> Delete Map
+                            </button>
+                            <div className="menu-divider" />
                             <button onClick={handleExport}>
                                 <span>📤</span> Export Data
                             </button>
                             <button onClick={handleImportClick}>
                                 <span>📥</span> Import Data
                             </button>
+                            <button onClick={handleExportCsv}>
+                                <span>📄</span> Export CSV
+                            </button>
+                            <button onClick={handleImportCsvClick}>
+                                <span>📑</span> Import CSV
+                            </button>
+                            <button onClick={handleExportXlsx}>
+                                <span>📊</span> Export Excel
+                            </button>
+                            <button onClick={handleOpenPrint}>
+                                <span>🖨️</span> Print Report
+                            </button>
+                            <button onClick={handleOpenSnapshots}>
+                                <span>🕒</span> Snapshots
+                            </button>
+                            <button onClick={handleOpenCompare}>
+                                <span>🔀</span> Compare
+                            </button>
                             <div className="menu-divider" />
                             <button className="danger" onClick={handleClearAll}>
                                 <span>🗑️</span> Clear All
@@ -99,7 +328,14 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     ref={fileInputRef}
                     type="file"
                     accept=".json"
-                    onChange={handleFileChange}
+                    onChange={(e) => handleFileChange(e, onImport)}
+                    style={{ display: 'none' }}
+                />
+                <input
+                    ref={csvInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => handleFileChange(e, onImportCsv)}
                     style={{ display: 'none' }}
                 />
             </div>
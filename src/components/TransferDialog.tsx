@@ -0,0 +1,109 @@
+import React from 'react';
+import { GridKind } from '../types';
+import { TRANSFER_STRATEGY_HINTS, TRANSFER_STRATEGY_LABELS, TransferPlan, TransferStrategy } from '../placement';
+
+interface TransferDialogProps {
+    isOpen: boolean;
+    targetGrid: GridKind;
+    cellCount: number;
+    strategy: TransferStrategy;
+    targetCode: string;        // Location typed for the 'target' strategy
+    targetFound: boolean;      // Whether targetCode names a slot on the target grid
+    plan: TransferPlan | null;
+    onStrategyChange: (strategy: TransferStrategy) => void;
+    onTargetCodeChange: (code: string) => void;
+    onMove: () => void;
+    onClose: () => void;
+}
+
+const STRATEGIES: TransferStrategy[] = ['shape', 'nearest', 'material', 'target'];
+
+// Asked before cells move between the main grid and the buffer. The slots
+// they would take are drawn on the target grid behind the dialog.
+export const TransferDialog: React.FC<TransferDialogProps> = ({
+    isOpen,
+    targetGrid,
+    cellCount,
+    strategy,
+    targetCode,
+    targetFound,
+    plan,
+    onStrategyChange,
+    onTargetCodeChange,
+    onMove,
+    onClose,
+}) => {
+    if (!isOpen || !plan) return null;
+
+    const moved = plan.placements.length;
+    const notMoved = plan.unplaced.length;
+    const targetName = targetGrid === 'buffer' ? 'buffer' : 'main grid';
+
+    return (
+        <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="dialog">
+                <div className="editor-header">
+                    <h2>Move to {targetGrid === 'buffer' ? 'Buffer' : 'Main Grid'}</h2>
+                    <div className="editor-header-actions">
+                        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+                        <button className="save-btn" onClick={onMove} disabled={moved === 0}>Move</button>
+                    </div>
+                </div>
+
+                <div className="editor-content">
+                    <div className="form-group">
+                        <label>PLACEMENT</label>
+                        <div className="filter-options">
+                            {STRATEGIES.map(s => (
+                                <button
+                                    key={s}
+                                    type="button"
+                                    className={`filter-option ${strategy === s ? 'active' : ''}`}
+                                    onClick={() => onStrategyChange(s)}
+                                >
+                                    {TRANSFER_STRATEGY_LABELS[s]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="settings-hint">{TRANSFER_STRATEGY_HINTS[strategy]}</div>
+                    </div>
+
+                    {strategy === 'target' && (
+                        <div className="form-group">
+                            <label>TARGET CELL</label>
+                            <input
+                                type="text"
+                                value={targetCode}
+                                onChange={(e) => onTargetCodeChange(e.target.value)}
+                                placeholder={targetGrid === 'buffer' ? 'e.g. BUF-A1' : 'e.g. B3'}
+                                autoFocus
+                            />
+                            {targetCode.trim() !== '' && !targetFound && (
+                                <div className="settings-hint">No slot with this location on the {targetName}.</div>
+                            )}
+                        </div>
+                    )}
+
+                    {notMoved > 0 && (strategy !== 'target' || targetFound) && (
+                        <div className={`dialog-notice ${moved === 0 ? 'error' : 'warning'}`}>
+                            {strategy === 'shape'
+                                ? `No free area on the ${targetName} fits the block — ${notMoved} ${notMoved === 1 ? 'cell' : 'cells'} not moved.`
+                                : strategy === 'target'
+                                    ? `${notMoved} ${notMoved === 1 ? 'cell lands' : 'cells land'} on stock, a wall or off the grid — not moved.`
+                                    : `Target full — ${notMoved} ${notMoved === 1 ? 'cell' : 'cells'} not moved.`}
+                        </div>
+                    )}
+
+                    {moved > 0 && (
+                        <div className="settings-hint">
+                            {moved} of {cellCount} cells will be moved in one step
+                            {notMoved > 0 ? '; the rest stay where they are and stay selected.' : '.'}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TransferDialog;
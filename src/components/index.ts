@@ -3,5 +3,23 @@ export { CellEditor } from './CellEditor';
 export { SummaryPanel } from './SummaryPanel';
 export { BufferGridPanel } from './BufferGridPanel';
 export { Toolbar } from './Toolbar';
+export { GridSettingsDialog } from './GridSettingsDialog';
+export { LayoutCellEditor } from './LayoutCellEditor';
+export { Minimap } from './Minimap';
+export { SearchBar } from './SearchBar';
+export { FilterBar } from './FilterBar';
+export { SelectionBar } from './SelectionBar';
+export { FilterDialog } from './FilterDialog';
+export { MaterialCatalogDialog } from './MaterialCatalogDialog';
+export { LedgerDialog } from './LedgerDialog';
+export { SnapshotDialog } from './SnapshotDialog';
+export { DiffDialog } from './DiffDialog';
+export { ImportDialog } from './ImportDialog';
+export { CsvImportDialog } from './CsvImportDialog';
+export { PrintDialog } from './PrintDialog';
+export { DropConflictDialog } from './DropConflictDialog';
+export { DragGhost } from './DragGhost';
+export { PasteDialog } from './PasteDialog';
+export { TransferDialog } from './TransferDialog';
 
 export { CellActionMenu } from './CellActionMenu';
@@ -0,0 +1,261 @@
+import { CellData, GridKind, GridPosition, MapCell, WarehouseMap, cellHasContent, getCombinedCode } from './types';
+import { EXPORT_FORMAT_VERSION, RejectedRecord, parseLegacyMaterialCode } from './schema';
+import { buildLocationIndex, parseA1, parseBufferLocation } from './location';
+
+// ========== READING AND WRITING ==========
+
+// Quote a value when it contains the delimiter, quotes or line breaks (RFC 4180)
+function quoteCsvValue(value: string, delimiter: string): string {
+    return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: (string | number)[][], delimiter = ','): string {
+    return rows.map(row => row.map(v => quoteCsvValue(String(v), delimiter)).join(delimiter)).join('\r\n');
+}
+
+// Spreadsheets save with commas, semicolons or tabs depending on locale; pick the most used one in the header
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+    return counts.reduce((best, c) => c.n > best.n ? c : best).d;
+}
+
+// Parse CSV text into rows of values. Handles quoted values with delimiters, quotes and
+// line breaks, a leading byte order mark, and drops blank lines.
+export function parseCsv(text: string): string[][] {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (quoted) {
+            if (ch === '"' && source[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                value += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(value);
+            value = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += ch;
+        }
+    }
+    row.push(value);
+    rows.push(row);
+
+    return rows.filter(r => r.some(v => v.trim() !== ''));
+}
+
+// ========== EXPORT ==========
+
+export const INVENTORY_CSV_HEADER = [
+    'grid', 'location', 'code1', 'code2', 'code3', 'combined', 'quantity', 'note', 'boundary', 'stock hold', 'hasImage',
+];
+
+// One line per cell with content, main grid first, each grid in row/column order
+export function buildInventoryCsv(
+    cells: Map<string, CellData>,
+    bufferCells: Map<string, CellData>,
+    getLocation: (grid: GridKind, row: number, col: number) => string
+): string {
+    const lines = (grid: GridKind, map: Map<string, CellData>) => Array.from(map.values())
+        .filter(cellHasContent)
+        .sort((a, b) => a.row - b.row || a.col - b.col)
+        .map(cell => [
+            grid,
+            getLocation(grid, cell.row, cell.col),
+            cell.code1,
+            cell.code2,
+            cell.code3,
+            getCombinedCode(cell),
+            cell.quantity,
+            cell.note,
+            cell.isBoundary ? 'yes' : '',
+            cell.isStockHold ? 'yes' : '',
+            cell.imageId ? 'yes' : '',
+        ]);
+
+    // The byte order mark makes spreadsheet apps read the file as UTF-8
+    return '\uFEFF' + toCsv([INVENTORY_CSV_HEADER, ...lines('main', cells), ...lines('buffer', bufferCells)]);
+}
+
+// ========== IMPORT ==========
+
+export type CsvField =
+    | 'grid' | 'location' | 'code1' | 'code2' | 'code3' | 'material' | 'quantity' | 'note' | 'boundary' | 'stockHold';
+
+export const CSV_FIELDS: CsvField[] = [
+    'location', 'grid', 'code1', 'code2', 'code3', 'material', 'quantity', 'note', 'boundary', 'stockHold',
+];
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+    grid: 'Grid (main / buffer)',
+    location: 'Location',
+    code1: 'Code 1',
+    code2: 'Code 2',
+    code3: 'Code 3',
+    material: 'Material (whole code, e.g. S5 PIM)',
+    quantity: 'Quantity',
+    note: 'Note',
+    boundary: 'Boundary',
+    stockHold: 'Stock hold',
+};
+
+// Column index used for each field; unmapped fields are left out
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+// Header names recognised for each field (compared lowercased, without spaces, dashes and underscores)
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+    grid: ['grid'],
+    location: ['location', 'loc', 'a1', 'cell', 'slot', 'position'],
+    code1: ['code1', 'family'],
+    code2: ['code2', 'size'],
+    code3: ['code3', 'suffix'],
+    material: ['combined', 'material', 'materialcode', 'code'],
+    quantity: ['quantity', 'qty', 'amount', 'count'],
+    note: ['note', 'notes', 'comment', 'remarks'],
+    boundary: ['boundary', 'isboundary'],
+    stockHold: ['stockhold', 'hold', 'isstockhold'],
+};
+
+function normalizeHeader(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+// Mapping suggested from the header row; each column is used for one field at most
+export function guessCsvMapping(header: string[]): CsvMapping {
+    const mapping: CsvMapping = {};
+    const used = new Set<number>();
+    for (const field of CSV_FIELDS) {
+        const index = header.findIndex((name, i) => !used.has(i) && FIELD_ALIASES[field].includes(normalizeHeader(name)));
+        if (index >= 0) {
+            mapping[field] = index;
+            used.add(index);
+        }
+    }
+    return mapping;
+}
+
+// Why a mapping cannot be used, or null when it can
+export function validateCsvMapping(mapping: CsvMapping): string | null {
+    if (mapping.location === undefined) return 'Choose the column with the location.';
+    if (mapping.code1 === undefined && mapping.material === undefined) {
+        return 'Choose a Code 1 column or a Material column.';
+    }
+    if (mapping.quantity === undefined) return 'Choose the column with the quantity.';
+    return null;
+}
+
+function parseYesNo(value: string): boolean | undefined {
+    return /^(yes|y|true|1|x|✓)$/i.test(value.trim()) || undefined;
+}
+
+// Numbers may use thousands separators ("4,000") or a decimal comma ("2,5"); anything else
+// is passed on as text for validation to reject
+function parseQuantity(value: string): number | string {
+    const trimmed = value.trim().replace(/\s/g, '');
+    if (trimmed === '') return 0;
+    let normalized = trimmed;
+    if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(trimmed)) normalized = trimmed.replace(/,/g, '');
+    else if (/^\d+,\d+$/.test(trimmed)) normalized = trimmed.replace(',', '.');
+    const number = Number(normalized);
+    return Number.isFinite(number) ? number : value;
+}
+
+export type CsvLocationResolver = (text: string, grid: GridKind | null) => (GridPosition & { grid: GridKind }) | null;
+
+// Find the slot a CSV location names: a buffer code ("BUF-A1"), a location code of the map or
+// a plain A1 reference. The grid column, when given, limits the search to that grid.
+export function createLocationResolver(
+    map: WarehouseMap | undefined,
+    layout: Map<string, MapCell>
+): CsvLocationResolver {
+    const index = buildLocationIndex(map, layout);
+    return (text, grid) => {
+        if (!text) return null;
+        if (grid !== 'main') {
+            const buffer = parseBufferLocation(text);
+            if (buffer) return { ...buffer, grid: 'buffer' };
+            if (grid === 'buffer') {
+                const a1 = parseA1(text);
+                return a1 ? { ...a1, grid: 'buffer' } : null;
+            }
+        }
+        const main = index.get(text.trim().toUpperCase()) ?? parseA1(text);
+        return main ? { ...main, grid: 'main' } : null;
+    };
+}
+
+export interface CsvConversion {
+    data: { formatVersion: number; cells: object[]; bufferCells: object[] };
+    rejected: RejectedRecord[];   // Lines whose location could not be found
+}
+
+// Turn CSV rows (header first) into export records, so they go through the same validation
+// and import preview as a JSON file. A single material column is split like legacy codes.
+export function convertCsvRows(
+    rows: string[][],
+    mapping: CsvMapping,
+    resolveLocation: CsvLocationResolver
+): CsvConversion {
+    const cells: object[] = [];
+    const bufferCells: object[] = [];
+    const rejected: RejectedRecord[] = [];
+
+    rows.slice(1).forEach((row, i) => {
+        const line = i + 2;  // 1-based, after the header
+        const get = (field: CsvField) => {
+            const index = mapping[field];
+            return index === undefined ? '' : (row[index] ?? '').trim();
+        };
+
+        const gridText = get('grid').toLowerCase();
+        const grid: GridKind | null = gridText.startsWith('buf') ? 'buffer' : gridText.startsWith('main') ? 'main' : null;
+        const location = get('location');
+        const position = resolveLocation(location, grid);
+        if (!position) {
+            rejected.push({
+                section: grid === 'buffer' ? 'bufferCells' : 'cells',
+                index: i,
+                label: `line ${line}`,
+                reason: location ? `location ${location} does not exist on this map` : 'location is empty',
+            });
+            return;
+        }
+
+        const codes = mapping.code1 !== undefined
+            ? { code1: get('code1'), code2: get('code2'), code3: get('code3') }
+            : parseLegacyMaterialCode(get('material'));
+
+        const record = {
+            line,
+            location,
+            row: position.row,
+            col: position.col,
+            ...codes,
+            quantity: parseQuantity(get('quantity')),
+            note: get('note'),
+            isBoundary: parseYesNo(get('boundary')),
+            isStockHold: parseYesNo(get('stockHold')),
+        };
+        (position.grid === 'buffer' ? bufferCells : cells).push(record);
+    });
+
+    return { data: { formatVersion: EXPORT_FORMAT_VERSION, cells, bufferCells }, rejected };
+}
@@ -0,0 +1,235 @@
+import { CellData, GridConfig, GridKind, MapCell, canHoldInventory, cellHasContent, getCellKey, getCombinedCode } from './types';
+import { CellChange } from './history';
+
+// What happened to a cell between the current state and the compared one
+export type DiffKind = 'added' | 'removed' | 'moved' | 'quantity' | 'flags' | 'changed';
+
+export const DIFF_KIND_LABELS: Record<DiffKind, string> = {
+    added: 'Added',
+    removed: 'Removed',
+    moved: 'Moved',
+    quantity: 'Quantity',
+    flags: 'Flags',
+    changed: 'Changed',
+};
+
+export interface DiffSlot {
+    grid: GridKind;
+    row: number;
+    col: number;
+}
+
+// One reviewable difference. Items never share a slot, so any subset can be accepted.
+export interface DiffItem {
+    id: string;
+    kind: DiffKind;
+    grid: GridKind;          // Grid the change ends up in (the source grid for removals)
+    code1: string;
+    code: string;            // Combined code, e.g. "S5 PIM"
+    from: DiffSlot | null;   // Where the material is now (null when added)
+    to: DiffSlot | null;     // Where the compared state has it (null when removed)
+    details: string[];       // e.g. "qty 400 → 500", "stock hold on"
+    changes: CellChange[];   // Applying these accepts the item
+}
+
+export interface InventoryState {
+    cells: Map<string, CellData> | CellData[];
+    bufferCells: Map<string, CellData> | CellData[];
+}
+
+export interface InventoryDiff {
+    items: DiffItem[];
+    outOfBounds: number;  // Compared cells that don't fit the current grids and are ignored
+    blocked: number;      // Compared cells on a wall or text label of the current layout, ignored
+}
+
+type Located = DiffSlot & { cell: CellData };
+
+function toList(cells: Map<string, CellData> | CellData[]): CellData[] {
+    return Array.isArray(cells) ? cells : Array.from(cells.values());
+}
+
+function slotKey(slot: DiffSlot): string {
+    return `${slot.grid}:${getCellKey(slot.row, slot.col)}`;
+}
+
+const FLAG_LABELS: [keyof CellData, string][] = [
+    ['isStockHold', 'stock hold'],
+    ['isBoundary', 'boundary'],
+];
+
+// Human-readable differences between two versions of a cell with the same material
+function describeChanges(before: CellData, after: CellData): { quantity: boolean; flags: boolean; details: string[] } {
+    const details: string[] = [];
+    const quantity = before.quantity !== after.quantity;
+    if (quantity) details.push(`qty ${before.quantity} → ${after.quantity}`);
+
+    let flags = false;
+    for (const [key, label] of FLAG_LABELS) {
+        if (!!before[key] !== !!after[key]) {
+            flags = true;
+            details.push(`${label} ${after[key] ? 'on' : 'off'}`);
+        }
+    }
+
+    if (before.note !== after.note) details.push('note');
+    if (before.imageId !== after.imageId) details.push(after.imageId ? (before.imageId ? 'image replaced' : 'image added') : 'image removed');
+    return { quantity, flags, details };
+}
+
+// Same material, quantity, note, flags and image (position and calculation history aside)
+export function sameCellContent(a: CellData, b: CellData): boolean {
+    return a.code1 === b.code1 && a.code2 === b.code2 && a.code3 === b.code3 &&
+        a.quantity === b.quantity && a.note === b.note &&
+        !!a.isStockHold === !!b.isStockHold && !!a.isBoundary === !!b.isBoundary &&
+        (a.imageId ?? '') === (b.imageId ?? '');
+}
+
+// Compare the current grids with another state (a snapshot or an imported file).
+// A material that disappears from one slot and appears in an empty one with the same
+// combined code is reported as a move; a same-quantity match is preferred.
+export function diffInventories(
+    current: InventoryState,
+    compared: InventoryState,
+    configs: { main: GridConfig; buffer: GridConfig },
+    layout: Map<string, MapCell>  // Layout of the main grid; the buffer has none
+): InventoryDiff {
+    let outOfBounds = 0;
+    let blocked = 0;
+
+    const index = (state: InventoryState, checkBounds: boolean) => {
+        const slots = new Map<string, Located>();
+        const add = (grid: GridKind, cells: CellData[], config: GridConfig, mapCells: Map<string, MapCell> | null) => {
+            for (const cell of cells) {
+                if (!cellHasContent(cell)) continue;
+                if (checkBounds && (cell.row >= config.rows || cell.col >= config.cols)) {
+                    outOfBounds++;
+                    continue;
+                }
+                if (checkBounds && mapCells && !canHoldInventory(mapCells.get(getCellKey(cell.row, cell.col)))) {
+                    blocked++;
+                    continue;
+                }
+                const slot = { grid, row: cell.row, col: cell.col };
+                slots.set(slotKey(slot), { ...slot, cell });
+            }
+        };
+        add('main', toList(state.cells), configs.main, layout);
+        add('buffer', toList(state.bufferCells), configs.buffer, null);
+        return slots;
+    };
+
+    const now = index(current, false);
+    const then = index(compared, true);
+
+    const items: DiffItem[] = [];
+    const removed: Located[] = [];
+    const added: Located[] = [];
+
+    now.forEach((mine, key) => {
+        const theirs = then.get(key);
+        if (!theirs) {
+            removed.push(mine);
+            return;
+        }
+        if (sameCellContent(mine.cell, theirs.cell)) return;
+
+        const change: CellChange = { grid: mine.grid, row: mine.row, col: mine.col, before: mine.cell, after: theirs.cell };
+        const mineCode = getCombinedCode(mine.cell);
+        const theirCode = getCombinedCode(theirs.cell);
+        if (mineCode !== theirCode) {
+            items.push({
+                id: `changed:${key}`,
+                kind: 'changed',
+                grid: mine.grid,
+                code1: theirs.cell.code1,
+                code: theirCode,
+                from: mine,
+                to: theirs,
+                details: [`code ${mineCode} → ${theirCode}`],
+                changes: [change],
+            });
+            return;
+        }
+
+        const { quantity, flags, details } = describeChanges(mine.cell, theirs.cell);
+        items.push({
+            id: `${quantity ? 'quantity' : flags ? 'flags' : 'changed'}:${key}`,
+            kind: quantity ? 'quantity' : flags ? 'flags' : 'changed',
+            grid: mine.grid,
+            code1: theirs.cell.code1,
+            code: theirCode,
+            from: mine,
+            to: theirs,
+            details,
+            changes: [change],
+        });
+    });
+
+    then.forEach((theirs, key) => {
+        if (!now.has(key)) added.push(theirs);
+    });
+
+    // Pair removals with additions of the same material
+    const unmatched = new Set(added);
+    for (const source of removed) {
+        const code = getCombinedCode(source.cell);
+        const candidates = Array.from(unmatched).filter(a => getCombinedCode(a.cell) === code);
+        const target = candidates.find(a => a.cell.quantity === source.cell.quantity) ?? candidates[0];
+
+        if (!target) {
+            items.push({
+                id: `removed:${slotKey(source)}`,
+                kind: 'removed',
+                grid: source.grid,
+                code1: source.cell.code1,
+                code,
+                from: source,
+                to: null,
+                details: [`qty ${source.cell.quantity}`],
+                changes: [{ grid: source.grid, row: source.row, col: source.col, before: source.cell, after: null }],
+            });
+            continue;
+        }
+
+        unmatched.delete(target);
+        const { details } = describeChanges(source.cell, target.cell);
+        items.push({
+            id: `moved:${slotKey(source)}`,
+            kind: 'moved',
+            grid: target.grid,
+            code1: source.cell.code1,
+            code,
+            from: source,
+            to: target,
+            details,
+            changes: [
+                { grid: source.grid, row: source.row, col: source.col, before: source.cell, after: null },
+                { grid: target.grid, row: target.row, col: target.col, before: null, after: target.cell },
+            ],
+        });
+    }
+
+    unmatched.forEach(target => {
+        items.push({
+            id: `added:${slotKey(target)}`,
+            kind: 'added',
+            grid: target.grid,
+            code1: target.cell.code1,
+            code: getCombinedCode(target.cell),
+            from: null,
+            to: target,
+            details: [`qty ${target.cell.quantity}`],
+            changes: [{ grid: target.grid, row: target.row, col: target.col, before: null, after: target.cell }],
+        });
+    });
+
+    return { items, outOfBounds, blocked };
+}
+
+// Image ids the accepted changes bring in, so they can be stored with the cells
+export function getIncomingImageIds(changes: CellChange[]): Set<string> {
+    const ids = new Set<string>();
+    changes.forEach(c => { if (c.after?.imageId) ids.add(c.after.imageId); });
+    return ids;
+}
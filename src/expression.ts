@@ -0,0 +1,217 @@
+// Quantity expressions typed in the cell editor, e.g. "12 × 50 + 30" or "(4000 - 250) ÷ 2".
+// Numbers may have decimals; + − × ÷ and parentheses follow the usual precedence.
+
+export type ExpressionResult =
+    | { ok: true; value: number; steps: string[]; operatorCount: number }
+    | { ok: false; error: string };
+
+type Operator = '+' | '−' | '×' | '÷';
+
+type Token =
+    | { kind: 'number'; value: number; text: string; position: number }
+    | { kind: 'operator'; op: Operator; position: number }
+    | { kind: 'paren'; open: boolean; position: number };
+
+type Node =
+    | { kind: 'number'; value: number; text: string }
+    | { kind: 'negate'; operand: Node }
+    | { kind: 'group'; inner: Node }
+    | { kind: 'binary'; op: Operator; left: Node; right: Node };
+
+// Accepted spellings of each operator (keyboard and display forms)
+const OPERATOR_CHARS: Record<string, Operator> = {
+    '+': '+',
+    '-': '−',
+    '−': '−',
+    '*': '×',
+    'x': '×',
+    'X': '×',
+    '×': '×',
+    '/': '÷',
+    '÷': '÷',
+};
+
+// Results are rounded to this many decimals to hide binary float noise (0.1 + 0.2)
+const RESULT_DECIMALS = 6;
+
+// Thrown inside the parser and turned into an error result by evaluateQuantity
+class ParseError extends Error { }
+
+// Positions in messages are 1-based, as a user would count characters
+function at(position: number): string {
+    return `at position ${position + 1}`;
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[0-9.]/.test(ch)) {
+            const start = i;
+            while (i < text.length && /[0-9.]/.test(text[i])) i++;
+            const raw = text.slice(start, i);
+            if ((raw.match(/\./g) ?? []).length > 1) {
+                throw new ParseError(`"${raw}" has more than one decimal point`);
+            }
+            if (raw === '.') throw new ParseError(`A lone "." ${at(start)} is not a number`);
+            tokens.push({ kind: 'number', value: Number(raw), text: raw, position: start });
+        } else if (ch in OPERATOR_CHARS) {
+            tokens.push({ kind: 'operator', op: OPERATOR_CHARS[ch], position: i });
+            i++;
+        } else if (ch === '(' || ch === ')') {
+            tokens.push({ kind: 'paren', open: ch === '(', position: i });
+            i++;
+        } else {
+            throw new ParseError(`"${ch}" ${at(i)} is not allowed; use numbers, + − × ÷ and parentheses`);
+        }
+    }
+
+    return tokens;
+}
+
+// Recursive descent: sum := product (('+' | '−') product)*
+//                    product := unary (('×' | '÷') unary)*
+//                    unary := '−' unary | '+' unary | primary
+//                    primary := number | '(' sum ')'
+function parse(tokens: Token[]): Node {
+    let index = 0;
+    const peek = () => tokens[index];
+
+    const parseSum = (): Node => {
+        let node = parseProduct();
+        let token = peek();
+        while (token?.kind === 'operator' && (token.op === '+' || token.op === '−')) {
+            index++;
+            node = { kind: 'binary', op: token.op, left: node, right: parseProduct() };
+            token = peek();
+        }
+        return node;
+    };
+
+    const parseProduct = (): Node => {
+        let node = parseUnary();
+        let token = peek();
+        while (token?.kind === 'operator' && (token.op === '×' || token.op === '÷')) {
+            index++;
+            node = { kind: 'binary', op: token.op, left: node, right: parseUnary() };
+            token = peek();
+        }
+        return node;
+    };
+
+    const parseUnary = (): Node => {
+        const token = peek();
+        if (token?.kind === 'operator' && (token.op === '−' || token.op === '+')) {
+            index++;
+            const operand = parseUnary();
+            return token.op === '−' ? { kind: 'negate', operand } : operand;
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): Node => {
+        const token = peek();
+        if (!token) {
+            throw new ParseError(tokens.length === 0 ? 'Enter a quantity' : 'The expression ends with an operator');
+        }
+        if (token.kind === 'number') {
+            index++;
+            return { kind: 'number', value: token.value, text: token.text };
+        }
+        if (token.kind === 'paren' && token.open) {
+            index++;
+            const inner = parseSum();
+            const close = peek();
+            if (close?.kind !== 'paren' || close.open) {
+                throw new ParseError(`The "(" ${at(token.position)} is never closed`);
+            }
+            index++;
+            return { kind: 'group', inner };
+        }
+        if (token.kind === 'paren') {
+            throw new ParseError(`Unexpected ")" ${at(token.position)}`);
+        }
+        throw new ParseError(`Expected a number ${at(token.position)} but found "${token.op}"`);
+    };
+
+    const node = parseSum();
+    const extra = peek();
+    if (extra?.kind === 'paren' && !extra.open) {
+        throw new ParseError(`The ")" ${at(extra.position)} has no matching "("`);
+    }
+    if (extra) {
+        const found = extra.kind === 'number' ? extra.text : '(';
+        throw new ParseError(`Unexpected "${found}" ${at(extra.position)}; is an operator missing?`);
+    }
+    return node;
+}
+
+function evaluate(node: Node): number {
+    switch (node.kind) {
+        case 'number': return node.value;
+        case 'negate': return -evaluate(node.operand);
+        case 'group': return evaluate(node.inner);
+        case 'binary': {
+            const left = evaluate(node.left);
+            const right = evaluate(node.right);
+            switch (node.op) {
+                case '+': return left + right;
+                case '−': return left - right;
+                case '×': return left * right;
+                case '÷':
+                    if (right === 0) throw new ParseError('Cannot divide by zero');
+                    return left / right;
+            }
+        }
+    }
+}
+
+function format(node: Node): string {
+    switch (node.kind) {
+        case 'number': return node.text;
+        case 'negate': return `−${format(node.operand)}`;
+        case 'group': return `(${format(node.inner)})`;
+        case 'binary': return `${format(node.left)} ${node.op} ${format(node.right)}`;
+    }
+}
+
+function countOperators(node: Node): number {
+    switch (node.kind) {
+        case 'number': return 0;
+        case 'negate': return 1 + countOperators(node.operand);
+        case 'group': return countOperators(node.inner);
+        case 'binary': return 1 + countOperators(node.left) + countOperators(node.right);
+    }
+}
+
+// Split the top-level sum into its terms: "12 × 50 + 30 − 5" → ["12 × 50", "+30", "−5"]
+function sumTerms(node: Node): string[] {
+    if (node.kind === 'binary' && (node.op === '+' || node.op === '−')) {
+        return [...sumTerms(node.left), `${node.op}${format(node.right)}`];
+    }
+    return [format(node)];
+}
+
+function roundResult(value: number): number {
+    const factor = 10 ** RESULT_DECIMALS;
+    return Math.round(value * factor) / factor;
+}
+
+// Evaluate a quantity expression. Steps follow the calcHistory format:
+// the first term, each further "+term" / "−term", then "=result".
+export function evaluateQuantity(text: string): ExpressionResult {
+    try {
+        const tree = parse(tokenize(text));
+        const value = roundResult(evaluate(tree));
+        if (!Number.isFinite(value)) return { ok: false, error: 'The result is too large' };
+        if (value < 0) return { ok: false, error: `The result ${value} is negative; quantities cannot be below 0` };
+        return { ok: true, value, steps: [...sumTerms(tree), `=${value}`], operatorCount: countOperators(tree) };
+    } catch (error) {
+        if (error instanceof ParseError) return { ok: false, error: error.message };
+        throw error;
+    }
+}
@@ -0,0 +1,72 @@
+import { CellData, cellHasContent, getCombinedCode } from './types';
+import { parseQuantityFilter } from './search';
+
+// One criterion of the sticky cell filter
+export type CellFilter =
+    | { kind: 'code1'; code1: string }
+    | { kind: 'combined'; code: string }
+    | { kind: 'stockHold' }
+    | { kind: 'hasNote' }
+    | { kind: 'hasImage' }
+    | { kind: 'quantity'; expression: string };  // e.g. "qty>500", see parseQuantityFilter
+
+export type CellFilterKind = CellFilter['kind'];
+
+// Identity of a criterion, so the same one is not added twice
+export function getFilterKey(filter: CellFilter): string {
+    switch (filter.kind) {
+        case 'code1': return `code1:${filter.code1}`;
+        case 'combined': return `combined:${filter.code}`;
+        case 'quantity': return `quantity:${filter.expression.replace(/\s+/g, '').toLowerCase()}`;
+        default: return filter.kind;
+    }
+}
+
+// Chip label
+export function describeFilter(filter: CellFilter): string {
+    switch (filter.kind) {
+        case 'code1': return `Family ${filter.code1}`;
+        case 'combined': return filter.code;
+        case 'stockHold': return 'Stock hold';
+        case 'hasNote': return 'Has note';
+        case 'hasImage': return 'Has image';
+        case 'quantity': return filter.expression;
+    }
+}
+
+// Test for a single criterion
+function compileFilter(filter: CellFilter): (cell: CellData) => boolean {
+    switch (filter.kind) {
+        case 'code1': return cell => cell.code1 === filter.code1;
+        case 'combined': return cell => getCombinedCode(cell) === filter.code;
+        case 'stockHold': return cell => !!cell.isStockHold;
+        case 'hasNote': return cell => !!cell.note;
+        case 'hasImage': return cell => !!cell.imageId;
+        case 'quantity': {
+            const test = parseQuantityFilter(filter.expression);
+            return cell => test ? test(cell.quantity) : false;
+        }
+    }
+}
+
+// Build a cell test from criteria: criteria of the same kind are alternatives (OR),
+// different kinds must all hold (AND). Empty cells never match.
+export function createCellMatcher(filters: CellFilter[]): (cell: CellData | undefined) => boolean {
+    const byKind = new Map<CellFilterKind, ((cell: CellData) => boolean)[]>();
+    filters.forEach(f => byKind.set(f.kind, [...(byKind.get(f.kind) ?? []), compileFilter(f)]));
+    const groups = Array.from(byKind.values());
+
+    return (cell) => {
+        if (!cell || !cellHasContent(cell)) return false;
+        return groups.every(group => group.some(test => test(cell)));
+    };
+}
+
+// Cells that pass the filter (all cells when no filter is active)
+export function filterCells(cells: Map<string, CellData>, filters: CellFilter[]): Map<string, CellData> {
+    if (filters.length === 0) return cells;
+    const matches = createCellMatcher(filters);
+    const result = new Map<string, CellData>();
+    cells.forEach((cell, key) => { if (matches(cell)) result.set(key, cell); });
+    return result;
+}
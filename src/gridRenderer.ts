@@ -0,0 +1,427 @@
+import {
+    CellData,
+    GridConfig,
+    GridPosition,
+    MapCell,
+    cellHasContent,
+    getCellKey,
+    getColumnLabel,
+    getCombinedCode,
+    parseCellKey,
+} from './types';
+import { MaterialCatalog, getMaterialColor } from './catalog';
+import { DropPreview } from './cellMove';
+
+// Gap between cells (the grid background shows through it)
+export const GRID_GAP = 1;
+
+const FONT_FAMILY = "Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+// Colours match the grid styles in index.css
+export const GRID_COLORS = {
+    gap: '#2d5a27',
+    emptyCell: '#2a4a7f',
+    header: '#2d3561',
+    headerText: '#a0a0a0',
+    corner: '#1a1a2e',
+    code3: '#e8e8e8',
+    quantity: '#c0c0c0',
+    note: '#ffc107',
+    image: '#4fc3f7',
+    selection: '#42a5f5',
+    highlight: '255, 235, 59',
+    dropFree: '102, 187, 106',
+    dropOccupied: '255, 167, 38',
+    dropBlocked: '239, 83, 80',
+    layoutOutline: 'rgba(78, 205, 196, 0.35)',
+    dimmed: 'rgba(10, 14, 26, 0.7)',
+    locationCode: '#4ECDC4',
+};
+
+// Zoom limits of the main grid
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 2.5;
+
+// Below these scales cells drop detail: first code3 and quantity, then all text
+export const LOD_FULL_SCALE = 0.75;
+export const LOD_CODE_SCALE = 0.4;
+
+export function clampZoom(scale: number): number {
+    return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+}
+
+// ── Geometry ─────────────────────────────────────────────────────────────────
+
+export interface GridGeometry {
+    config: GridConfig;
+    scale: number;     // Zoom factor applied to cells (headers keep their size)
+    cellWidth: number; // Scaled cell size
+    cellHeight: number;
+    originX: number;   // Left edge of column 0 (after the row header)
+    originY: number;   // Top edge of row 0 (after the column header)
+    pitchX: number;    // Cell width + gap
+    pitchY: number;    // Cell height + gap
+    width: number;     // Full content width including headers
+    height: number;    // Full content height including headers
+}
+
+export function getGridGeometry(config: GridConfig, scale = 1): GridGeometry {
+    const cellWidth = config.cellWidth * scale;
+    const cellHeight = config.cellHeight * scale;
+    const originX = config.rowHeaderWidth + GRID_GAP;
+    const originY = config.headerHeight + GRID_GAP;
+    const pitchX = cellWidth + GRID_GAP;
+    const pitchY = cellHeight + GRID_GAP;
+    return {
+        config,
+        scale,
+        cellWidth,
+        cellHeight,
+        originX,
+        originY,
+        pitchX,
+        pitchY,
+        width: originX + config.cols * pitchX,
+        height: originY + config.rows * pitchY,
+    };
+}
+
+// Top-left corner of a cell in content coordinates
+export function getCellOrigin(geo: GridGeometry, row: number, col: number): { x: number; y: number } {
+    return { x: geo.originX + col * geo.pitchX, y: geo.originY + row * geo.pitchY };
+}
+
+// Cell under a point in content coordinates (null outside the grid)
+export function hitTestCell(geo: GridGeometry, x: number, y: number): GridPosition | null {
+    const col = Math.floor((x - geo.originX) / geo.pitchX);
+    const row = Math.floor((y - geo.originY) / geo.pitchY);
+    if (row < 0 || col < 0 || row >= geo.config.rows || col >= geo.config.cols) return null;
+    return { row, col };
+}
+
+// Visible window of the content: scroll offset and size in CSS pixels
+export interface GridViewport {
+    scrollX: number;
+    scrollY: number;
+    width: number;
+    height: number;
+}
+
+// Rows and columns showing between the sticky headers and the viewport edge (inclusive)
+export function getVisibleRange(geo: GridGeometry, view: GridViewport) {
+    const clamp = (v: number, max: number) => Math.max(0, Math.min(max, v));
+    return {
+        firstRow: clamp(Math.floor(view.scrollY / geo.pitchY), geo.config.rows - 1),
+        lastRow: clamp(Math.floor((view.scrollY + view.height - geo.originY) / geo.pitchY), geo.config.rows - 1),
+        firstCol: clamp(Math.floor(view.scrollX / geo.pitchX), geo.config.cols - 1),
+        lastCol: clamp(Math.floor((view.scrollX + view.width - geo.originX) / geo.pitchX), geo.config.cols - 1),
+    };
+}
+
+// ── Drawing ──────────────────────────────────────────────────────────────────
+
+export interface GridDrawState {
+    cells: Map<string, CellData>;
+    layout?: Map<string, MapCell>;
+    catalog: MaterialCatalog;
+    selectedKeys: Set<string>;
+    highlightedCode?: string | null;
+    highlightAlpha: number;      // Current pulse opacity of highlighted cells
+    isLayoutMode: boolean;
+    matchesFilter?: (cell: CellData | undefined) => boolean;  // Cells failing it are dimmed
+    dropPreview?: DropPreview | null;  // Where cells being dragged or pasted would land
+}
+
+// Decorations drawn on top of a cell's content
+export interface CellDrawFlags {
+    scale: number;
+    isSelected: boolean;
+    isDimmed: boolean;
+    isHighlighted: boolean;
+    highlightAlpha: number;
+    isLayoutMode: boolean;
+}
+
+// Pulse opacity for highlighted cells (0.3 → 0.8 → 0.3 every 1.5 s, like the CSS animation)
+export function getHighlightAlpha(time: number): number {
+    return 0.3 + 0.5 * (0.5 - 0.5 * Math.cos((2 * Math.PI * time) / 1500));
+}
+
+// Fill a rectangle with 45° stripes; direction 1 leans right, -1 leans left
+function fillStripes(
+    ctx: CanvasRenderingContext2D,
+    x: number, y: number, w: number, h: number,
+    base: string, stripe: string,
+    stripeWidth: number, period: number,
+    direction: 1 | -1
+) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, w, h);
+    ctx.clip();
+    ctx.fillStyle = base;
+    ctx.fillRect(x, y, w, h);
+    ctx.fillStyle = stripe;
+
+    // Widths are measured across the stripe, so project them onto the x axis
+    const step = period * Math.SQRT2;
+    const band = stripeWidth * Math.SQRT2;
+    const shift = direction * h;
+    for (let offset = -h - band; offset < w + h; offset += step) {
+        const left = x + offset;
+        ctx.beginPath();
+        ctx.moveTo(left, y);
+        ctx.lineTo(left + band, y);
+        ctx.lineTo(left + band - shift, y + h);
+        ctx.lineTo(left - shift, y + h);
+        ctx.closePath();
+        ctx.fill();
+    }
+    ctx.restore();
+}
+
+function drawLayoutBackground(
+    ctx: CanvasRenderingContext2D,
+    x: number, y: number, w: number, h: number,
+    mapCell: MapCell
+) {
+    switch (mapCell.type) {
+        case 'blocked':
+            fillStripes(ctx, x, y, w, h, '#1c1c1c', '#333333', 2, 8, -1);
+            break;
+        case 'boundary':
+            ctx.fillStyle = '#3a3a12';
+            ctx.fillRect(x, y, w, h);
+            ctx.strokeStyle = '#d4c200';
+            ctx.lineWidth = 3;
+            ctx.strokeRect(x + 1.5, y + 1.5, w - 3, h - 3);
+            break;
+        case 'h-spacer':
+            ctx.fillStyle = '#2b433a';
+            ctx.fillRect(x, y, w, h);
+            break;
+        case 'label':
+            ctx.fillStyle = GRID_COLORS.corner;
+            ctx.fillRect(x, y, w, h);
+            break;
+        default:
+            ctx.fillStyle = GRID_COLORS.emptyCell;
+            ctx.fillRect(x, y, w, h);
+    }
+}
+
+// Draw one cell with its top-left corner at (x, y) in canvas coordinates
+export function drawCell(
+    ctx: CanvasRenderingContext2D,
+    x: number, y: number, w: number, h: number,
+    cell: CellData | undefined,
+    mapCell: MapCell | undefined,
+    catalog: MaterialCatalog,
+    flags: CellDrawFlags
+) {
+    const content = cell && cellHasContent(cell) ? cell : null;
+    const materialColor = content ? getMaterialColor(content.code1, catalog) : null;
+
+    // Background: inventory flags win over material colour, which wins over layout
+    if (cell?.isStockHold) {
+        fillStripes(ctx, x, y, w, h, '#f44336', '#000000', 10, 20, 1);
+    } else if (cell?.isBoundary) {
+        fillStripes(ctx, x, y, w, h, '#ffff00', '#000000', 10, 20, 1);
+    } else if (materialColor) {
+        ctx.fillStyle = materialColor.background;
+        ctx.fillRect(x, y, w, h);
+    } else if (mapCell) {
+        drawLayoutBackground(ctx, x, y, w, h, mapCell);
+    } else {
+        ctx.fillStyle = GRID_COLORS.emptyCell;
+        ctx.fillRect(x, y, w, h);
+    }
+
+    // Text is clipped to the cell
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, w, h);
+    ctx.clip();
+
+    const { scale } = flags;
+    const showText = scale >= LOD_CODE_SCALE;
+    const showDetail = scale >= LOD_FULL_SCALE;
+    const px = (size: number) => `${Math.round(size * scale)}px`;
+
+    if (showText && mapCell?.type === 'label' && mapCell.labelText && !content) {
+        ctx.fillStyle = GRID_COLORS.headerText;
+        ctx.font = `bold ${px(12)} ${FONT_FAMILY}`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(mapCell.labelText, x + w / 2, y + h / 2);
+    }
+
+    if (showDetail && flags.isLayoutMode && mapCell?.locationCode) {
+        ctx.fillStyle = GRID_COLORS.locationCode;
+        ctx.font = `${px(10)} ${FONT_FAMILY}`;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(mapCell.locationCode, x + 6 * scale, y + h - 2 * scale);
+    }
+
+    if (content && materialColor) {
+        // Material indicator strip
+        ctx.fillStyle = materialColor.primary;
+        ctx.fillRect(x, y, Math.max(2, 4 * scale), h);
+
+        if (showText) {
+            // Without the detail row the code is centred vertically
+            const codeY = showDetail ? y + h * 0.3 : y + h / 2;
+            ctx.textBaseline = 'middle';
+            ctx.textAlign = 'left';
+            ctx.fillStyle = materialColor.primary;
+            ctx.font = `bold ${px(18)} ${FONT_FAMILY}`;
+            ctx.fillText(`${content.code1}${content.code2}`, x + 10 * scale, codeY);
+        }
+
+        if (showDetail && content.code3) {
+            ctx.textAlign = 'right';
+            ctx.fillStyle = GRID_COLORS.code3;
+            ctx.font = `${px(16)} ${FONT_FAMILY}`;
+            ctx.fillText(content.code3, x + w - 10 * scale, y + h * 0.3);
+        }
+
+        if (showDetail && content.quantity > 0) {
+            ctx.textAlign = 'center';
+            ctx.fillStyle = GRID_COLORS.quantity;
+            ctx.font = `${px(16)} ${FONT_FAMILY}`;
+            ctx.fillText(String(content.quantity), x + w / 2, y + h * 0.72);
+        }
+
+        if (content.note) {
+            const size = 10 * scale;
+            ctx.fillStyle = GRID_COLORS.note;
+            ctx.beginPath();
+            ctx.moveTo(x + w - size, y);
+            ctx.lineTo(x + w, y);
+            ctx.lineTo(x + w, y + size);
+            ctx.closePath();
+            ctx.fill();
+        }
+
+        if (content.imageId) {
+            ctx.fillStyle = GRID_COLORS.image;
+            ctx.beginPath();
+            ctx.arc(x + w - 9 * scale, y + h - 9 * scale, Math.max(1.5, 3 * scale), 0, Math.PI * 2);
+            ctx.fill();
+        }
+    }
+
+    ctx.restore();
+
+    if (flags.isDimmed) {
+        ctx.fillStyle = GRID_COLORS.dimmed;
+        ctx.fillRect(x, y, w, h);
+    }
+
+    // Outlines sit inside the cell, like the old inset outlines
+    if (flags.isHighlighted) {
+        ctx.strokeStyle = `rgba(${GRID_COLORS.highlight}, ${flags.highlightAlpha})`;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x + 1, y + 1, w - 2, h - 2);
+    }
+    if (flags.isSelected) {
+        ctx.strokeStyle = GRID_COLORS.selection;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x + 1, y + 1, w - 2, h - 2);
+    } else if (flags.isLayoutMode) {
+        ctx.save();
+        ctx.strokeStyle = GRID_COLORS.layoutOutline;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 3]);
+        ctx.strokeRect(x + 0.5, y + 0.5, w - 1, h - 1);
+        ctx.restore();
+    }
+}
+
+// Draw the visible window of the grid, with row/column headers pinned to the edges
+export function drawGrid(
+    ctx: CanvasRenderingContext2D,
+    geo: GridGeometry,
+    view: GridViewport,
+    state: GridDrawState
+) {
+    const { config } = geo;
+    const { firstRow, lastRow, firstCol, lastCol } = getVisibleRange(geo, view);
+
+    ctx.fillStyle = GRID_COLORS.gap;
+    ctx.fillRect(0, 0, view.width, view.height);
+
+    // Cells
+    for (let r = firstRow; r <= lastRow; r++) {
+        for (let c = firstCol; c <= lastCol; c++) {
+            const key = getCellKey(r, c);
+            const cell = state.cells.get(key);
+            const origin = getCellOrigin(geo, r, c);
+            drawCell(
+                ctx,
+                origin.x - view.scrollX,
+                origin.y - view.scrollY,
+                geo.cellWidth,
+                geo.cellHeight,
+                cell,
+                state.layout?.get(key),
+                state.catalog,
+                {
+                    scale: geo.scale,
+                    isSelected: state.selectedKeys.has(key),
+                    isDimmed: !!state.matchesFilter && !state.matchesFilter(cell),
+                    isHighlighted: !!state.highlightedCode && !!cell && cellHasContent(cell)
+                        && getCombinedCode(cell) === state.highlightedCode,
+                    highlightAlpha: state.highlightAlpha,
+                    isLayoutMode: state.isLayoutMode,
+                }
+            );
+        }
+    }
+
+    // Drop or paste footprint: green on empty slots, orange on stock, red on walls and labels
+    if (state.dropPreview) {
+        ctx.lineWidth = 2;
+        state.dropPreview.forEach((slot, key) => {
+            const { row, col } = parseCellKey(key);
+            if (row < firstRow || row > lastRow || col < firstCol || col > lastCol) return;
+            const color = slot === 'free' ? GRID_COLORS.dropFree
+                : slot === 'occupied' ? GRID_COLORS.dropOccupied
+                : GRID_COLORS.dropBlocked;
+            const origin = getCellOrigin(geo, row, col);
+            const x = origin.x - view.scrollX;
+            const y = origin.y - view.scrollY;
+            ctx.fillStyle = `rgba(${color}, 0.3)`;
+            ctx.fillRect(x, y, geo.cellWidth, geo.cellHeight);
+            ctx.strokeStyle = `rgba(${color}, 0.9)`;
+            ctx.strokeRect(x + 1, y + 1, geo.cellWidth - 2, geo.cellHeight - 2);
+        });
+    }
+
+    ctx.font = `12px ${FONT_FAMILY}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    // Column headers
+    ctx.fillStyle = GRID_COLORS.header;
+    ctx.fillRect(0, 0, view.width, config.headerHeight);
+    ctx.fillStyle = GRID_COLORS.headerText;
+    for (let c = firstCol; c <= lastCol; c++) {
+        const x = getCellOrigin(geo, 0, c).x - view.scrollX;
+        ctx.fillText(getColumnLabel(c), x + geo.cellWidth / 2, config.headerHeight / 2);
+    }
+
+    // Row headers
+    ctx.fillStyle = GRID_COLORS.header;
+    ctx.fillRect(0, 0, config.rowHeaderWidth, view.height);
+    ctx.fillStyle = GRID_COLORS.headerText;
+    for (let r = firstRow; r <= lastRow; r++) {
+        const y = getCellOrigin(geo, r, 0).y - view.scrollY;
+        ctx.fillText(String(r + 1), config.rowHeaderWidth / 2, y + geo.cellHeight / 2);
+    }
+
+    // Top-left corner
+    ctx.fillStyle = GRID_COLORS.corner;
+    ctx.fillRect(0, 0, config.rowHeaderWidth, config.headerHeight);
+}
@@ -0,0 +1,164 @@
+import { CellData, GridKind, ImageRecord, MapCell, WarehouseMap, getCellKey } from './types';
+import { MaterialCatalog, MaterialFamily, sortCatalog } from './catalog';
+import { CellWrite, FamilyWrite, LayoutWrite } from './storage';
+import { LedgerMovement } from './ledger';
+
+// Maximum number of undo steps kept in memory
+export const MAX_HISTORY = 100;
+
+// A single cell mutation: content before and after (null = empty slot)
+export interface CellChange {
+    grid: GridKind;
+    row: number;
+    col: number;
+    before: CellData | null;
+    after: CellData | null;
+}
+
+// A layout slot change (null = a plain active slot, which is not stored)
+export interface LayoutChange {
+    row: number;
+    col: number;
+    before: MapCell | null;
+    after: MapCell | null;
+}
+
+// A material family change (null = not in the catalog)
+export interface CatalogChange {
+    code1: string;
+    before: MaterialFamily | null;
+    after: MaterialFamily | null;
+}
+
+// Grid settings of a map, changed and restored together with the cells a resize moves
+export type MapSettings = Pick<WarehouseMap, 'config' | 'bufferConfig' | 'locationPattern' | 'zone'>;
+
+// An undoable command: a batch of cell changes applied together
+export interface HistoryEntry {
+    label: string;
+    changes: CellChange[];
+    removedImages: ImageRecord[];  // Images orphaned by the command, kept so undo can restore them
+    addedImages: ImageRecord[];    // Images the command stored (pasted from the clipboard), removed again on undo
+    movement: LedgerMovement;      // Recorded again (reversed) on undo and redo
+    settings?: { before: MapSettings; after: MapSettings };  // Grid settings the command changed
+    layout?: LayoutChange[];                                 // Layout slots the command changed (import)
+    catalog?: CatalogChange[];                               // Material families the command changed (import)
+}
+
+// What a command changes besides cells, undone and redone with them
+export type CommandExtras = Pick<HistoryEntry, 'settings' | 'layout' | 'catalog'>;
+
+export interface HistoryState {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+// Collapse changes touching the same slot (first `before`, last `after`) and drop no-ops
+export function normalizeChanges(changes: CellChange[]): CellChange[] {
+    const bySlot = new Map<string, CellChange>();
+
+    for (const change of changes) {
+        const slot = `${change.grid}:${getCellKey(change.row, change.col)}`;
+        const existing = bySlot.get(slot);
+        if (existing) existing.after = change.after;
+        else bySlot.set(slot, { ...change });
+    }
+
+    return Array.from(bySlot.values()).filter(c => c.before !== c.after);
+}
+
+// Reverse a change list so that applying it undoes the original
+export function invertChanges<T extends { before: unknown; after: unknown }>(changes: T[]): T[] {
+    return changes
+        .map(c => ({ ...c, before: c.after, after: c.before }))
+        .reverse();
+}
+
+// Return a new map with the `after` side of the changes for one grid applied
+export function applyChangesToMap(
+    map: Map<string, CellData>,
+    changes: CellChange[],
+    grid: GridKind
+): Map<string, CellData> {
+    const relevant = changes.filter(c => c.grid === grid);
+    if (relevant.length === 0) return map;
+
+    const next = new Map(map);
+    for (const change of relevant) {
+        const key = getCellKey(change.row, change.col);
+        if (change.after) next.set(key, change.after);
+        else next.delete(key);
+    }
+    return next;
+}
+
+// Convert changes into storage writes
+export function toCellWrites(changes: CellChange[]): CellWrite[] {
+    return changes.map(({ grid, row, col, after }) => ({ grid, row, col, cell: after }));
+}
+
+// Image ids referenced before the changes that no cell references afterwards
+export function findOrphanedImageIds(
+    changes: CellChange[],
+    nextCells: Map<string, CellData>,
+    nextBufferCells: Map<string, CellData>
+): string[] {
+    const candidates = new Set<string>();
+    changes.forEach(c => { if (c.before?.imageId) candidates.add(c.before.imageId); });
+    if (candidates.size === 0) return [];
+
+    const referenced = new Set<string>();
+    nextCells.forEach(cell => { if (cell.imageId) referenced.add(cell.imageId); });
+    nextBufferCells.forEach(cell => { if (cell.imageId) referenced.add(cell.imageId); });
+
+    return Array.from(candidates).filter(id => !referenced.has(id));
+}
+
+// Return a new layout with the `after` side of the changes applied
+export function applyLayoutChanges(layout: Map<string, MapCell>, changes: LayoutChange[]): Map<string, MapCell> {
+    if (changes.length === 0) return layout;
+    const next = new Map(layout);
+    for (const { row, col, after } of changes) {
+        const key = getCellKey(row, col);
+        if (after) next.set(key, after);
+        else next.delete(key);
+    }
+    return next;
+}
+
+export function toLayoutWrites(changes: LayoutChange[]): LayoutWrite[] {
+    return changes.map(({ row, col, after }) => ({ row, col, cell: after }));
+}
+
+// Families that differ between two catalogs
+export function getCatalogChanges(before: MaterialCatalog, after: MaterialCatalog): CatalogChange[] {
+    const changes: CatalogChange[] = [];
+    const codes = new Set([...before, ...after].map(f => f.code1));
+    codes.forEach(code1 => {
+        const was = before.find(f => f.code1 === code1) ?? null;
+        const is = after.find(f => f.code1 === code1) ?? null;
+        if (JSON.stringify(was) !== JSON.stringify(is)) changes.push({ code1, before: was, after: is });
+    });
+    return changes;
+}
+
+// Return a new catalog with the `after` side of the changes applied
+export function applyCatalogChanges(catalog: MaterialCatalog, changes: CatalogChange[]): MaterialCatalog {
+    if (changes.length === 0) return catalog;
+    const codes = new Set(changes.map(c => c.code1));
+    const added = changes.flatMap(c => c.after ? [c.after] : []);
+    return sortCatalog([...catalog.filter(f => !codes.has(f.code1)), ...added]);
+}
+
+export function toFamilyWrites(changes: CatalogChange[]): FamilyWrite[] {
+    return changes.map(({ code1, after }) => ({ code1, family: after }));
+}
+
+// Push an entry onto the undo stack, discarding the redo branch
+export function pushHistory(state: HistoryState, entry: HistoryEntry): HistoryState {
+    const past = [...state.past, entry];
+    if (past.length > MAX_HISTORY) past.shift();
+    return { past, future: [] };
+}
@@ -0,0 +1,178 @@
+import {
+    CellData,
+    GridConfig,
+    GridKind,
+    MapCell,
+    canHoldInventory,
+    cellHasContent,
+    getCellKey,
+    isDefaultMapCell,
+} from './types';
+import { CellChange, LayoutChange, applyLayoutChanges } from './history';
+import { sameCellContent } from './diff';
+
+// How an import treats the cells already in the map:
+// replace empties the map first; the merge modes leave cells the file doesn't mention alone
+// and differ only when both sides have a cell in the same slot.
+export type ImportMode = 'replace' | 'merge-overwrite' | 'merge-keep';
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+    'replace': 'Replace',
+    'merge-overwrite': 'Merge, file wins',
+    'merge-keep': 'Merge, keep mine',
+};
+
+export const IMPORT_MODE_HINTS: Record<ImportMode, string> = {
+    'replace': 'The map ends up exactly like the file; cells not in the file are removed.',
+    'merge-overwrite': 'Cells from the file are added; where both have a cell, the file\'s replaces yours.',
+    'merge-keep': 'Cells from the file are only added to empty slots; your cells are never changed.',
+};
+
+// A slot occupied on both sides with different content
+export interface ImportConflict {
+    grid: GridKind;
+    row: number;
+    col: number;
+    existing: CellData;
+    incoming: CellData;
+}
+
+export interface ImportPlan {
+    mode: ImportMode;
+    changes: CellChange[];
+    added: number;         // File cells going into empty slots
+    conflicts: ImportConflict[];
+    unchanged: number;     // File cells identical to what is already there
+    removed: number;       // Existing cells the file doesn't have (replace only)
+    outOfBounds: number;   // File cells outside the current grid size, skipped
+    blocked: number;       // File cells on a wall or text label, skipped
+    layoutChanges: LayoutChange[];  // Layout slots the file changes (none when it has no layout)
+    layoutSkipped: number;          // File walls and labels left out because stock stays in the slot
+}
+
+// Work out what an import would write, without writing anything (the dry run)
+export function planImport(
+    current: { cells: Map<string, CellData>; bufferCells: Map<string, CellData> },
+    incoming: { cells: CellData[]; bufferCells: CellData[] },
+    mode: ImportMode,
+    configs: { main: GridConfig; buffer: GridConfig },
+    layouts: { current: Map<string, MapCell>; incoming: MapCell[] | null }  // Older exports carry no layout
+): ImportPlan {
+    // Walls and labels from the file never go over stock the map keeps or gets from the file
+    const stocked = new Set<string>();
+    if (mode !== 'replace') {
+        current.cells.forEach((cell, key) => {
+            if (cellHasContent(cell)) stocked.add(key);
+        });
+    }
+    for (const cell of incoming.cells) {
+        if (cellHasContent(cell)) stocked.add(getCellKey(cell.row, cell.col));
+    }
+    const layoutPlan = layouts.incoming
+        ? planLayoutImport(layouts.current, layouts.incoming, mode, configs.main, stocked)
+        : { changes: [], skipped: 0 };
+
+    const plan: ImportPlan = {
+        mode,
+        changes: [],
+        added: 0,
+        conflicts: [],
+        unchanged: 0,
+        removed: 0,
+        outOfBounds: 0,
+        blocked: 0,
+        layoutChanges: layoutPlan.changes,
+        layoutSkipped: layoutPlan.skipped,
+    };
+    // The main grid's layout as it will be after the import; the buffer has none
+    const layout = applyLayoutChanges(layouts.current, layoutPlan.changes);
+
+    const planGrid = (
+        grid: GridKind,
+        existing: Map<string, CellData>,
+        cells: CellData[],
+        config: GridConfig,
+        slots: Map<string, MapCell> | null
+    ) => {
+        const seen = new Set<string>();
+
+        for (const cell of cells) {
+            if (!cellHasContent(cell)) continue;
+            if (cell.row >= config.rows || cell.col >= config.cols) {
+                plan.outOfBounds++;
+                continue;
+            }
+
+            const key = getCellKey(cell.row, cell.col);
+            if (slots && !canHoldInventory(slots.get(key))) {
+                plan.blocked++;
+                continue;
+            }
+            seen.add(key);
+            const before = existing.get(key) ?? null;
+
+            if (!before || !cellHasContent(before)) {
+                plan.added++;
+                plan.changes.push({ grid, row: cell.row, col: cell.col, before, after: cell });
+            } else if (sameCellContent(before, cell)) {
+                plan.unchanged++;
+            } else {
+                plan.conflicts.push({ grid, row: cell.row, col: cell.col, existing: before, incoming: cell });
+                if (mode !== 'merge-keep') {
+                    plan.changes.push({ grid, row: cell.row, col: cell.col, before, after: cell });
+                }
+            }
+        }
+
+        if (mode === 'replace') {
+            existing.forEach((cell, key) => {
+                if (seen.has(key)) return;
+                if (cellHasContent(cell)) plan.removed++;
+                plan.changes.push({ grid, row: cell.row, col: cell.col, before: cell, after: null });
+            });
+        }
+    };
+
+    planGrid('main', current.cells, incoming.cells, configs.main, layout);
+    planGrid('buffer', current.bufferCells, incoming.bufferCells, configs.buffer, null);
+    return plan;
+}
+
+function sameMapCell(a: MapCell | null, b: MapCell | null): boolean {
+    if (!a || !b) return a === b;
+    return a.type === b.type && a.locationCode === b.locationCode && (a.labelText ?? '') === (b.labelText ?? '');
+}
+
+// Layout slots an import changes: replace takes the file's layout as is, merge-overwrite
+// lays the file's cells over the current layout, merge-keep only fills slots without one.
+// Cells outside the grid are left out, and so are walls and labels over a slot in `stocked`.
+export function planLayoutImport(
+    current: Map<string, MapCell>,
+    incoming: MapCell[],
+    mode: ImportMode,
+    config: GridConfig,
+    stocked: Set<string>
+): { changes: LayoutChange[]; skipped: number } {
+    const next = new Map<string, MapCell>(mode === 'replace' ? [] : current);
+    for (const cell of incoming) {
+        if (cell.row >= config.rows || cell.col >= config.cols) continue;
+        const key = getCellKey(cell.row, cell.col);
+        if (mode !== 'merge-keep' || !next.has(key)) next.set(key, cell);
+    }
+
+    const changes: LayoutChange[] = [];
+    let skipped = 0;
+    new Set([...current.keys(), ...next.keys()]).forEach(key => {
+        const before = current.get(key) ?? null;
+        const found = next.get(key);
+        const after = found && !isDefaultMapCell(found) ? found : null;
+        if (sameMapCell(before, after)) return;
+        if (!canHoldInventory(after) && canHoldInventory(before) && stocked.has(key)) {
+            skipped++;
+            return;
+        }
+        const { row, col } = (before ?? found)!;
+        changes.push({ row, col, before, after });
+    });
+    return { changes, skipped };
+}
@@ -0,0 +1,123 @@
+import { CellData, GridKind, cellHasContent, generateId, getCombinedCode } from './types';
+import { CellChange } from './history';
+
+export type LedgerReason = 'receive' | 'issue' | 'adjust' | 'transfer' | 'count';
+
+export const LEDGER_REASONS: LedgerReason[] = ['receive', 'issue', 'adjust', 'transfer', 'count'];
+
+export const LEDGER_REASON_LABELS: Record<LedgerReason, string> = {
+    receive: 'Receive',
+    issue: 'Issue',
+    adjust: 'Adjust',
+    transfer: 'Transfer',
+    count: 'Count',
+};
+
+// Why stock moved, given by the action that moved it
+export interface LedgerMovement {
+    reason: LedgerReason;
+    reference?: string;  // Delivery note, order number, ...
+}
+
+// One stock movement in one cell. Entries are only ever appended.
+export interface LedgerEntry {
+    id: string;
+    timestamp: number;
+    mapId: string;
+    grid: GridKind;
+    row: number;
+    col: number;
+    location: string;    // Location code at the time of the movement
+    code1: string;
+    code: string;        // Combined code, e.g. "S5 PIM"
+    delta: number;       // Positive into the cell, negative out of it
+    reason: LedgerReason;
+    reference?: string;
+    action: string;      // Command that caused it, e.g. "Paste" or "Undo Cut"
+}
+
+export interface LedgerContext {
+    mapId: string;
+    action: string;
+    timestamp: number;
+    getLocation: (grid: GridKind, row: number, col: number) => string;
+}
+
+// Quantity held by a cell, or 0 when it holds no material
+function stockOf(cell: CellData | null): number {
+    return cell && cellHasContent(cell) && cell.code1 ? cell.quantity : 0;
+}
+
+// Movement recorded when a command is undone or redone. Undoing a receipt is no
+// receipt, so both count as adjustments; the reference still ties them to the original.
+export function getReplayMovement(movement: LedgerMovement): LedgerMovement {
+    return { reason: 'adjust', reference: movement.reference };
+}
+
+// Receive when a cell gains stock, issue when it loses it
+export function inferReason(before: CellData | null, after: CellData | null): LedgerReason {
+    const sameCode = !!before && !!after && getCombinedCode(before) === getCombinedCode(after);
+    const delta = stockOf(after) - (sameCode ? stockOf(before) : 0);
+    return delta < 0 ? 'issue' : 'receive';
+}
+
+// Ledger entries for a command: the net quantity change of each material in each cell.
+// A code change counts as the old material leaving and the new one arriving.
+export function buildLedgerEntries(
+    changes: CellChange[],
+    movement: LedgerMovement,
+    context: LedgerContext
+): LedgerEntry[] {
+    const entries: LedgerEntry[] = [];
+
+    for (const { grid, row, col, before, after } of changes) {
+        const deltas = new Map<string, { code1: string; delta: number }>();
+        const add = (cell: CellData | null, sign: 1 | -1) => {
+            const qty = stockOf(cell);
+            if (!cell || qty === 0) return;
+            const code = getCombinedCode(cell);
+            const current = deltas.get(code) ?? { code1: cell.code1, delta: 0 };
+            deltas.set(code, { code1: current.code1, delta: current.delta + sign * qty });
+        };
+        add(before, -1);
+        add(after, 1);
+
+        deltas.forEach(({ code1, delta }, code) => {
+            if (delta === 0) return;
+            entries.push({
+                id: generateId(),
+                timestamp: context.timestamp,
+                mapId: context.mapId,
+                grid,
+                row,
+                col,
+                location: context.getLocation(grid, row, col),
+                code1,
+                code,
+                delta,
+                reason: movement.reason,
+                reference: movement.reference || undefined,
+                action: context.action,
+            });
+        });
+    }
+
+    return entries;
+}
+
+// Viewer filter: a family ("S"), an exact code ("S5 PIM") and/or a date range (inclusive, ms)
+export interface LedgerQuery {
+    code1?: string;
+    code?: string;
+    from?: number;
+    to?: number;
+}
+
+export function filterLedger(entries: LedgerEntry[], query: LedgerQuery): LedgerEntry[] {
+    return entries.filter(e =>
+        (!query.code1 || e.code1 === query.code1) &&
+        (!query.code || e.code === query.code) &&
+        (query.from === undefined || e.timestamp >= query.from) &&
+        (query.to === undefined || e.timestamp <= query.to)
+    );
+}
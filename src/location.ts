@@ -0,0 +1,118 @@
+import { GridPosition, MapCell, WarehouseMap, getCellKey, getColumnLabel } from './types';
+
+// Spreadsheet-style A1 codes, used when a map has no pattern of its own
+export const DEFAULT_LOCATION_PATTERN = '{colLetter}{row}';
+
+// Tokens understood by location patterns; `{row:02}` pads to two digits
+export const LOCATION_PATTERN_TOKENS = ['{zone}', '{row}', '{col}', '{colLetter}', '{map}'];
+
+const TOKEN_REGEX = /\{(\w+)(?::(\d+))?\}/g;
+
+// Expand a location pattern for one cell
+export function formatLocationPattern(
+    pattern: string,
+    row: number,
+    col: number,
+    zone = '',
+    mapName = ''
+): string {
+    return pattern.replace(TOKEN_REGEX, (match, token: string, width?: string) => {
+        let value: string;
+        switch (token) {
+            case 'row': value = String(row + 1); break;
+            case 'col': value = String(col + 1); break;
+            case 'colLetter': value = getColumnLabel(col); break;
+            case 'zone': value = zone; break;
+            case 'map': value = mapName; break;
+            default: return match;
+        }
+        return width ? value.padStart(Number(width), '0') : value;
+    });
+}
+
+// Whether a pattern can tell every cell apart (it needs a row and a column token)
+export function isPatternUnique(pattern: string): boolean {
+    const tokens = Array.from(pattern.matchAll(TOKEN_REGEX)).map(m => m[1]);
+    return tokens.includes('row') && (tokens.includes('col') || tokens.includes('colLetter'));
+}
+
+// Location code of a main grid cell: explicit per-cell override, else the map's pattern
+export function getLocationCode(
+    map: WarehouseMap | undefined,
+    layout: Map<string, MapCell> | undefined,
+    row: number,
+    col: number
+): string {
+    const override = layout?.get(getCellKey(row, col))?.locationCode;
+    if (override) return override;
+    return formatLocationPattern(map?.locationPattern || DEFAULT_LOCATION_PATTERN, row, col, map?.zone, map?.name);
+}
+
+// Location code of a buffer cell (buffer slots are not part of the map layout)
+export function getBufferLocationCode(row: number, col: number): string {
+    return `BUF-${getColumnLabel(col)}${row + 1}`;
+}
+
+// Parse a buffer location code such as "BUF-A1"
+export function parseBufferLocation(code: string): GridPosition | null {
+    const match = code.trim().toUpperCase().match(/^BUF-?([A-Z]+\d+)$/);
+    return match ? parseA1(match[1]) : null;
+}
+
+// Resolve a typed location code (override, pattern or plain A1) to a main grid position
+export function findLocation(
+    code: string,
+    map: WarehouseMap | undefined,
+    layout: Map<string, MapCell> | undefined
+): GridPosition | null {
+    const wanted = code.trim().toUpperCase();
+    if (!wanted || !map) return null;
+
+    for (const mapCell of layout?.values() ?? []) {
+        if (mapCell.locationCode.toUpperCase() === wanted) return { row: mapCell.row, col: mapCell.col };
+    }
+
+    const { rows, cols } = map.config;
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            if (getLocationCode(map, layout, r, c).toUpperCase() === wanted) return { row: r, col: c };
+        }
+    }
+
+    const a1 = parseA1(wanted);
+    if (a1 && a1.row < rows && a1.col < cols) return a1;
+    return null;
+}
+
+// Every location code of a map's main grid (uppercased) with its position, for resolving
+// many codes at once. Per-cell overrides take precedence over pattern codes.
+export function buildLocationIndex(
+    map: WarehouseMap | undefined,
+    layout: Map<string, MapCell> | undefined
+): Map<string, GridPosition> {
+    const index = new Map<string, GridPosition>();
+    if (!map) return index;
+
+    const { rows, cols } = map.config;
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            const code = formatLocationPattern(map.locationPattern || DEFAULT_LOCATION_PATTERN, r, c, map.zone, map.name).toUpperCase();
+            if (!index.has(code)) index.set(code, { row: r, col: c });
+        }
+    }
+    for (const mapCell of layout?.values() ?? []) {
+        if (mapCell.locationCode) index.set(mapCell.locationCode.toUpperCase(), { row: mapCell.row, col: mapCell.col });
+    }
+    return index;
+}
+
+// Parse a spreadsheet reference such as "AB12"
+export function parseA1(code: string): GridPosition | null {
+    const match = code.trim().toUpperCase().match(/^([A-Z]+)(\d+)$/);
+    if (!match) return null;
+
+    const col = match[1].split('').reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+    const row = Number(match[2]) - 1;
+    if (row < 0) return null;
+    return { row, col };
+}
@@ -0,0 +1,207 @@
+import {
+    CellData,
+    GridConfig,
+    GridPosition,
+    MapCell,
+    canHoldInventory,
+    cellHasContent,
+    getBoundingRange,
+    getCellKey,
+    getCombinedCode,
+} from './types';
+
+// Check whether a position lies inside a grid
+export function isInBounds(pos: GridPosition, config: GridConfig): boolean {
+    return pos.row >= 0 && pos.col >= 0 && pos.row < config.rows && pos.col < config.cols;
+}
+
+// First `count` empty slots in row-major order
+export function findFreeSlots(occupied: Set<string>, config: GridConfig, count: number): GridPosition[] {
+    const slots: GridPosition[] = [];
+    for (let r = 0; r < config.rows && slots.length < count; r++) {
+        for (let c = 0; c < config.cols && slots.length < count; c++) {
+            if (!occupied.has(getCellKey(r, c))) slots.push({ row: r, col: c });
+        }
+    }
+    return slots;
+}
+
+// Result of checking new grid dimensions against existing cells
+export interface ResizePlan {
+    mainOverflow: CellData[];    // Main grid cells outside the new main bounds
+    bufferOverflow: CellData[];  // Buffer cells outside the new buffer bounds
+    targets: GridPosition[];     // Buffer slots for the overflow (buffer overflow first, then main)
+    fits: boolean;               // Whether the new buffer has room for every overflowing cell
+}
+
+// Work out which cells a resize would cut off and where in the buffer they can go
+export function planGridResize(
+    cells: Map<string, CellData>,
+    bufferCells: Map<string, CellData>,
+    config: GridConfig,
+    bufferConfig: GridConfig
+): ResizePlan {
+    const mainOverflow = Array.from(cells.values()).filter(c => !isInBounds(c, config));
+    const bufferOverflow = Array.from(bufferCells.values()).filter(c => !isInBounds(c, bufferConfig));
+
+    const occupied = new Set<string>();
+    bufferCells.forEach(c => { if (isInBounds(c, bufferConfig)) occupied.add(getCellKey(c.row, c.col)); });
+
+    const needed = mainOverflow.length + bufferOverflow.length;
+    const targets = findFreeSlots(occupied, bufferConfig, needed);
+
+    return { mainOverflow, bufferOverflow, targets, fits: targets.length === needed };
+}
+
+// ========== TRANSFER ==========
+
+// Where "Move to Buffer" and "Move to Main Grid" put cells on the other grid
+export type TransferStrategy = 'shape' | 'nearest' | 'material' | 'target';
+
+export const TRANSFER_STRATEGY_LABELS: Record<TransferStrategy, string> = {
+    shape: 'Keep shape',
+    nearest: 'Nearest',
+    material: 'Next to same material',
+    target: 'At a cell',
+};
+
+export const TRANSFER_STRATEGY_HINTS: Record<TransferStrategy, string> = {
+    shape: 'The cells stay together in their layout, in the free area closest to where they are now.',
+    nearest: 'Each cell goes to the free slot closest to where it is now.',
+    material: 'Each cell goes next to stock of the same material, or to the nearest free slot when there is none.',
+    target: 'The cells keep their layout with the top-left one on the chosen slot.',
+};
+
+export interface TransferPlacement {
+    cell: CellData;
+    target: GridPosition;
+}
+
+export interface TransferPlan {
+    placements: TransferPlacement[];  // In row-major order of the moved cells
+    unplaced: CellData[];             // No room on the target grid: these stay where they are
+}
+
+const ORTHOGONAL_STEPS: GridPosition[] = [
+    { row: -1, col: 0 },
+    { row: 1, col: 0 },
+    { row: 0, col: -1 },
+    { row: 0, col: 1 },
+];
+
+function squaredDistance(a: GridPosition, b: GridPosition): number {
+    return (a.row - b.row) ** 2 + (a.col - b.col) ** 2;
+}
+
+// The candidate closest to `from`; ties go to the first in row-major order
+function findClosest(candidates: GridPosition[], from: GridPosition): GridPosition | null {
+    let best: GridPosition | null = null;
+    let bestDistance = Infinity;
+    for (const pos of candidates) {
+        const distance = squaredDistance(pos, from);
+        const earlier = best !== null && (pos.row - best.row || pos.col - best.col) < 0;
+        if (distance < bestDistance || (distance === bestDistance && earlier)) {
+            best = pos;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+// Work out where moved cells land on the other grid. Stock, walls and labels
+// already there are never touched; cells without room are reported instead.
+export function planTransfer(
+    cells: CellData[],
+    strategy: TransferStrategy,
+    targetCells: Map<string, CellData>,
+    targetConfig: GridConfig,
+    layout?: Map<string, MapCell>,  // Main grid only: walls and labels take no inventory
+    anchor?: GridPosition | null    // 'target' only: slot for the top-left cell
+): TransferPlan {
+    const sorted = [...cells].sort((a, b) => a.row - b.row || a.col - b.col);
+    const taken = new Set<string>();
+    const isFree = (pos: GridPosition) => {
+        if (!isInBounds(pos, targetConfig)) return false;
+        const key = getCellKey(pos.row, pos.col);
+        return !taken.has(key) && !cellHasContent(targetCells.get(key)) && (!layout || canHoldInventory(layout.get(key)));
+    };
+
+    const placements: TransferPlacement[] = [];
+    const unplaced: CellData[] = [];
+    const place = (cell: CellData, target: GridPosition) => {
+        placements.push({ cell, target });
+        taken.add(getCellKey(target.row, target.col));
+    };
+
+    const range = getBoundingRange(sorted.map(c => getCellKey(c.row, c.col)));
+    if (!range) return { placements, unplaced };
+
+    if (strategy === 'shape' || strategy === 'target') {
+        // Top-left corner of the block on the target grid
+        let origin: GridPosition | null = null;
+        if (strategy === 'target') {
+            origin = anchor ?? null;
+        } else {
+            const corner = { row: range.startRow, col: range.startCol };
+            const fits: GridPosition[] = [];
+            for (let r = 0; r + range.endRow - range.startRow < targetConfig.rows; r++) {
+                for (let c = 0; c + range.endCol - range.startCol < targetConfig.cols; c++) {
+                    const at = { row: r, col: c };
+                    if (sorted.every(cell => isFree({ row: r + cell.row - corner.row, col: c + cell.col - corner.col }))) {
+                        fits.push(at);
+                    }
+                }
+            }
+            origin = findClosest(fits, corner);
+        }
+
+        for (const cell of sorted) {
+            const pos = origin && { row: origin.row + cell.row - range.startRow, col: origin.col + cell.col - range.startCol };
+            if (pos && isFree(pos)) place(cell, pos);
+            else unplaced.push(cell);
+        }
+        return { placements, unplaced };
+    }
+
+    const freeSlots: GridPosition[] = [];
+    for (let r = 0; r < targetConfig.rows; r++) {
+        for (let c = 0; c < targetConfig.cols; c++) {
+            if (isFree({ row: r, col: c })) freeSlots.push({ row: r, col: c });
+        }
+    }
+
+    // Stock by material, including cells placed by this move
+    const byMaterial = new Map<string, GridPosition[]>();
+    const addMaterial = (code: string, pos: GridPosition) => {
+        const list = byMaterial.get(code);
+        if (list) list.push(pos);
+        else byMaterial.set(code, [pos]);
+    };
+    if (strategy === 'material') {
+        targetCells.forEach(c => { if (cellHasContent(c)) addMaterial(getCombinedCode(c), c); });
+    }
+
+    for (const cell of sorted) {
+        let target: GridPosition | null = null;
+        if (strategy === 'material') {
+            const code = getCombinedCode(cell);
+            const beside: GridPosition[] = [];
+            byMaterial.get(code)?.forEach(pos => {
+                ORTHOGONAL_STEPS.forEach(step => {
+                    const next = { row: pos.row + step.row, col: pos.col + step.col };
+                    if (isFree(next)) beside.push(next);
+                });
+            });
+            target = findClosest(beside, cell);
+        }
+        target = target ?? findClosest(freeSlots.filter(isFree), cell);
+        if (!target) {
+            unplaced.push(cell);
+            continue;
+        }
+        place(cell, target);
+        if (strategy === 'material') addMaterial(getCombinedCode(cell), target);
+    }
+
+    return { placements, unplaced };
+}
@@ -0,0 +1,120 @@
+import { CellData, GridConfig, MapCell, cellHasContent, getCellKey, getColumnLabel } from './types';
+import { MaterialCatalog, getMaterialColor, getMaterialOrder } from './catalog';
+
+// Colour prints the material colours; greyscale gives each family a black-and-white
+// pattern so codes stay apart on mono printers
+export type PrintColorMode = 'colour' | 'greyscale';
+
+export type PageOrientation = 'landscape' | 'portrait';
+
+export const PRINT_COLOR_MODE_LABELS: Record<PrintColorMode, string> = {
+    colour: 'Colour',
+    greyscale: 'Greyscale patterns',
+};
+
+export const PAGE_ORIENTATION_LABELS: Record<PageOrientation, string> = {
+    landscape: 'Landscape',
+    portrait: 'Portrait',
+};
+
+// Parts of the report, in print order
+export type ReportSection = 'map' | 'summary' | 'buffer' | 'stockHold';
+
+export const REPORT_SECTIONS: ReportSection[] = ['map', 'summary', 'buffer', 'stockHold'];
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+    map: 'Map',
+    summary: 'Material summary',
+    buffer: 'Buffer',
+    stockHold: 'Stock-hold list',
+};
+
+// Map cells per A4 page, for the printed cell size in index.css (22mm × 12.5mm)
+export const PAGE_CAPACITY: Record<PageOrientation, { rows: number; cols: number }> = {
+    landscape: { rows: 12, cols: 12 },
+    portrait: { rows: 19, cols: 8 },
+};
+
+// A rectangle of the grid printed on one page (end row/col exclusive)
+export interface GridPage {
+    rowStart: number;
+    rowEnd: number;
+    colStart: number;
+    colEnd: number;
+}
+
+// Split a grid into page-sized blocks, row bands first. Blocks with nothing worth
+// printing can be left out.
+export function paginateGrid(
+    config: GridConfig,
+    capacity: { rows: number; cols: number },
+    isPrinted?: (row: number, col: number) => boolean
+): GridPage[] {
+    const pages: GridPage[] = [];
+    for (let rowStart = 0; rowStart < config.rows; rowStart += capacity.rows) {
+        for (let colStart = 0; colStart < config.cols; colStart += capacity.cols) {
+            const page = {
+                rowStart,
+                rowEnd: Math.min(rowStart + capacity.rows, config.rows),
+                colStart,
+                colEnd: Math.min(colStart + capacity.cols, config.cols),
+            };
+            if (!isPrinted || pageHasContent(page, isPrinted)) pages.push(page);
+        }
+    }
+    return pages;
+}
+
+function pageHasContent(page: GridPage, isPrinted: (row: number, col: number) => boolean): boolean {
+    for (let r = page.rowStart; r < page.rowEnd; r++) {
+        for (let c = page.colStart; c < page.colEnd; c++) {
+            if (isPrinted(r, c)) return true;
+        }
+    }
+    return false;
+}
+
+// Slots worth a page: filled cells and text labels of the layout
+export function createPrintedCellCheck(
+    cells: Map<string, CellData>,
+    layout: Map<string, MapCell> | null
+): (row: number, col: number) => boolean {
+    return (row, col) => {
+        const key = getCellKey(row, col);
+        const cell = cells.get(key);
+        return (!!cell && cellHasContent(cell)) || layout?.get(key)?.type === 'label';
+    };
+}
+
+// "Columns A–L, rows 1–12"
+export function describeGridPage(page: GridPage): string {
+    return `Columns ${getColumnLabel(page.colStart)}–${getColumnLabel(page.colEnd - 1)}, rows ${page.rowStart + 1}–${page.rowEnd}`;
+}
+
+// Patterns for greyscale prints, handed out by family order. Lines stay thin and grey
+// so the code printed over them remains readable.
+const PRINT_PATTERNS = [
+    'repeating-linear-gradient(45deg, #777 0 1px, transparent 1px 6px)',
+    'repeating-linear-gradient(-45deg, #777 0 1px, transparent 1px 6px)',
+    'repeating-linear-gradient(0deg, #777 0 1px, transparent 1px 5px)',
+    'repeating-linear-gradient(90deg, #777 0 1px, transparent 1px 5px)',
+    'repeating-linear-gradient(45deg, #777 0 1px, transparent 1px 6px), repeating-linear-gradient(-45deg, #777 0 1px, transparent 1px 6px)',
+    'repeating-linear-gradient(0deg, #777 0 1px, transparent 1px 5px), repeating-linear-gradient(90deg, #777 0 1px, transparent 1px 5px)',
+    'radial-gradient(#555 1px, transparent 1.5px) 0 0 / 5px 5px',
+    'linear-gradient(#d0d0d0, #d0d0d0)',
+    'repeating-linear-gradient(45deg, #777 0 3px, transparent 3px 9px)',
+    'radial-gradient(#555 1.5px, transparent 2px) 0 0 / 8px 8px',
+    'linear-gradient(#a8a8a8, #a8a8a8)',
+    'repeating-linear-gradient(0deg, #777 0 3px, transparent 3px 9px)',
+];
+
+// CSS background of a material's cells in the report
+export function getPrintBackground(code1: string, catalog: MaterialCatalog, mode: PrintColorMode): string {
+    if (mode === 'colour') return getMaterialColor(code1, catalog).background;
+    return PRINT_PATTERNS[getMaterialOrder(code1, catalog) % PRINT_PATTERNS.length];
+}
+
+// e.g. "19 Oct 2026, 14:05"
+export function formatReportDate(date: Date): string {
+    return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
@@ -0,0 +1,360 @@
+import { CELL_TYPE_LABELS, CellData, CellType, GridConfig, ImageRecord, MapCell, generateId, getCellKey } from './types';
+import {
+    MaterialCatalog,
+    MaterialFamily,
+    findMaterialFamily,
+    mergeCatalogs,
+    normalizeCode1,
+    toMaterialFamily,
+} from './catalog';
+
+// Version written to exports. Files without a formatVersion are treated as version 1
+// (bare cell arrays and exports made before the field existed).
+export const EXPORT_FORMAT_VERSION = 2;
+
+// ========== LEGACY CELLS ==========
+
+// Legacy cell format (for migration)
+export interface LegacyCellData {
+    row: number;
+    col: number;
+    materialCode: string;
+    quantity: number;
+    color: string;
+    note: string;
+}
+
+// Parse legacy materialCode into code1/code2/code3
+export function parseLegacyMaterialCode(materialCode: string): { code1: string; code2: string; code3: string } {
+    if (!materialCode) {
+        return { code1: '', code2: '', code3: '' };
+    }
+
+    // Match pattern: letters at start (code1), numbers (code2), remaining (code3)
+    const match = materialCode.match(/^([A-Za-z]+)(\d*)(.*)$/);
+    if (match) {
+        return {
+            code1: match[1].toUpperCase(),
+            code2: match[2] || '',
+            code3: match[3]?.trim() || '',
+        };
+    }
+
+    return { code1: materialCode, code2: '', code3: '' };
+}
+
+// Migrate legacy cell to new format
+export function migrateCellData(cell: LegacyCellData | CellData): CellData {
+    // Check if already in new format
+    if ('code1' in cell) {
+        return cell as CellData;
+    }
+
+    // Migrate from legacy format
+    const legacyCell = cell as LegacyCellData;
+    const parsed = parseLegacyMaterialCode(legacyCell.materialCode);
+
+    return {
+        row: legacyCell.row,
+        col: legacyCell.col,
+        code1: parsed.code1,
+        code2: parsed.code2,
+        code3: parsed.code3,
+        quantity: legacyCell.quantity,
+        note: legacyCell.note,
+    };
+}
+
+// ========== VALIDATION ==========
+
+// Contents of an export file that passed validation
+export interface ParsedExport {
+    formatVersion: number;
+    cells: CellData[];
+    bufferCells: CellData[];
+    images: ImageRecord[];
+    layout: MapCell[] | null;  // Null for older exports without a layout
+    catalog: MaterialFamily[];
+}
+
+export type ExportSection = 'cells' | 'bufferCells' | 'layout' | 'images' | 'catalog';
+
+export const EXPORT_SECTION_LABELS: Record<ExportSection, string> = {
+    cells: 'Main grid',
+    bufferCells: 'Buffer',
+    layout: 'Layout',
+    images: 'Images',
+    catalog: 'Materials',
+};
+
+// A record left out of the import, with why
+export interface RejectedRecord {
+    section: ExportSection;
+    index: number;     // Position in its section of the file, 0-based
+    label: string;     // How to find it: "#12 (AB-03-07)", or "line 5 (A3)" for CSV
+    reason: string;
+}
+
+export type ExportValidation =
+    | { ok: true; file: ParsedExport; rejected: RejectedRecord[] }
+    | { ok: false; error: string };  // The file as a whole is unusable
+
+// What records are checked against
+export interface ValidationTarget {
+    gridConfig: GridConfig;
+    bufferConfig: GridConfig;
+    catalog: MaterialCatalog;
+}
+
+// Thrown by the field checks and turned into a rejected record
+class RecordError extends Error { }
+
+const IMAGE_DATA_URL = /^data:image\/[a-z0-9.+-]+;base64,[A-Za-z0-9+/=\s]+$/i;
+const BASE64 = /^[A-Za-z0-9+/=\s]+$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+    if (typeof value === 'string') return `"${value.length > 20 ? `${value.slice(0, 20)}…` : value}"`;
+    if (value === undefined) return 'nothing';
+    return JSON.stringify(value) ?? String(value);
+}
+
+function checkString(raw: Record<string, unknown>, field: string, required = false): string {
+    const value = raw[field];
+    if (value === undefined && !required) return '';
+    if (typeof value !== 'string') throw new RecordError(`${field} must be text, got ${describeValue(value)}`);
+    return value;
+}
+
+function checkFlag(raw: Record<string, unknown>, field: string): boolean | undefined {
+    const value = raw[field];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') throw new RecordError(`${field} must be true or false, got ${describeValue(value)}`);
+    return value || undefined;
+}
+
+function checkPosition(raw: Record<string, unknown>, config: GridConfig): { row: number; col: number } {
+    const check = (field: 'row' | 'col', size: number) => {
+        const value = raw[field];
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+            throw new RecordError(`${field} must be a whole number, got ${describeValue(value)}`);
+        }
+        if (value < 0 || value >= size) {
+            throw new RecordError(`${field} ${value} is outside the grid (0–${size - 1})`);
+        }
+        return value;
+    };
+    return { row: check('row', config.rows), col: check('col', config.cols) };
+}
+
+// Image payload of a cell: { dataUrl } or { type, data } with base64 data
+function checkImagePayload(image: unknown): string {
+    if (!isObject(image)) throw new RecordError('image must be an object');
+    if (typeof image.dataUrl === 'string') {
+        if (!IMAGE_DATA_URL.test(image.dataUrl)) throw new RecordError('image.dataUrl is not a base64 image data URL');
+        return image.dataUrl;
+    }
+    const type = image.type ?? 'image/jpeg';
+    if (typeof type !== 'string' || !/^image\/[a-z0-9.+-]+$/i.test(type)) {
+        throw new RecordError(`image.type must be an image type, got ${describeValue(type)}`);
+    }
+    if (typeof image.data !== 'string' || !image.data || !BASE64.test(image.data)) {
+        throw new RecordError('image.data must be base64 text');
+    }
+    return `data:${type};base64,${image.data}`;
+}
+
+function checkCell(
+    raw: unknown,
+    config: GridConfig,
+    catalog: MaterialCatalog,
+    formatVersion: number,
+    images: ImageRecord[]
+): CellData {
+    if (!isObject(raw)) throw new RecordError('not an object');
+    // Very old exports wrapped each cell as { data: {...}, image }
+    const record = isObject(raw.data) ? { ...raw.data, image: raw.image ?? raw.data.image } : raw;
+
+    let codes: { code1: string; code2: string; code3: string };
+    if ('code1' in record) {
+        codes = {
+            code1: normalizeCode1(checkString(record, 'code1', true)),
+            code2: checkString(record, 'code2').trim(),
+            code3: checkString(record, 'code3').trim(),
+        };
+    } else if (formatVersion < 2 && typeof record.materialCode === 'string') {
+        codes = parseLegacyMaterialCode(record.materialCode);
+    } else {
+        throw new RecordError('code1 is missing');
+    }
+    if (codes.code1 && !findMaterialFamily(catalog, codes.code1)) {
+        throw new RecordError(`material ${codes.code1} is not in the catalog`);
+    }
+
+    const quantity = record.quantity;
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity)) {
+        throw new RecordError(`quantity must be a number, got ${describeValue(quantity)}`);
+    }
+    if (quantity < 0) throw new RecordError(`quantity ${quantity} is negative`);
+
+    const calcHistory = record.calcHistory;
+    if (calcHistory !== undefined && (!Array.isArray(calcHistory) || calcHistory.some(step => typeof step !== 'string'))) {
+        throw new RecordError('calcHistory must be a list of text steps');
+    }
+
+    let imageId = record.imageId === undefined ? undefined : checkString(record, 'imageId', true) || undefined;
+    let image: ImageRecord | null = null;
+    if (record.image !== undefined) {
+        image = { id: imageId ?? generateId(), dataUrl: checkImagePayload(record.image) };
+        imageId = image.id;
+    }
+
+    const isBoundary = checkFlag(record, 'isBoundary');
+    const isStockHold = checkFlag(record, 'isStockHold');
+    const cell: CellData = {
+        ...checkPosition(record, config),
+        ...codes,
+        quantity,
+        note: checkString(record, 'note'),
+        ...(isBoundary ? { isBoundary } : {}),
+        ...(isStockHold ? { isStockHold } : {}),
+        ...(calcHistory?.length ? { calcHistory } : {}),
+        ...(imageId ? { imageId } : {}),
+    };
+    // Only collect the image once the whole record is known to be valid
+    if (image) images.push(image);
+    return cell;
+}
+
+function checkLayoutCell(raw: unknown, config: GridConfig): MapCell {
+    if (!isObject(raw)) throw new RecordError('not an object');
+    const { row, col } = checkPosition(raw, config);
+    const type = raw.type;
+    if (typeof type !== 'string' || !(type in CELL_TYPE_LABELS)) {
+        throw new RecordError(`type must be one of ${Object.keys(CELL_TYPE_LABELS).join(', ')}, got ${describeValue(type)}`);
+    }
+    const labelText = raw.labelText === undefined ? undefined : checkString(raw, 'labelText', true);
+    return {
+        id: getCellKey(row, col),
+        row,
+        col,
+        locationCode: checkString(raw, 'locationCode'),
+        type: type as CellType,
+        ...(labelText !== undefined ? { labelText } : {}),
+    };
+}
+
+function checkImageRecord(raw: unknown): ImageRecord {
+    if (!isObject(raw)) throw new RecordError('not an object');
+    const id = checkString(raw, 'id', true);
+    if (!id) throw new RecordError('id is empty');
+    if (typeof raw.dataUrl !== 'string' || !IMAGE_DATA_URL.test(raw.dataUrl)) {
+        throw new RecordError('dataUrl is not a base64 image data URL');
+    }
+    return { id, dataUrl: raw.dataUrl };
+}
+
+// How a rejected record is named: its CSV line when converted from one, else its position
+function recordLabel(raw: unknown, index: number): string {
+    if (!isObject(raw)) return `#${index + 1}`;
+    const location = typeof raw.location === 'string' ? ` (${raw.location})` : '';
+    return typeof raw.line === 'number' ? `line ${raw.line}${location}` : `#${index + 1}${location}`;
+}
+
+// Parse and validate an export file record by record. Invalid records are reported
+// and left out; only problems with the file as a whole make it fail.
+export function validateExportFile(jsonData: string, target: ValidationTarget): ExportValidation {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonData);
+    } catch (error) {
+        return { ok: false, error: `The file is not valid JSON (${(error as Error).message})` };
+    }
+    return validateExportData(parsed, target);
+}
+
+// Validate already parsed export data, e.g. records converted from a CSV file
+export function validateExportData(parsed: unknown, target: ValidationTarget): ExportValidation {
+    if (!Array.isArray(parsed) && !isObject(parsed)) {
+        return { ok: false, error: 'The file does not contain an inventory export' };
+    }
+    const root: Record<string, unknown> = Array.isArray(parsed) ? { cells: parsed } : parsed;
+
+    const formatVersion = root.formatVersion ?? 1;
+    if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion) || formatVersion < 1) {
+        return { ok: false, error: `formatVersion must be a whole number, got ${describeValue(formatVersion)}` };
+    }
+    if (formatVersion > EXPORT_FORMAT_VERSION) {
+        return {
+            ok: false,
+            error: `The file has format version ${formatVersion}; this app reads up to version ${EXPORT_FORMAT_VERSION}. Update the app to import it.`,
+        };
+    }
+
+    const lists: Partial<Record<ExportSection, unknown[]>> = {};
+    for (const section of ['cells', 'bufferCells', 'layout', 'images', 'catalog'] as const) {
+        const value = root[section];
+        if (value === undefined) continue;
+        if (!Array.isArray(value)) return { ok: false, error: `"${section}" must be a list` };
+        lists[section] = value;
+    }
+    if (lists.cells === undefined && lists.bufferCells === undefined) {
+        return { ok: false, error: 'The file has no cells or bufferCells list' };
+    }
+
+    const rejected: RejectedRecord[] = [];
+    const collect = <T,>(
+        section: ExportSection,
+        records: unknown[] | undefined,
+        check: (raw: unknown, index: number) => T
+    ): T[] => {
+        const valid: T[] = [];
+        (records ?? []).forEach((raw, index) => {
+            try {
+                valid.push(check(raw, index));
+            } catch (error) {
+                if (!(error instanceof RecordError)) throw error;
+                rejected.push({ section, index, label: recordLabel(raw, index), reason: error.message });
+            }
+        });
+        return valid;
+    };
+
+    // The file's own families count as known, since the import adds them to the catalog
+    const catalog = collect('catalog', lists.catalog, (raw, index) => {
+        const family = toMaterialFamily(raw, index);
+        if (!family) throw new RecordError('code1 must be letters only');
+        return family;
+    });
+    const knownCatalog = mergeCatalogs(target.catalog, catalog);
+
+    // A slot can only be filled once per grid; later records for it are rejected
+    const images: ImageRecord[] = [];
+    const cellsOf = (section: 'cells' | 'bufferCells', config: GridConfig) => {
+        const taken = new Map<string, string>();
+        return collect(section, lists[section], (raw, index) => {
+            const cell = checkCell(raw, config, knownCatalog, formatVersion, images);
+            const key = getCellKey(cell.row, cell.col);
+            const first = taken.get(key);
+            if (first !== undefined) throw new RecordError(`same slot as ${first}`);
+            taken.set(key, recordLabel(raw, index));
+            return cell;
+        });
+    };
+    const cells = cellsOf('cells', target.gridConfig);
+    const bufferCells = cellsOf('bufferCells', target.bufferConfig);
+
+    const layout = lists.layout === undefined
+        ? null
+        : collect('layout', lists.layout, (raw) => checkLayoutCell(raw, target.gridConfig));
+    images.push(...collect('images', lists.images, checkImageRecord));
+
+    return {
+        ok: true,
+        file: { formatVersion, cells, bufferCells, images, layout, catalog },
+        rejected,
+    };
+}
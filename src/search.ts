@@ -0,0 +1,110 @@
+import { CellData, GridConfig, GridKind, GridPosition, MapCell, WarehouseMap, cellHasContent, getCellKey, getCombinedCode } from './types';
+import { isInBounds } from './placement';
+import { findLocation, parseBufferLocation } from './location';
+
+// Why a cell matched a search
+export type MatchReason = 'location' | 'code' | 'code3' | 'note' | 'quantity';
+
+export interface SearchMatch {
+    grid: GridKind;
+    row: number;
+    col: number;
+    cell?: CellData;     // Missing when an empty slot was found by its location
+    reason: MatchReason;
+}
+
+export interface SearchContext {
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    map: WarehouseMap | undefined;
+    layout: Map<string, MapCell>;
+    bufferConfig: GridConfig;
+}
+
+const QUANTITY_COMPARE = /^(?:qty|q)\s*(>=|<=|>|<|=)\s*(\d+(?:\.\d+)?)$/i;
+const QUANTITY_RANGE = /^(?:qty|q)\s*[:=]?\s*(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/i;
+
+// Parse "qty>500", "qty<=10", "qty=0" or "qty 100-200" into a quantity test
+export function parseQuantityFilter(text: string): ((quantity: number) => boolean) | null {
+    const trimmed = text.trim();
+
+    const compare = trimmed.match(QUANTITY_COMPARE);
+    if (compare) {
+        const value = Number(compare[2]);
+        switch (compare[1]) {
+            case '>': return q => q > value;
+            case '>=': return q => q >= value;
+            case '<': return q => q < value;
+            case '<=': return q => q <= value;
+            default: return q => q === value;
+        }
+    }
+
+    const range = trimmed.match(QUANTITY_RANGE);
+    if (range) {
+        const min = Math.min(Number(range[1]), Number(range[2]));
+        const max = Math.max(Number(range[1]), Number(range[2]));
+        return q => q >= min && q <= max;
+    }
+
+    return null;
+}
+
+function sortByPosition(cells: Iterable<CellData>): CellData[] {
+    return Array.from(cells).sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+// Why a cell matches free text, or null (code prefix, then code3, then note)
+function matchText(cell: CellData, text: string): MatchReason | null {
+    const compact = text.replace(/\s+/g, '');
+    if (getCombinedCode(cell).replace(/\s+/g, '').toLowerCase().startsWith(compact)) return 'code';
+    if (cell.code3 && cell.code3.toLowerCase().includes(text)) return 'code3';
+    if (cell.note && cell.note.toLowerCase().includes(text)) return 'note';
+    return null;
+}
+
+// Find cells on both grids: main grid, then buffer (row-major), then any slot named by the query
+export function searchCells(query: string, ctx: SearchContext): SearchMatch[] {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    const grids: [GridKind, Map<string, CellData>][] = [['main', ctx.cells], ['buffer', ctx.bufferCells]];
+    const matches: SearchMatch[] = [];
+
+    const quantityTest = parseQuantityFilter(trimmed);
+    if (quantityTest) {
+        for (const [grid, cells] of grids) {
+            for (const cell of sortByPosition(cells.values())) {
+                if (cellHasContent(cell) && quantityTest(cell.quantity)) {
+                    matches.push({ grid, row: cell.row, col: cell.col, cell, reason: 'quantity' });
+                }
+            }
+        }
+        return matches;
+    }
+
+    const text = trimmed.toLowerCase();
+    for (const [grid, cells] of grids) {
+        for (const cell of sortByPosition(cells.values())) {
+            if (!cellHasContent(cell)) continue;
+            const reason = matchText(cell, text);
+            if (reason) matches.push({ grid, row: cell.row, col: cell.col, cell, reason });
+        }
+    }
+
+    // A query such as "S5" may be both a material and a coordinate: the slot goes last
+    // (unless it already matched). Location codes never contain spaces.
+    if (!/\s/.test(trimmed)) {
+        const slots: [GridKind, GridPosition | null, Map<string, CellData>][] = [
+            ['main', findLocation(trimmed, ctx.map, ctx.layout), ctx.cells],
+            ['buffer', parseBufferLocation(trimmed), ctx.bufferCells],
+        ];
+        for (const [grid, pos, cells] of slots) {
+            if (!pos || (grid === 'buffer' && !isInBounds(pos, ctx.bufferConfig))) continue;
+            if (matches.some(m => m.grid === grid && m.row === pos.row && m.col === pos.col)) continue;
+            matches.push({ grid, ...pos, cell: cells.get(getCellKey(pos.row, pos.col)), reason: 'location' });
+        }
+    }
+
+    return matches;
+}
@@ -0,0 +1,148 @@
+import { CellData, GridConfig, GridKind, ImageRecord, MapCell, canHoldInventory, cellHasContent, getCellKey } from './types';
+import { CellChange } from './history';
+
+// Why a snapshot was taken. Anything but 'auto' is kept for the whole first day.
+export type SnapshotKind = 'auto' | 'manual' | 'before-clear' | 'before-import' | 'before-restore';
+
+export const SNAPSHOT_KIND_LABELS: Record<SnapshotKind, string> = {
+    'auto': 'Automatic',
+    'manual': 'Manual',
+    'before-clear': 'Before Clear All',
+    'before-import': 'Before import',
+    'before-restore': 'Before restore',
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Automatic snapshots are taken at most this often, and only when something changed
+export const AUTO_SNAPSHOT_INTERVAL = HOUR;
+
+// How often the app checks whether a map is due for an automatic snapshot
+export const AUTO_SNAPSHOT_CHECK_INTERVAL = 5 * 60 * 1000;
+
+// Retention: one snapshot per hour for a day, then one per day for a month
+export const HOURLY_RETENTION = DAY;
+export const DAILY_RETENTION = 30 * DAY;
+
+// What the snapshot browser lists; stored apart from the cell data so listing stays cheap
+export interface SnapshotInfo {
+    id: string;
+    mapId: string;
+    timestamp: number;
+    kind: SnapshotKind;
+    cellCount: number;
+    totalQuantity: number;
+    signature: string;   // Hash of the cell data, to skip automatic snapshots when nothing changed
+}
+
+export interface SnapshotData {
+    id: string;
+    cells: CellData[];
+    bufferCells: CellData[];
+    images: ImageRecord[];  // Copies, so a restore still has images deleted since
+}
+
+// Cells and total quantity, counted the same way as the summaries (stock holds excluded)
+export function summarizeSnapshotCells(cells: CellData[], bufferCells: CellData[]): { cellCount: number; totalQuantity: number } {
+    const all = [...cells, ...bufferCells].filter(cellHasContent);
+    return {
+        cellCount: all.length,
+        totalQuantity: all.filter(c => !c.isStockHold).reduce((sum, c) => sum + c.quantity, 0),
+    };
+}
+
+// Order-independent hash of both grids (FNV-1a over the sorted cells)
+export function computeSnapshotSignature(cells: CellData[], bufferCells: CellData[]): string {
+    const text = [
+        ...cells.map(c => `m${JSON.stringify(c)}`),
+        ...bufferCells.map(c => `b${JSON.stringify(c)}`),
+    ].sort().join('\n');
+
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${text.length}:${(hash >>> 0).toString(16)}`;
+}
+
+// Ids of snapshots the retention policy drops. Within the first day every non-automatic
+// snapshot is kept plus the newest automatic one of each hour; up to a month the newest
+// of each day is kept; older snapshots are dropped.
+export function selectExpiredSnapshots(snapshots: SnapshotInfo[], now: number): string[] {
+    const newestFirst = [...snapshots].sort((a, b) => b.timestamp - a.timestamp);
+    const seenBuckets = new Set<string>();
+    const expired: string[] = [];
+
+    for (const snapshot of newestFirst) {
+        const age = now - snapshot.timestamp;
+        if (age > DAILY_RETENTION) {
+            expired.push(snapshot.id);
+            continue;
+        }
+
+        let bucket: string;
+        if (age <= HOURLY_RETENTION) {
+            if (snapshot.kind !== 'auto') continue;
+            bucket = `h${Math.floor(snapshot.timestamp / HOUR)}`;
+        } else {
+            const d = new Date(snapshot.timestamp);
+            bucket = `d${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+        }
+
+        if (seenBuckets.has(bucket)) expired.push(snapshot.id);
+        else seenBuckets.add(bucket);
+    }
+
+    return expired;
+}
+
+export interface RestorePlan {
+    changes: CellChange[];
+    outOfBounds: number;  // Snapshot cells that no longer fit the grid and are left out
+    blocked: number;      // Snapshot cells on what is now a wall or text label, left out
+}
+
+// Changes that turn the current grids into the snapshot. Identical cells are left alone
+// so the command (and its ledger entries) only covers what actually differs.
+export function planSnapshotRestore(
+    current: { cells: Map<string, CellData>; bufferCells: Map<string, CellData> },
+    data: SnapshotData,
+    configs: { main: GridConfig; buffer: GridConfig },
+    layout: Map<string, MapCell>  // Layout of the main grid; the buffer has none
+): RestorePlan {
+    const changes: CellChange[] = [];
+    let outOfBounds = 0;
+    let blocked = 0;
+
+    const plan = (
+        grid: GridKind,
+        now: Map<string, CellData>,
+        saved: CellData[],
+        config: GridConfig,
+        slots: Map<string, MapCell> | null
+    ) => {
+        const target = new Map<string, CellData>();
+        for (const cell of saved) {
+            const key = getCellKey(cell.row, cell.col);
+            if (cell.row >= config.rows || cell.col >= config.cols) outOfBounds++;
+            else if (slots && !canHoldInventory(slots.get(key))) blocked++;
+            else target.set(key, cell);
+        }
+
+        now.forEach((cell, key) => {
+            if (!target.has(key)) changes.push({ grid, row: cell.row, col: cell.col, before: cell, after: null });
+        });
+        target.forEach((cell, key) => {
+            const before = now.get(key) ?? null;
+            if (before && JSON.stringify(before) === JSON.stringify(cell)) return;
+            changes.push({ grid, row: cell.row, col: cell.col, before, after: cell });
+        });
+    };
+
+    plan('main', current.cells, data.cells, configs.main, layout);
+    plan('buffer', current.bufferCells, data.bufferCells, configs.buffer, null);
+
+    return { changes, outOfBounds, blocked };
+}
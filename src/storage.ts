@@ -1,78 +1,106 @@
-import { openDB, IDBPDatabase } from 'idb';
-import { CellData, getCellKey } from './types';
+import { openDB, IDBPDatabase, IDBPTransaction } from 'idb';
+import {
+    CellData,
+    GridKind,
+    ImageRecord,
+    MapCell,
+    WarehouseMap,
+    DEFAULT_MAP_ID,
+    createWarehouseMap,
+    generateId,
+    getCellKey,
+} from './types';
+import { getLocationCode, getBufferLocationCode } from './location';
+import {
+    DEFAULT_MATERIAL_CATALOG,
+    MaterialCatalog,
+    MaterialFamily,
+    sortCatalog,
+} from './catalog';
+import { LedgerEntry } from './ledger';
+import {
+    AUTO_SNAPSHOT_INTERVAL,
+    SnapshotData,
+    SnapshotInfo,
+    SnapshotKind,
+    computeSnapshotSignature,
+    selectExpiredSnapshots,
+    summarizeSnapshotCells,
+} from './snapshot';
+import { EXPORT_FORMAT_VERSION, LegacyCellData, ParsedExport, migrateCellData } from './schema';
 
 const DB_NAME = 'inventory-mapper-db';
-const DB_VERSION = 4; // Bumped for image store
+const DB_VERSION = 9; // Bumped for snapshot stores
 const STORE_NAME = 'cells';
 const BUFFER_STORE_NAME = 'bufferCells';
 const IMAGE_STORE_NAME = 'images';
+const MAP_STORE_NAME = 'maps';
+const LAYOUT_STORE_NAME = 'layout';
+const MATERIAL_STORE_NAME = 'materials';
+const LEDGER_STORE_NAME = 'ledger';
+const SNAPSHOT_STORE_NAME = 'snapshots';
+const SNAPSHOT_DATA_STORE_NAME = 'snapshotData';
+
+type StoredCell = CellData & { key: string; mapId: string };
+type StoredMapCell = MapCell & { key: string; mapId: string };
 
 interface InventoryDB {
     cells: {
         key: string;
-        value: CellData & { key: string };
-        indexes: { 'by-code1': string };
+        value: StoredCell;
+        indexes: { 'by-code1': string; 'by-map': string };
     };
     bufferCells: {
         key: string;
-        value: CellData & { key: string };
-        indexes: { 'by-code1': string };
+        value: StoredCell;
+        indexes: { 'by-code1': string; 'by-map': string };
     };
     images: {
         key: string;
-        value: { id: string; dataUrl: string };
+        value: ImageRecord;
+    };
+    maps: {
+        key: string;
+        value: WarehouseMap;
+    };
+    layout: {
+        key: string;
+        value: StoredMapCell;
+        indexes: { 'by-map': string };
+    };
+    materials: {
+        key: string;
+        value: MaterialFamily;
+    };
+    ledger: {
+        key: string;
+        value: LedgerEntry;
+        indexes: { 'by-map': string };
+    };
+    snapshots: {
+        key: string;
+        value: SnapshotInfo;
+        indexes: { 'by-map': string };
+    };
+    snapshotData: {
+        key: string;
+        value: SnapshotData;
     };
 }
 
-// Legacy cell format (for migration)
-interface LegacyCellData {
-    row: number;
-    col: number;
-    materialCode: string;
-    quantity: number;
-    color: string;
-    note: string;
+// Storage key of a cell: scoped to its map so maps never collide
+function getStorageKey(mapId: string, row: number, col: number): string {
+    return `${mapId}:${getCellKey(row, col)}`;
 }
 
-// Parse legacy materialCode into code1/code2/code3
-function parseLegacyMaterialCode(materialCode: string): { code1: string; code2: string; code3: string } {
-    if (!materialCode) {
-        return { code1: '', code2: '', code3: '' };
-    }
-
-    // Match pattern: letters at start (code1), numbers (code2), remaining (code3)
-    const match = materialCode.match(/^([A-Za-z]+)(\d*)(.*)$/);
-    if (match) {
-        return {
-            code1: match[1].toUpperCase(),
-            code2: match[2] || '',
-            code3: match[3]?.trim() || '',
-        };
-    }
-
-    return { code1: materialCode, code2: '', code3: '' };
+function toStoredCell(mapId: string, cell: CellData): StoredCell {
+    return { ...cell, mapId, key: getStorageKey(mapId, cell.row, cell.col) };
 }
 
-// Migrate legacy cell to new format
-function migrateCellData(cell: LegacyCellData | CellData): CellData {
-    // Check if already in new format
-    if ('code1' in cell) {
-        return cell as CellData;
-    }
-
-    // Migrate from legacy format
-    const legacyCell = cell as LegacyCellData;
-    const parsed = parseLegacyMaterialCode(legacyCell.materialCode);
-
-    return {
-        row: legacyCell.row,
-        col: legacyCell.col,
-        code1: parsed.code1,
-        code2: parsed.code2,
-        code3: parsed.code3,
-        quantity: legacyCell.quantity,
-        note: legacyCell.note,
-    };
+// Strip storage-only fields before handing a record to the app
+function fromStoredCell(raw: StoredCell): CellData {
+    const { key: _key, mapId: _mapId, ...cell } = raw;
+    return migrateCellData(cell as unknown as LegacyCellData | CellData);
 }
 
 let dbInstance: IDBPDatabase<InventoryDB> | null = null;
@@ -81,7 +109,7 @@ async function getDB(): Promise<IDBPDatabase<InventoryDB>> {
     if (dbInstance) return dbInstance;
 
     dbInstance = await openDB<InventoryDB>(DB_NAME, DB_VERSION, {
-        upgrade(db, oldVersion) {
+        async upgrade(db, oldVersion, _newVersion, transaction) {
             // Delete old store if it exists (migration)
             if (oldVersion < 2) {
                 if (db.objectStoreNames.contains(STORE_NAME)) {
@@ -104,6 +132,62 @@ async function getDB(): Promise<IDBPDatabase<InventoryDB>> {
             if (!db.objectStoreNames.contains(IMAGE_STORE_NAME)) {
                 db.createObjectStore(IMAGE_STORE_NAME, { keyPath: 'id' });
             }
+
+            // Add maps store and scope cells to a map (version 5+)
+            if (!db.objectStoreNames.contains(MAP_STORE_NAME)) {
+                db.createObjectStore(MAP_STORE_NAME, { keyPath: 'id' });
+            }
+
+            // Add layout store (version 6+)
+            if (!db.objectStoreNames.contains(LAYOUT_STORE_NAME)) {
+                const layoutStore = db.createObjectStore(LAYOUT_STORE_NAME, { keyPath: 'key' });
+                layoutStore.createIndex('by-map', 'mapId');
+            }
+
+            // Add material catalog store, seeded with the built-in families (version 7+)
+            if (!db.objectStoreNames.contains(MATERIAL_STORE_NAME)) {
+                const materialStore = db.createObjectStore(MATERIAL_STORE_NAME, { keyPath: 'code1' });
+                for (const family of DEFAULT_MATERIAL_CATALOG) {
+                    await materialStore.put(family);
+                }
+            }
+
+            // Add stock ledger store (version 8+)
+            if (!db.objectStoreNames.contains(LEDGER_STORE_NAME)) {
+                const ledgerStore = db.createObjectStore(LEDGER_STORE_NAME, { keyPath: 'id' });
+                ledgerStore.createIndex('by-map', 'mapId');
+            }
+
+            // Add snapshot stores: metadata for listing, cell data for restore (version 9+)
+            if (!db.objectStoreNames.contains(SNAPSHOT_STORE_NAME)) {
+                const snapshotStore = db.createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: 'id' });
+                snapshotStore.createIndex('by-map', 'mapId');
+            }
+            if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE_NAME)) {
+                db.createObjectStore(SNAPSHOT_DATA_STORE_NAME, { keyPath: 'id' });
+            }
+
+            if (oldVersion < 5) {
+                await transaction.objectStore(MAP_STORE_NAME).put(createWarehouseMap(DEFAULT_MAP_ID, 'Default'));
+
+                for (const storeName of [STORE_NAME, BUFFER_STORE_NAME] as const) {
+                    const store = transaction.objectStore(storeName);
+                    if (!store.indexNames.contains('by-map')) {
+                        store.createIndex('by-map', 'mapId');
+                    }
+
+                    // Move existing cells into the default map
+                    let cursor = await store.openCursor();
+                    while (cursor) {
+                        const raw = cursor.value;
+                        if (!raw.mapId) {
+                            await cursor.delete();
+                            await store.put({ ...raw, mapId: DEFAULT_MAP_ID, key: `${DEFAULT_MAP_ID}:${raw.key}` });
+                        }
+                        cursor = await cursor.continue();
+                    }
+                }
+            }
         },
     });
 
@@ -128,36 +212,160 @@ export async function deleteImage(id: string): Promise<void> {
     await db.delete(IMAGE_STORE_NAME, id);
 }
 
+// Delete the given images unless a cell in any map still references them
+async function deleteUnreferencedImages(
+    tx: IDBPTransaction<InventoryDB, string[], 'readwrite'>,
+    ids: string[]
+): Promise<void> {
+    if (ids.length === 0) return;
+
+    const [mainCells, bufferCells] = await Promise.all([
+        tx.objectStore(STORE_NAME).getAll(),
+        tx.objectStore(BUFFER_STORE_NAME).getAll(),
+    ]);
+    const referenced = new Set<string>();
+    [...mainCells, ...bufferCells].forEach(cell => { if (cell.imageId) referenced.add(cell.imageId); });
+
+    const imageStore = tx.objectStore(IMAGE_STORE_NAME);
+    await Promise.all(ids.filter(id => !referenced.has(id)).map(id => imageStore.delete(id)));
+}
+
+// ========== MATERIAL CATALOG FUNCTIONS ==========
+
+// Load the material catalog, in display order
+export async function loadMaterialCatalog(): Promise<MaterialCatalog> {
+    const db = await getDB();
+    return sortCatalog(await db.getAll(MATERIAL_STORE_NAME));
+}
+
+// Replace the whole material catalog. `renames` maps old code1 values to new ones;
+// cells of every map are rewritten in the same transaction.
+export async function saveMaterialCatalog(
+    catalog: MaterialCatalog,
+    renames: Record<string, string> = {}
+): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction([MATERIAL_STORE_NAME, STORE_NAME, BUFFER_STORE_NAME], 'readwrite');
+    const materialStore = tx.objectStore(MATERIAL_STORE_NAME);
+    const stored = await materialStore.getAll();
+    const codes = new Set(catalog.map(f => f.code1));
+
+    // Read every affected cell before writing, so swapped codes are not renamed twice
+    const renamed: { storeName: typeof STORE_NAME | typeof BUFFER_STORE_NAME; cell: StoredCell }[] = [];
+    for (const storeName of [STORE_NAME, BUFFER_STORE_NAME] as const) {
+        for (const [from, to] of Object.entries(renames)) {
+            const rawCells = await tx.objectStore(storeName).index('by-code1').getAll(from);
+            rawCells.forEach(raw => renamed.push({ storeName, cell: { ...raw, code1: to } }));
+        }
+    }
+
+    await Promise.all([
+        ...stored.filter(f => !codes.has(f.code1)).map(f => materialStore.delete(f.code1)),
+        ...catalog.map(family => materialStore.put(family)),
+        ...renamed.map(({ storeName, cell }) => tx.objectStore(storeName).put(cell)),
+        tx.done,
+    ]);
+}
+
+// ========== MAP FUNCTIONS ==========
+
+// Load all maps, oldest first
+export async function loadMaps(): Promise<WarehouseMap[]> {
+    const db = await getDB();
+    const maps = await db.getAll(MAP_STORE_NAME);
+    return maps.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Create or update a map record
+export async function saveMap(map: WarehouseMap): Promise<void> {
+    const db = await getDB();
+    await db.put(MAP_STORE_NAME, map);
+}
+
+// Copy a map's cells and buffer cells into a new map
+export async function duplicateMap(sourceId: string, target: WarehouseMap): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction([MAP_STORE_NAME, STORE_NAME, BUFFER_STORE_NAME, LAYOUT_STORE_NAME], 'readwrite');
+
+    const [mainCells, bufferCells, layoutCells] = await Promise.all([
+        tx.objectStore(STORE_NAME).index('by-map').getAll(sourceId),
+        tx.objectStore(BUFFER_STORE_NAME).index('by-map').getAll(sourceId),
+        tx.objectStore(LAYOUT_STORE_NAME).index('by-map').getAll(sourceId),
+    ]);
+
+    await Promise.all([
+        tx.objectStore(MAP_STORE_NAME).put(target),
+        ...mainCells.map(raw => tx.objectStore(STORE_NAME).put(toStoredCell(target.id, fromStoredCell(raw)))),
+        ...bufferCells.map(raw => tx.objectStore(BUFFER_STORE_NAME).put(toStoredCell(target.id, fromStoredCell(raw)))),
+        ...layoutCells.map(raw => tx.objectStore(LAYOUT_STORE_NAME).put(toStoredMapCell(target.id, fromStoredMapCell(raw)))),
+        tx.done,
+    ]);
+}
+
+// Delete a map with its cells, buffer cells, layout, snapshots and images no other map uses
+export async function deleteMap(mapId: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction([
+        MAP_STORE_NAME,
+        STORE_NAME,
+        BUFFER_STORE_NAME,
+        IMAGE_STORE_NAME,
+        LAYOUT_STORE_NAME,
+        SNAPSHOT_STORE_NAME,
+        SNAPSHOT_DATA_STORE_NAME,
+    ], 'readwrite');
+    const imageIds: string[] = [];
+
+    const work = async () => {
+        for (const storeName of [STORE_NAME, BUFFER_STORE_NAME] as const) {
+            const store = tx.objectStore(storeName);
+            const rawCells = await store.index('by-map').getAll(mapId);
+            for (const raw of rawCells) {
+                if (raw.imageId) imageIds.push(raw.imageId);
+                await store.delete(raw.key);
+            }
+        }
+        const layoutKeys = await tx.objectStore(LAYOUT_STORE_NAME).index('by-map').getAllKeys(mapId);
+        await Promise.all(layoutKeys.map(key => tx.objectStore(LAYOUT_STORE_NAME).delete(key)));
+        const snapshotIds = await tx.objectStore(SNAPSHOT_STORE_NAME).index('by-map').getAllKeys(mapId);
+        await Promise.all(snapshotIds.flatMap(id => [
+            tx.objectStore(SNAPSHOT_STORE_NAME).delete(id),
+            tx.objectStore(SNAPSHOT_DATA_STORE_NAME).delete(id),
+        ]));
+        await tx.objectStore(MAP_STORE_NAME).delete(mapId);
+        await deleteUnreferencedImages(tx, imageIds);
+    };
+    await Promise.all([work(), tx.done]);
+}
+
+// ========== CELL FUNCTIONS ==========
+
 // Save a single cell
-export async function saveCell(cell: CellData): Promise<void> {
+export async function saveCell(mapId: string, cell: CellData): Promise<void> {
     const db = await getDB();
-    const key = getCellKey(cell.row, cell.col);
-    await db.put(STORE_NAME, { ...cell, key });
+    await db.put(STORE_NAME, toStoredCell(mapId, cell));
 }
 
 // Save multiple cells
-export async function saveCells(cells: CellData[]): Promise<void> {
+export async function saveCells(mapId: string, cells: CellData[]): Promise<void> {
     const db = await getDB();
     const tx = db.transaction(STORE_NAME, 'readwrite');
 
     await Promise.all([
-        ...cells.map(cell => {
-            const key = getCellKey(cell.row, cell.col);
-            return tx.store.put({ ...cell, key });
-        }),
+        ...cells.map(cell => tx.store.put(toStoredCell(mapId, cell))),
         tx.done,
     ]);
 }
 
-// Load all cells (with migration support)
-export async function loadAllCells(): Promise<Map<string, CellData>> {
+// Load all cells of a map (with migration support)
+export async function loadAllCells(mapId: string): Promise<Map<string, CellData>> {
     const db = await getDB();
-    const rawCells = await db.getAll(STORE_NAME);
+    const rawCells = await db.getAllFromIndex(STORE_NAME, 'by-map', mapId);
     const cellMap = new Map<string, CellData>();
 
     for (const rawCell of rawCells) {
         // Migrate cell if needed
-        const cell = migrateCellData(rawCell as unknown as LegacyCellData | CellData);
+        const cell = fromStoredCell(rawCell);
         const key = getCellKey(cell.row, cell.col);
         cellMap.set(key, cell);
     }
@@ -166,56 +374,53 @@ export async function loadAllCells(): Promise<Map<string, CellData>> {
 }
 
 // Delete a cell
-export async function deleteCell(row: number, col: number): Promise<void> {
+export async function deleteCell(mapId: string, row: number, col: number): Promise<void> {
     const db = await getDB();
-    const key = getCellKey(row, col);
-    await db.delete(STORE_NAME, key);
+    await db.delete(STORE_NAME, getStorageKey(mapId, row, col));
 }
 
-// Clear all cells
-export async function clearAllCells(): Promise<void> {
+// Clear all cells of a map
+export async function clearAllCells(mapId: string): Promise<void> {
     const db = await getDB();
-    await db.clear(STORE_NAME);
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const keys = await tx.store.index('by-map').getAllKeys(mapId);
+    await Promise.all([...keys.map(key => tx.store.delete(key)), tx.done]);
 }
 
-// Get cells by code1
-export async function getCellsByCode1(code1: string): Promise<CellData[]> {
+// Get cells of a map by code1
+export async function getCellsByCode1(mapId: string, code1: string): Promise<CellData[]> {
     const db = await getDB();
     const rawCells = await db.getAllFromIndex(STORE_NAME, 'by-code1', code1);
-    return rawCells.map(cell => migrateCellData(cell as unknown as LegacyCellData | CellData));
+    return rawCells.filter(cell => cell.mapId === mapId).map(fromStoredCell);
 }
 
 // ========== BUFFER GRID FUNCTIONS ==========
 
 // Save a single buffer cell
-export async function saveBufferCell(cell: CellData): Promise<void> {
+export async function saveBufferCell(mapId: string, cell: CellData): Promise<void> {
     const db = await getDB();
-    const key = getCellKey(cell.row, cell.col);
-    await db.put(BUFFER_STORE_NAME, { ...cell, key });
+    await db.put(BUFFER_STORE_NAME, toStoredCell(mapId, cell));
 }
 
 // Save multiple buffer cells
-export async function saveBufferCells(cells: CellData[]): Promise<void> {
+export async function saveBufferCells(mapId: string, cells: CellData[]): Promise<void> {
     const db = await getDB();
     const tx = db.transaction(BUFFER_STORE_NAME, 'readwrite');
 
     await Promise.all([
-        ...cells.map(cell => {
-            const key = getCellKey(cell.row, cell.col);
-            return tx.store.put({ ...cell, key });
-        }),
+        ...cells.map(cell => tx.store.put(toStoredCell(mapId, cell))),
         tx.done,
     ]);
 }
 
-// Load all buffer cells
-export async function loadAllBufferCells(): Promise<Map<string, CellData>> {
+// Load all buffer cells of a map
+export async function loadAllBufferCells(mapId: string): Promise<Map<string, CellData>> {
     const db = await getDB();
-    const rawCells = await db.getAll(BUFFER_STORE_NAME);
+    const rawCells = await db.getAllFromIndex(BUFFER_STORE_NAME, 'by-map', mapId);
     const cellMap = new Map<string, CellData>();
 
     for (const rawCell of rawCells) {
-        const cell = migrateCellData(rawCell as unknown as LegacyCellData | CellData);
+        const cell = fromStoredCell(rawCell);
         const key = getCellKey(cell.row, cell.col);
         cellMap.set(key, cell);
     }
@@ -224,25 +429,242 @@ export async function loadAllBufferCells(): Promise<Map<string, CellData>> {
 }
 
 // Delete a buffer cell
-export async function deleteBufferCell(row: number, col: number): Promise<void> {
+export async function deleteBufferCell(mapId: string, row: number, col: number): Promise<void> {
     const db = await getDB();
-    const key = getCellKey(row, col);
-    await db.delete(BUFFER_STORE_NAME, key);
+    await db.delete(BUFFER_STORE_NAME, getStorageKey(mapId, row, col));
 }
 
-// Clear all buffer cells
-export async function clearAllBufferCells(): Promise<void> {
+// Clear all buffer cells of a map
+export async function clearAllBufferCells(mapId: string): Promise<void> {
     const db = await getDB();
-    await db.clear(BUFFER_STORE_NAME);
+    const tx = db.transaction(BUFFER_STORE_NAME, 'readwrite');
+    const keys = await tx.store.index('by-map').getAllKeys(mapId);
+    await Promise.all([...keys.map(key => tx.store.delete(key)), tx.done]);
+}
+
+// ========== LAYOUT FUNCTIONS ==========
+
+function toStoredMapCell(mapId: string, cell: MapCell): StoredMapCell {
+    return { ...cell, mapId, key: getStorageKey(mapId, cell.row, cell.col) };
+}
+
+function fromStoredMapCell(raw: StoredMapCell): MapCell {
+    const { key: _key, mapId: _mapId, ...cell } = raw;
+    return cell;
+}
+
+// Load the layout of a map (only cells that differ from a plain active slot are stored)
+export async function loadLayout(mapId: string): Promise<Map<string, MapCell>> {
+    const db = await getDB();
+    const rawCells = await db.getAllFromIndex(LAYOUT_STORE_NAME, 'by-map', mapId);
+    const layout = new Map<string, MapCell>();
+
+    for (const raw of rawCells) {
+        const cell = fromStoredMapCell(raw);
+        layout.set(getCellKey(cell.row, cell.col), cell);
+    }
+
+    return layout;
+}
+
+// A single layout write: `cell` null resets the slot to a plain active cell
+export interface LayoutWrite {
+    row: number;
+    col: number;
+    cell: MapCell | null;
+}
+
+// A single catalog write: `family` null removes the family
+export interface FamilyWrite {
+    code1: string;
+    family: MaterialFamily | null;
+}
+
+// Apply layout writes of a map in one transaction
+export async function applyLayoutWrites(mapId: string, writes: LayoutWrite[]): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(LAYOUT_STORE_NAME, 'readwrite');
+
+    await Promise.all([
+        ...writes.map(({ row, col, cell }) =>
+            cell ? tx.store.put(toStoredMapCell(mapId, cell)) : tx.store.delete(getStorageKey(mapId, row, col))
+        ),
+        tx.done,
+    ]);
+}
+
+// ========== BATCH WRITES ==========
+
+// A single cell write: `cell` null means the slot is emptied
+export interface CellWrite {
+    grid: GridKind;
+    row: number;
+    col: number;
+    cell: CellData | null;
+}
+
+// Apply cell writes, image changes and their ledger entries across both grids of a map in one
+// transaction, together with the settings, layout and catalog writes of the same command.
+// Images in `remove` are only deleted when no other map still references them.
+export async function applyCellWrites(
+    mapId: string,
+    writes: CellWrite[],
+    images: { put?: ImageRecord[]; remove?: string[] } = {},
+    ledgerEntries: LedgerEntry[] = [],
+    extras: {
+        map?: WarehouseMap;       // Saved with the cells when its grid settings change
+        layout?: LayoutWrite[];   // Layout slots of the map
+        families?: FamilyWrite[]; // Material catalog families
+    } = {}
+): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction([
+        MAP_STORE_NAME,
+        STORE_NAME,
+        BUFFER_STORE_NAME,
+        IMAGE_STORE_NAME,
+        LEDGER_STORE_NAME,
+        LAYOUT_STORE_NAME,
+        MATERIAL_STORE_NAME,
+    ], 'readwrite');
+    const layoutStore = tx.objectStore(LAYOUT_STORE_NAME);
+    const materialStore = tx.objectStore(MATERIAL_STORE_NAME);
+    const cellStore = tx.objectStore(STORE_NAME);
+    const bufferStore = tx.objectStore(BUFFER_STORE_NAME);
+    const imageStore = tx.objectStore(IMAGE_STORE_NAME);
+    const ledgerStore = tx.objectStore(LEDGER_STORE_NAME);
+
+    const work = async () => {
+        await Promise.all([
+            ...writes.map(({ grid, row, col, cell }) => {
+                const store = grid === 'buffer' ? bufferStore : cellStore;
+                return cell ? store.put(toStoredCell(mapId, cell)) : store.delete(getStorageKey(mapId, row, col));
+            }),
+            ...(images.put ?? []).map(img => imageStore.put(img)),
+            ...ledgerEntries.map(entry => ledgerStore.add(entry)),
+            ...(extras.map ? [tx.objectStore(MAP_STORE_NAME).put(extras.map)] : []),
+            ...(extras.layout ?? []).map(({ row, col, cell }) =>
+                cell ? layoutStore.put(toStoredMapCell(mapId, cell)) : layoutStore.delete(getStorageKey(mapId, row, col))
+            ),
+            ...(extras.families ?? []).map(({ code1, family }) =>
+                family ? materialStore.put(family) : materialStore.delete(code1)
+            ),
+        ]);
+        await deleteUnreferencedImages(tx, images.remove ?? []);
+    };
+    // Await tx.done alongside the requests: a failed request aborts the transaction,
+    // and that rejection must not go unhandled
+    await Promise.all([work(), tx.done]);
+}
+
+// ========== LEDGER FUNCTIONS ==========
+
+// Stock movements of a map, oldest first. There is deliberately no way to edit or delete them.
+export async function loadLedger(mapId: string): Promise<LedgerEntry[]> {
+    const db = await getDB();
+    const entries = await db.getAllFromIndex(LEDGER_STORE_NAME, 'by-map', mapId);
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ========== SNAPSHOT FUNCTIONS ==========
+
+// Snapshots of a map, newest first (metadata only)
+export async function loadSnapshots(mapId: string): Promise<SnapshotInfo[]> {
+    const db = await getDB();
+    const snapshots = await db.getAllFromIndex(SNAPSHOT_STORE_NAME, 'by-map', mapId);
+    return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function loadSnapshotData(id: string): Promise<SnapshotData | null> {
+    const db = await getDB();
+    return (await db.get(SNAPSHOT_DATA_STORE_NAME, id)) ?? null;
+}
+
+// Copy both grids of a map (with their images) into a snapshot, then apply the retention policy.
+// Automatic snapshots are skipped (null) when the last one is recent or nothing has changed.
+export async function takeSnapshot(mapId: string, kind: SnapshotKind): Promise<SnapshotInfo | null> {
+    const db = await getDB();
+    const now = Date.now();
+    const [rawCells, rawBufferCells, existing] = await Promise.all([
+        db.getAllFromIndex(STORE_NAME, 'by-map', mapId),
+        db.getAllFromIndex(BUFFER_STORE_NAME, 'by-map', mapId),
+        db.getAllFromIndex(SNAPSHOT_STORE_NAME, 'by-map', mapId),
+    ]);
+    const cells = rawCells.map(fromStoredCell);
+    const bufferCells = rawBufferCells.map(fromStoredCell);
+    const signature = computeSnapshotSignature(cells, bufferCells);
+
+    if (kind === 'auto') {
+        const latest = existing.reduce<SnapshotInfo | null>((a, b) => !a || b.timestamp > a.timestamp ? b : a, null);
+        if (latest && (now - latest.timestamp < AUTO_SNAPSHOT_INTERVAL || latest.signature === signature)) {
+            // Still expire old snapshots of maps that stopped changing
+            await deleteSnapshots(selectExpiredSnapshots(existing, now));
+            return null;
+        }
+    }
+
+    const imageIds = new Set([...cells, ...bufferCells].map(c => c.imageId).filter((id): id is string => !!id));
+    const images: ImageRecord[] = [];
+    for (const id of imageIds) {
+        const dataUrl = await loadImage(id);
+        if (dataUrl) images.push({ id, dataUrl });
+    }
+
+    const info: SnapshotInfo = {
+        id: generateId(),
+        mapId,
+        timestamp: now,
+        kind,
+        ...summarizeSnapshotCells(cells, bufferCells),
+        signature,
+    };
+    const expired = selectExpiredSnapshots([...existing, info], now);
+
+    const tx = db.transaction([SNAPSHOT_STORE_NAME, SNAPSHOT_DATA_STORE_NAME], 'readwrite');
+    await Promise.all([
+        tx.objectStore(SNAPSHOT_STORE_NAME).put(info),
+        tx.objectStore(SNAPSHOT_DATA_STORE_NAME).put({ id: info.id, cells, bufferCells, images }),
+        ...expired.flatMap(id => [
+            tx.objectStore(SNAPSHOT_STORE_NAME).delete(id),
+            tx.objectStore(SNAPSHOT_DATA_STORE_NAME).delete(id),
+        ]),
+        tx.done,
+    ]);
+    return info;
+}
+
+async function deleteSnapshots(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await getDB();
+    const tx = db.transaction([SNAPSHOT_STORE_NAME, SNAPSHOT_DATA_STORE_NAME], 'readwrite');
+    await Promise.all([
+        ...ids.flatMap(id => [
+            tx.objectStore(SNAPSHOT_STORE_NAME).delete(id),
+            tx.objectStore(SNAPSHOT_DATA_STORE_NAME).delete(id),
+        ]),
+        tx.done,
+    ]);
+}
+
+// Automatic snapshot of every map that is due for one
+export async function takeAutoSnapshots(): Promise<void> {
+    const maps = await loadMaps();
+    for (const map of maps) {
+        await takeSnapshot(map.id, 'auto');
+    }
 }
 
 // ========== EXPORT / IMPORT ==========
 
-// Export for backup (returns all cells including buffer as JSON)
-export async function exportData(): Promise<string> {
+// Export a map for backup (returns all cells including buffer as JSON)
+export async function exportData(mapId: string): Promise<string> {
     const db = await getDB();
-    const cells = await db.getAll(STORE_NAME);
-    const bufferCells = await db.getAll(BUFFER_STORE_NAME);
+    const map = await db.get(MAP_STORE_NAME, mapId);
+    const cells = (await db.getAllFromIndex(STORE_NAME, 'by-map', mapId)).map(fromStoredCell);
+    const bufferCells = (await db.getAllFromIndex(BUFFER_STORE_NAME, 'by-map', mapId)).map(fromStoredCell);
+    const layout = (await db.getAllFromIndex(LAYOUT_STORE_NAME, 'by-map', mapId)).map(fromStoredMapCell);
+    const layoutMap = new Map(layout.map(m => [getCellKey(m.row, m.col), m]));
+    const catalog = await loadMaterialCatalog();
 
     const processCell = async (cell: any) => {
         if (cell.imageId) {
@@ -266,71 +688,61 @@ export async function exportData(): Promise<string> {
         return cell;
     };
 
-    const exportCells = await Promise.all(cells.map(processCell));
-    const exportBufferCells = await Promise.all(bufferCells.map(processCell));
-
-    return JSON.stringify({ cells: exportCells, bufferCells: exportBufferCells }, null, 2);
+    // Location codes are informational; validateExportFile ignores them
+    const exportCells = await Promise.all(cells.map(cell => processCell({
+        ...cell,
+        location: getLocationCode(map, layoutMap, cell.row, cell.col),
+    })));
+    const exportBufferCells = await Promise.all(bufferCells.map(cell => processCell({
+        ...cell,
+        location: getBufferLocationCode(cell.row, cell.col),
+    })));
+
+    return JSON.stringify({
+        formatVersion: EXPORT_FORMAT_VERSION,
+        map: map ? {
+            name: map.name,
+            config: map.config,
+            bufferConfig: map.bufferConfig,
+            locationPattern: map.locationPattern,
+            zone: map.zone,
+        } : undefined,
+        cells: exportCells,
+        bufferCells: exportBufferCells,
+        layout,
+        catalog,
+    }, null, 2);
 }
 
-// Import from backup
-export async function importData(jsonData: string): Promise<void> {
-    const parsed = JSON.parse(jsonData);
-
-    let rawCells: any[];
-    let rawBufferCells: any[] = [];
-    let rawImages: { id: string; dataUrl: string }[] = [];
-
-    if (Array.isArray(parsed)) {
-        rawCells = parsed;
-    } else {
-        rawCells = parsed.cells || [];
-        rawBufferCells = parsed.bufferCells || [];
-        rawImages = parsed.images || [];
-    }
-
+// Give the file's images ids that cannot clash with stored ones. An image whose id is already
+// taken by a different picture gets a fresh id (and its cells follow); an identical picture keeps
+// the stored one. Cells pointing at an image the file doesn't contain lose the reference, as it
+// would otherwise show whatever local image happens to have that id.
+export async function resolveImportImages(parsed: ParsedExport): Promise<ParsedExport> {
     const db = await getDB();
-    const imageTx = db.transaction(IMAGE_STORE_NAME, 'readwrite');
-    const imagePromises: Promise<any>[] = [];
-
-    const extractImage = (raw: any) => {
-        const cell = raw.data ? { ...raw.data } : { ...raw };
-        const imageObj = raw.image || cell.image;
-
-        if (imageObj) {
-            let dataUrl = imageObj.dataUrl;
-            if (!dataUrl && imageObj.data) {
-                dataUrl = `data:${imageObj.type || 'image/jpeg'};base64,${imageObj.data}`;
-            }
-
-            if (dataUrl) {
-                if (!cell.imageId) {
-                    cell.imageId = Math.random().toString(36).slice(2) + Date.now().toString(36);
-                }
-                imagePromises.push(imageTx.store.put({ id: cell.imageId, dataUrl }));
-            }
-            delete cell.image;
-        }
-        return cell;
-    };
-
-    const cells: CellData[] = rawCells.map((raw: any) => migrateCellData(extractImage(raw)));
-    const bufferCells: CellData[] = rawBufferCells.map((raw: any) => migrateCellData(extractImage(raw)));
-
-    if (rawImages.length > 0) {
-        for (const img of rawImages) {
-            imagePromises.push(imageTx.store.put(img));
-        }
-    }
-    
-    if (imagePromises.length > 0) {
-        imagePromises.push(imageTx.done);
-        await Promise.all(imagePromises);
+    const idMap = new Map<string, string>();
+    const images: ImageRecord[] = [];
+
+    for (const image of parsed.images) {
+        if (idMap.has(image.id)) continue;
+        const stored = await db.get(IMAGE_STORE_NAME, image.id);
+        const id = stored && stored.dataUrl !== image.dataUrl ? generateId() : image.id;
+        idMap.set(image.id, id);
+        images.push({ id, dataUrl: image.dataUrl });
     }
 
-    await clearAllCells();
-    await saveCells(cells);
+    const remap = (cell: CellData): CellData => {
+        if (!cell.imageId) return cell;
+        const imageId = idMap.get(cell.imageId);
+        if (imageId) return { ...cell, imageId };
+        const { imageId: _dangling, ...rest } = cell;
+        return rest;
+    };
 
-    await clearAllBufferCells();
-    await saveBufferCells(bufferCells);
+    return {
+        ...parsed,
+        cells: parsed.cells.map(remap),
+        bufferCells: parsed.bufferCells.map(remap),
+        images,
+    };
 }
-
@@ -20,6 +20,15 @@ export interface GridPosition {
     col: number;
 }
 
+// Which grid a cell lives in
+export type GridKind = 'main' | 'buffer';
+
+// Image record as stored in IndexedDB
+export interface ImageRecord {
+    id: string;
+    dataUrl: string;
+}
+
 
 // Material summary for aggregation
 export interface MaterialSummary {
@@ -70,33 +79,37 @@ export const BUFFER_GRID_CONFIG: GridConfig = {
     rowHeaderWidth: 40,
 };
 
+// A named warehouse map (yard, shed, ...) with its own grid and buffer
+export interface WarehouseMap {
+    id: string;
+    name: string;
+    config: GridConfig;
+    bufferConfig: GridConfig;
+    createdAt: number;
+    locationPattern?: string;  // e.g. "{zone}-{row:02}-{col:02}"; A1 codes when unset
+    zone?: string;             // Value of the {zone} token
+}
+
+// Id of the map that pre-multi-map data is migrated into
+export const DEFAULT_MAP_ID = 'default';
+
+// Create a map record with the default grid dimensions
+export function createWarehouseMap(id: string, name: string): WarehouseMap {
+    return {
+        id,
+        name,
+        config: { ...DEFAULT_GRID_CONFIG },
+        bufferConfig: { ...BUFFER_GRID_CONFIG },
+        createdAt: Date.now(),
+    };
+}
+
 // Highlight state for summary → grid interaction
 export interface HighlightState {
     combinedCode: string;  // The material code to highlight (e.g., "S5 PIM")
     timestamp: number;     // When the highlight was triggered (for auto-clear)
 }
 
-// Material Color Map - colors determined by Code1 only
-export const MATERIAL_COLOR_MAP: Record<string, { primary: string; background: string }> = {
-    S: { primary: "#00FF66", background: "#0B3A2E" },
-    F: { primary: "#FF3B3B", background: "#3A0B0B" },
-    SI: { primary: "#FFD600", background: "#3A330B" },
-    V: { primary: "#FF66CC", background: "#3A0B2A" },
-    SH: { primary: "#0B7A3B", background: "#062F1A" },
-    SP: { primary: "#FFC700", background: "#3A2F00" },
-    SJ: { primary: "#FF8C00", background: "#3A1F00" },
-    SW: { primary: "#2EE6C5", background: "#0B3A33" },
-    SK: { primary: "#2EE6C5", background: "#0B3A33" },
-    B: { primary: "#4DA6FF", background: "#0B1F3A" },
-    TR: { primary: "#CFCFCF", background: "#2E2E2E" },
-    P: { primary: "#CFCFCF", background: "#2E2E2E" }
-};
-
-// Get material color from Code1
-export function getMaterialColor(code1: string): { primary: string; background: string } {
-    return MATERIAL_COLOR_MAP[code1] || { primary: "#888888", background: "#2E2E2E" };
-}
-
 // Get combined material code display
 export function getCombinedCode(cell: CellData): string {
     let code = cell.code1 + cell.code2;
@@ -109,12 +122,6 @@ export function getGroupingCode(cell: CellData): string {
     return cell.code1 + cell.code2;
 }
 
-// List of all available Code1 options for dropdown
-export const CODE1_OPTIONS = ['S', 'F', 'SI', 'V', 'SH', 'SP', 'SJ', 'SW', 'SK', 'B', 'TR', 'P'];
-
-// List of Code2 numeric options for dropdown
-export const CODE2_OPTIONS = ['1', '2.5', '5', '10', '18', '20', '25', '50'];
-
 // Get column letter (A, B, C, ..., Z, AA, AB, ...)
 export function getColumnLabel(col: number): string {
     let label = '';
@@ -145,11 +152,76 @@ export function cellHasContent(cell: CellData | null | undefined): boolean {
     return cell.code1 !== '' || cell.quantity > 0 || cell.note !== '';
 }
 
+// Generate a random id for images, maps, etc.
+export function generateId(): string {
+    return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
 // Generate unique cell key
 export function getCellKey(row: number, col: number): string {
     return `${row}-${col}`;
 }
 
+// Inverse of getCellKey
+export function parseCellKey(key: string): GridPosition {
+    const [row, col] = key.split('-').map(Number);
+    return { row, col };
+}
+
+// A rectangle of cells, both corners included
+export interface GridRange {
+    startRow: number;
+    startCol: number;
+    endRow: number;
+    endCol: number;
+}
+
+// The rectangle spanned by two corner cells given in any order
+export function getGridRange(a: GridPosition, b: GridPosition): GridRange {
+    return {
+        startRow: Math.min(a.row, b.row),
+        startCol: Math.min(a.col, b.col),
+        endRow: Math.max(a.row, b.row),
+        endCol: Math.max(a.col, b.col),
+    };
+}
+
+export function getRangeKeys(range: GridRange): string[] {
+    const keys: string[] = [];
+    for (let r = range.startRow; r <= range.endRow; r++) {
+        for (let c = range.startCol; c <= range.endCol; c++) keys.push(getCellKey(r, c));
+    }
+    return keys;
+}
+
+export function getRangeSize(range: GridRange): number {
+    return (range.endRow - range.startRow + 1) * (range.endCol - range.startCol + 1);
+}
+
+// Smallest rectangle around the cells, or null when there are none
+export function getBoundingRange(keys: Iterable<string>): GridRange | null {
+    let range: GridRange | null = null;
+    for (const key of keys) {
+        const { row, col } = parseCellKey(key);
+        range = range
+            ? {
+                startRow: Math.min(range.startRow, row),
+                startCol: Math.min(range.startCol, col),
+                endRow: Math.max(range.endRow, row),
+                endCol: Math.max(range.endCol, col),
+            }
+            : { startRow: row, startCol: col, endRow: row, endCol: col };
+    }
+    return range;
+}
+
+// "B3:G12", or "B3" for a single cell
+export function formatGridRange(range: GridRange): string {
+    const start = `${getColumnLabel(range.startCol)}${range.startRow + 1}`;
+    const end = `${getColumnLabel(range.endCol)}${range.endRow + 1}`;
+    return start === end ? start : `${start}:${end}`;
+}
+
 export type CellType = 'active' | 'blocked' | 'label' | 'boundary' | 'h-spacer';
 
 export interface MapCell {
@@ -160,3 +232,31 @@ export interface MapCell {
     type: CellType;
     labelText?: string;
 }
+
+// Display names for layout cell types
+export const CELL_TYPE_LABELS: Record<CellType, string> = {
+    active: 'Active slot',
+    blocked: 'Wall / Blocked',
+    boundary: 'Boundary',
+    'h-spacer': 'Aisle (spacer)',
+    label: 'Text label',
+};
+
+// Create a layout cell (a plain active slot unless a type is given)
+export function createMapCell(row: number, col: number, type: CellType = 'active'): MapCell {
+    return { id: getCellKey(row, col), row, col, locationCode: '', type };
+}
+
+// A plain active slot without a code is the default and is not stored
+export function isDefaultMapCell(mapCell: MapCell): boolean {
+    return mapCell.type === 'active' && !mapCell.locationCode && !mapCell.labelText;
+}
+
+// Inventory cannot be placed on walls or text labels
+export function typeBlocksInventory(type: CellType): boolean {
+    return type === 'blocked' || type === 'label';
+}
+
+export function canHoldInventory(mapCell: MapCell | null | undefined): boolean {
+    return !mapCell || !typeBlocksInventory(mapCell.type);
+}
@@ -0,0 +1,487 @@
+import {
+    CellData,
+    CellType,
+    GridConfig,
+    GridKind,
+    MapCell,
+    cellHasContent,
+    getCellKey,
+    getColumnLabel,
+    getCombinedCode,
+} from './types';
+import { MaterialCatalog, getMaterialColor, getMaterialUnit, summarizeMaterials } from './catalog';
+import { GRID_COLORS } from './gridRenderer';
+
+// ========== ZIP ==========
+// An .xlsx file is a zip of XML parts. Entries are stored uncompressed, which every
+// spreadsheet app reads and keeps this writer small.
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+function buildZip(entries: ZipEntry[], date = new Date()): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new Uint8Array(30 + name.length + size);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034B50, true);
+        lv.setUint16(4, 20, true);          // Version needed
+        lv.setUint16(10, dosTime, true);
+        lv.setUint16(12, dosDate, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, size, true);       // Compressed size (stored)
+        lv.setUint32(22, size, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+        local.set(entry.data, 30 + name.length);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014B50, true);
+        cv.setUint16(4, 20, true);          // Version made by
+        cv.setUint16(6, 20, true);          // Version needed
+        cv.setUint16(12, dosTime, true);
+        cv.setUint16(14, dosDate, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, size, true);
+        cv.setUint32(24, size, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);     // Offset of the local header
+        central.set(name, 46);
+
+        locals.push(local);
+        centrals.push(central);
+        offset += local.length;
+    }
+
+    const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054B50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const zip = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    for (const part of [...locals, ...centrals, end]) {
+        zip.set(part, position);
+        position += part.length;
+    }
+    return zip.buffer;
+}
+
+// ========== WORKBOOK ==========
+
+export interface XlsxStyle {
+    fill?: string;           // Background colour, e.g. "#0B3A2E"
+    stripes?: string;        // Diagonal stripes of this colour over the fill
+    color?: string;          // Text colour
+    bold?: boolean;
+    wrap?: boolean;          // Wrap text and centre it, for map cells
+    border?: string;         // Thin border colour
+}
+
+export interface XlsxCell {
+    value: string | number;
+    style?: XlsxStyle;
+    comment?: string;        // Shown as an Excel comment (note)
+}
+
+export interface XlsxSheet {
+    name: string;            // At most 31 characters, without : \ / ? * [ ]
+    rows: (XlsxCell | null)[][];
+    columnWidths?: number[]; // In characters, per column
+    rowHeights?: number[];   // In points, per row
+    freeze?: { rows: number; cols: number };
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPE_PREFIX = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+export const XLSX_MIME_TYPE = `${CONTENT_TYPE_PREFIX}.sheet`;
+
+// Escape text for XML, dropping control characters XML cannot hold
+function escapeXml(text: string): string {
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// "#0b3a2e" or "#0b3" → "FF0B3A2E"
+function toArgb(color: string): string {
+    let hex = color.replace('#', '').toUpperCase();
+    if (/^[0-9A-F]{3}$/.test(hex)) hex = hex.split('').map(h => h + h).join('');
+    return /^[0-9A-F]{6}$/.test(hex) ? `FF${hex}` : 'FF000000';
+}
+
+function cellRef(row: number, col: number): string {
+    return `${getColumnLabel(col)}${row + 1}`;
+}
+
+// Fonts, fills and borders used by the styles, each stored once
+function createStyleRegistry() {
+    const fonts = ['<font><sz val="11"/><name val="Calibri"/></font>'];
+    const fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+    const borders = ['<border><left/><right/><top/><bottom/><diagonal/></border>'];
+    const xfs = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+    const xfIndex = new Map<string, number>();
+
+    const indexOf = (list: string[], xml: string) => {
+        const index = list.indexOf(xml);
+        if (index >= 0) return index;
+        list.push(xml);
+        return list.length - 1;
+    };
+
+    const register = (style: XlsxStyle | undefined): number => {
+        if (!style) return 0;
+        const key = JSON.stringify(style);
+        const known = xfIndex.get(key);
+        if (known !== undefined) return known;
+
+        const fontId = style.color || style.bold
+            ? indexOf(fonts, `<font>${style.bold ? '<b/>' : ''}<sz val="11"/>` +
+                `${style.color ? `<color rgb="${toArgb(style.color)}"/>` : ''}<name val="Calibri"/></font>`)
+            : 0;
+        const fillId = style.stripes
+            ? indexOf(fills, `<fill><patternFill patternType="darkUp"><fgColor rgb="${toArgb(style.stripes)}"/>` +
+                `<bgColor rgb="${toArgb(style.fill ?? '#000000')}"/></patternFill></fill>`)
+            : style.fill
+                ? indexOf(fills, `<fill><patternFill patternType="solid"><fgColor rgb="${toArgb(style.fill)}"/>` +
+                    '<bgColor indexed="64"/></patternFill></fill>')
+                : 0;
+        const side = (name: string) => `<${name} style="thin"><color rgb="${toArgb(style.border ?? '')}"/></${name}>`;
+        const borderId = style.border
+            ? indexOf(borders, `<border>${side('left')}${side('right')}${side('top')}${side('bottom')}<diagonal/></border>`)
+            : 0;
+        const alignment = style.wrap ? '<alignment horizontal="center" vertical="center" wrapText="1"/>' : '';
+
+        xfs.push(`<xf numFmtId="0" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"` +
+            ` applyFont="1" applyFill="1" applyBorder="1"${alignment ? ' applyAlignment="1">' + alignment + '</xf>' : '/>'}`);
+        xfIndex.set(key, xfs.length - 1);
+        return xfs.length - 1;
+    };
+
+    const toXml = () => XML_HEADER +
+        `<styleSheet xmlns="${MAIN_NS}">` +
+        `<fonts count="${fonts.length}">${fonts.join('')}</fonts>` +
+        `<fills count="${fills.length}">${fills.join('')}</fills>` +
+        `<borders count="${borders.length}">${borders.join('')}</borders>` +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        `<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>` +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        '</styleSheet>';
+
+    return { register, toXml };
+}
+
+function sheetViewXml(freeze: XlsxSheet['freeze']): string {
+    if (!freeze || (freeze.rows === 0 && freeze.cols === 0)) return '<sheetViews><sheetView workbookViewId="0"/></sheetViews>';
+    const pane = freeze.rows > 0 && freeze.cols > 0 ? 'bottomRight' : freeze.rows > 0 ? 'bottomLeft' : 'topRight';
+    return '<sheetViews><sheetView workbookViewId="0"><pane' +
+        (freeze.cols > 0 ? ` xSplit="${freeze.cols}"` : '') +
+        (freeze.rows > 0 ? ` ySplit="${freeze.rows}"` : '') +
+        ` topLeftCell="${cellRef(freeze.rows, freeze.cols)}" activePane="${pane}" state="frozen"/>` +
+        `<selection pane="${pane}"/></sheetView></sheetViews>`;
+}
+
+function commentsXml(comments: { ref: string; text: string }[]): string {
+    return XML_HEADER +
+        `<comments xmlns="${MAIN_NS}"><authors><author>Inventory Mapper</author></authors><commentList>` +
+        comments.map(c => `<comment ref="${c.ref}" authorId="0"><text><r><t xml:space="preserve">${escapeXml(c.text)}</t></r></text></comment>`).join('') +
+        '</commentList></comments>';
+}
+
+// Excel only shows comments that also have a (hidden) VML note shape
+function commentShapesXml(comments: { row: number; col: number }[], sheetNumber: number): string {
+    const shapes = comments.map((c, i) =>
+        `<v:shape id="_x0000_s${sheetNumber * 1024 + i + 1}" type="#_x0000_t202" ` +
+        'style="position:absolute;margin-left:80pt;margin-top:2pt;width:140pt;height:60pt;z-index:1;visibility:hidden" ' +
+        'fillcolor="#ffffe1" o:insetmode="auto"><v:fill color2="#ffffe1"/><v:shadow on="t" color="black" obscured="t"/>' +
+        '<v:path o:connecttype="none"/><v:textbox style="mso-direction-alt:auto"><div style="text-align:left"></div></v:textbox>' +
+        '<x:ClientData ObjectType="Note"><x:MoveWithCells/><x:SizeWithCells/>' +
+        `<x:Anchor>${c.col + 1}, 15, ${c.row}, 2, ${c.col + 3}, 15, ${c.row + 4}, 16</x:Anchor>` +
+        `<x:AutoFill>False</x:AutoFill><x:Row>${c.row}</x:Row><x:Column>${c.col}</x:Column></x:ClientData></v:shape>`
+    );
+    return '<xml xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office" ' +
+        'xmlns:x="urn:schemas-microsoft-com:office:excel">' +
+        `<o:shapelayout v:ext="edit"><o:idmap v:ext="edit" data="${sheetNumber}"/></o:shapelayout>` +
+        '<v:shapetype id="_x0000_t202" coordsize="21600,21600" o:spt="202" path="m,l,21600r21600,l21600,xe">' +
+        '<v:stroke joinstyle="miter"/><v:path gradientshapeok="t" o:connecttype="rect"/></v:shapetype>' +
+        shapes.join('') + '</xml>';
+}
+
+// Write sheets to the bytes of an .xlsx file
+export function buildXlsx(sheets: XlsxSheet[]): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const styles = createStyleRegistry();
+    const entries: ZipEntry[] = [];
+    const add = (name: string, xml: string) => entries.push({ name, data: encoder.encode(xml) });
+    const overrides: string[] = [];
+
+    sheets.forEach((sheet, i) => {
+        const number = i + 1;
+        const comments: { row: number; col: number; ref: string; text: string }[] = [];
+
+        const rowsXml = sheet.rows.map((row, r) => {
+            const height = sheet.rowHeights?.[r];
+            const cellsXml = row.map((cell, c) => {
+                if (!cell) return '';
+                const ref = cellRef(r, c);
+                if (cell.comment) comments.push({ row: r, col: c, ref, text: cell.comment });
+                const s = styles.register(cell.style);
+                const styleAttr = s ? ` s="${s}"` : '';
+                return typeof cell.value === 'number'
+                    ? `<c r="${ref}"${styleAttr}><v>${cell.value}</v></c>`
+                    : `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+            }).join('');
+            return `<row r="${r + 1}"${height ? ` ht="${height}" customHeight="1"` : ''}>${cellsXml}</row>`;
+        }).join('');
+
+        const colsXml = sheet.columnWidths?.length
+            ? '<cols>' + sheet.columnWidths.map((width, c) =>
+                `<col min="${c + 1}" max="${c + 1}" width="${width}" customWidth="1"/>`).join('') + '</cols>'
+            : '';
+
+        add(`xl/worksheets/sheet${number}.xml`, XML_HEADER +
+            `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+            sheetViewXml(sheet.freeze) +
+            '<sheetFormatPr defaultRowHeight="15"/>' +
+            colsXml +
+            `<sheetData>${rowsXml}</sheetData>` +
+            '<pageMargins left="0.5" right="0.5" top="0.5" bottom="0.5" header="0.3" footer="0.3"/>' +
+            (comments.length > 0 ? '<legacyDrawing r:id="rId2"/>' : '') +
+            '</worksheet>');
+        overrides.push(`<Override PartName="/xl/worksheets/sheet${number}.xml" ContentType="${CONTENT_TYPE_PREFIX}.worksheet+xml"/>`);
+
+        if (comments.length > 0) {
+            add(`xl/comments${number}.xml`, commentsXml(comments));
+            add(`xl/drawings/vmlDrawing${number}.vml`, commentShapesXml(comments, number));
+            add(`xl/worksheets/_rels/sheet${number}.xml.rels`, XML_HEADER +
+                `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+                `<Relationship Id="rId1" Type="${REL_NS}/comments" Target="../comments${number}.xml"/>` +
+                `<Relationship Id="rId2" Type="${REL_NS}/vmlDrawing" Target="../drawings/vmlDrawing${number}.vml"/>` +
+                '</Relationships>');
+            overrides.push(`<Override PartName="/xl/comments${number}.xml" ContentType="${CONTENT_TYPE_PREFIX}.comments+xml"/>`);
+        }
+    });
+
+    add('xl/workbook.xml', XML_HEADER +
+        `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+        sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>');
+    add('xl/_rels/workbook.xml.rels', XML_HEADER +
+        `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+        '</Relationships>');
+    add('xl/styles.xml', styles.toXml());
+    add('_rels/.rels', XML_HEADER +
+        `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+        `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>');
+    add('[Content_Types].xml', XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Default Extension="vml" ContentType="application/vnd.openxmlformats-officedocument.vmlDrawing"/>' +
+        `<Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPE_PREFIX}.sheet.main+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="${CONTENT_TYPE_PREFIX}.styles+xml"/>` +
+        overrides.join('') +
+        '</Types>');
+
+    // The content types part goes first, as spreadsheet apps expect
+    return buildZip([entries[entries.length - 1], ...entries.slice(0, -1)]);
+}
+
+// ========== INVENTORY WORKBOOK ==========
+
+export interface InventoryWorkbookInput {
+    cells: Map<string, CellData>;
+    bufferCells: Map<string, CellData>;
+    layout: Map<string, MapCell>;
+    gridConfig: GridConfig;
+    bufferConfig: GridConfig;
+    catalog: MaterialCatalog;
+    getLocation: (grid: GridKind, row: number, col: number) => string;
+}
+
+// Fills of empty layout slots, as the grid draws them
+const LAYOUT_FILLS: Record<CellType, string> = {
+    active: GRID_COLORS.emptyCell,
+    blocked: '#1c1c1c',
+    label: GRID_COLORS.corner,
+    boundary: '#3a3a12',
+    'h-spacer': '#2b433a',
+};
+
+const HEADER_STYLE: XlsxStyle = { fill: GRID_COLORS.header, color: GRID_COLORS.headerText, bold: true, wrap: true };
+const TABLE_HEADER_STYLE: XlsxStyle = { bold: true };
+
+// Canvas pixels to Excel column characters and row points
+const pxToWidth = (px: number) => Math.round(px / 7 * 10) / 10;
+const pxToPoints = (px: number) => Math.round(px * 0.75);
+
+// A sheet that looks like the grid: column letters and row numbers around cells filled
+// with their material colour, showing the code over the quantity
+function buildGridSheet(
+    name: string,
+    cells: Map<string, CellData>,
+    config: GridConfig,
+    layout: Map<string, MapCell> | null,
+    catalog: MaterialCatalog
+): XlsxSheet {
+    const header: XlsxCell[] = [{ value: '', style: HEADER_STYLE }];
+    for (let c = 0; c < config.cols; c++) header.push({ value: getColumnLabel(c), style: HEADER_STYLE });
+    const rows: XlsxCell[][] = [header];
+
+    for (let r = 0; r < config.rows; r++) {
+        const row: XlsxCell[] = [{ value: r + 1, style: HEADER_STYLE }];
+        for (let c = 0; c < config.cols; c++) {
+            const key = getCellKey(r, c);
+            const cell = cells.get(key);
+            const mapCell = layout?.get(key);
+            const comment = cell?.note || undefined;
+
+            if (cell && cellHasContent(cell)) {
+                const color = getMaterialColor(cell.code1, catalog);
+                const stripes = cell.isStockHold ? '#f44336' : cell.isBoundary ? '#ffff00' : undefined;
+                row.push({
+                    value: `${getCombinedCode(cell)}\n${cell.quantity}`,
+                    style: {
+                        fill: stripes ? '#000000' : color.background,
+                        stripes,
+                        color: color.primary,
+                        bold: true,
+                        wrap: true,
+                        border: GRID_COLORS.gap,
+                    },
+                    comment,
+                });
+            } else {
+                row.push({
+                    value: mapCell?.type === 'label' ? mapCell.labelText ?? '' : '',
+                    style: {
+                        fill: LAYOUT_FILLS[mapCell?.type ?? 'active'],
+                        color: GRID_COLORS.headerText,
+                        wrap: true,
+                        border: GRID_COLORS.gap,
+                    },
+                    comment,
+                });
+            }
+        }
+        rows.push(row);
+    }
+
+    return {
+        name,
+        rows,
+        columnWidths: [pxToWidth(config.rowHeaderWidth), ...Array(config.cols).fill(pxToWidth(config.cellWidth))],
+        rowHeights: [pxToPoints(config.headerHeight), ...Array(config.rows).fill(pxToPoints(config.cellHeight))],
+        freeze: { rows: 1, cols: 1 },
+    };
+}
+
+// Quantities per combined code of the main grid, like the summary panel (stock hold excluded)
+function buildSummarySheet(cells: Map<string, CellData>, catalog: MaterialCatalog): XlsxSheet {
+    const summaries = summarizeMaterials(cells.values(), catalog);
+    const rows: (XlsxCell | null)[][] = [
+        ['Code', 'Code 1', 'Code 2', 'Code 3', 'Quantity', 'Unit', 'Cells'].map(value => ({ value, style: TABLE_HEADER_STYLE })),
+    ];
+    for (const summary of summaries) {
+        const color = getMaterialColor(summary.code1, catalog);
+        rows.push([
+            { value: summary.combinedCode, style: { fill: color.background, color: color.primary, bold: true } },
+            { value: summary.code1 },
+            { value: summary.code2 },
+            { value: summary.code3 },
+            { value: summary.totalQuantity },
+            { value: getMaterialUnit(summary.code1, catalog) },
+            { value: summary.cellCount },
+        ]);
+    }
+    rows.push([
+        { value: 'Total', style: TABLE_HEADER_STYLE },
+        null,
+        null,
+        null,
+        { value: summaries.reduce((sum, s) => sum + s.totalQuantity, 0), style: TABLE_HEADER_STYLE },
+        null,
+        { value: summaries.reduce((sum, s) => sum + s.cellCount, 0), style: TABLE_HEADER_STYLE },
+    ]);
+
+    return { name: 'Summary', rows, columnWidths: [16, 8, 8, 8, 12, 8, 8], freeze: { rows: 1, cols: 0 } };
+}
+
+// Every stock-hold cell of the grid and the buffer
+function buildStockHoldSheet(input: InventoryWorkbookInput): XlsxSheet {
+    const rows: XlsxCell[][] = [
+        ['Grid', 'Location', 'Code', 'Quantity', 'Unit', 'Note'].map(value => ({ value, style: TABLE_HEADER_STYLE })),
+    ];
+    const addGrid = (grid: GridKind, cells: Map<string, CellData>) => Array.from(cells.values())
+        .filter(cell => cell.isStockHold && cellHasContent(cell))
+        .sort((a, b) => a.row - b.row || a.col - b.col)
+        .forEach(cell => {
+            const color = getMaterialColor(cell.code1, input.catalog);
+            rows.push([
+                { value: grid === 'buffer' ? 'Buffer' : 'Main' },
+                { value: input.getLocation(grid, cell.row, cell.col) },
+                { value: getCombinedCode(cell), style: { fill: color.background, color: color.primary, bold: true } },
+                { value: cell.quantity },
+                { value: getMaterialUnit(cell.code1, input.catalog) },
+                { value: cell.note },
+            ]);
+        });
+    addGrid('main', input.cells);
+    addGrid('buffer', input.bufferCells);
+
+    return { name: 'Stock hold', rows, columnWidths: [8, 14, 16, 12, 8, 40], freeze: { rows: 1, cols: 0 } };
+}
+
+// The map, its summary, the buffer and the stock-hold list as an .xlsx file
+export function buildInventoryWorkbook(input: InventoryWorkbookInput): ArrayBuffer {
+    return buildXlsx([
+        buildGridSheet('Map', input.cells, input.gridConfig, input.layout, input.catalog),
+        buildSummarySheet(input.cells, input.catalog),
+        buildGridSheet('Buffer', input.bufferCells, input.bufferConfig, null, input.catalog),
+        buildStockHoldSheet(input),
+    ]);
+}